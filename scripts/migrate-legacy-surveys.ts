@@ -0,0 +1,31 @@
+// Moves the surveys in data/surveys.json into the survey store so they show
+// up in the survey list and reports. Safe to run more than once.
+//
+//   npm run migrate-legacy-surveys [-- --dry-run]
+import { migrateLegacySurveys } from "../src/lib/legacySurveys";
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+  const result = await migrateLegacySurveys({ dryRun });
+  const prefix = dryRun ? "[dry run] " : "";
+
+  console.log(`${prefix}Migrated ${result.migrated.length} surveys`);
+  for (const id of result.alreadyMigrated) {
+    console.log(`${prefix}Already in the store: ${id}`);
+  }
+  for (const dup of result.duplicates) {
+    console.warn(
+      dup.exact
+        ? `${prefix}Skipped ${dup.id} ("${dup.title}"): same rows as ${dup.duplicateOf}`
+        : `${prefix}Possible duplicate: ${dup.id} ("${dup.title}") looks like ${dup.duplicateOf}`
+    );
+  }
+  for (const key of result.invalid) {
+    console.warn(`${prefix}Skipped ${key}: no survey data`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Failed to migrate legacy surveys:", err);
+  process.exit(1);
+});
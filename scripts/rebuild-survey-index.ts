@@ -0,0 +1,17 @@
+// Rebuilds data/surveys/index.json from the survey-*.json files next to it.
+// Run with `npm run rebuild-index` after a crash left the index corrupt or
+// out of date.
+import { rebuildSurveyIndex } from "../src/lib/surveyStoreFs";
+
+async function main() {
+  const { entries, skipped } = await rebuildSurveyIndex();
+  console.log(`Rebuilt index.json with ${entries.length} surveys`);
+  for (const file of skipped) {
+    console.warn(`Skipped unreadable survey file: ${file}`);
+  }
+}
+
+main().catch((err) => {
+  console.error("Failed to rebuild survey index:", err);
+  process.exit(1);
+});
@@ -0,0 +1,190 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import type { AuditAction, AuditEntry } from "@/lib/auditLog";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "survey.upload": "Uploaded survey",
+  "survey.revision": "New survey revision",
+  "survey.append": "Appended to survey",
+  "survey.edit": "Edited survey",
+  "survey.delete": "Deleted survey",
+  "reports.field_colors": "Chart colours",
+  "parties.update": "Changed party registry",
+};
+
+type Filters = {
+  user: string;
+  action: string;
+  from: string;
+  to: string;
+};
+
+const NO_FILTERS: Filters = { user: "", action: "", from: "", to: "" };
+
+function formatDetails(details: AuditEntry["details"]): string {
+  if (!details) return "";
+  return Object.entries(details)
+    .map(([key, value]) =>
+      `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`
+    )
+    .join(", ");
+}
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+
+  const fetchEntries = async (current: Filters) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(current)) {
+        if (value.trim()) params.set(key, value.trim());
+      }
+      const response = await fetch(`/api/audit?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to fetch audit entries");
+      }
+      const data = await response.json();
+      setEntries(data.entries || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit entries");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries(NO_FILTERS);
+  }, []);
+
+  const setFilter = (key: keyof Filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEntries(filters);
+  };
+
+  return (
+    <main className="mx-auto max-w-5xl px-4 py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Audit trail</h1>
+        <Link href="/admin/users" className="text-sm text-blue-600 hover:underline">
+          Back to users
+        </Link>
+      </div>
+
+      <form onSubmit={handleFilter} className="mb-6 flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="audit-user" className="block text-sm font-medium text-gray-700">
+            User
+          </label>
+          <input
+            id="audit-user"
+            type="text"
+            value={filters.user}
+            onChange={(e) => setFilter("user", e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-action" className="block text-sm font-medium text-gray-700">
+            Action
+          </label>
+          <select
+            id="audit-action"
+            value={filters.action}
+            onChange={(e) => setFilter("action", e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map((a) => (
+              <option key={a} value={a}>
+                {ACTION_LABELS[a]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="audit-from" className="block text-sm font-medium text-gray-700">
+            From
+          </label>
+          <input
+            id="audit-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="audit-to" className="block text-sm font-medium text-gray-700">
+            To
+          </label>
+          <input
+            id="audit-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+        >
+          Filter
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className="mb-4 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading audit entries...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-500">No changes recorded.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="py-2">Time</th>
+              <th className="py-2">User</th>
+              <th className="py-2">Action</th>
+              <th className="py-2">Target</th>
+              <th className="py-2">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry, i) => (
+              <tr key={`${entry.at}-${i}`} className="border-b border-gray-100 align-top">
+                <td className="py-2 whitespace-nowrap">
+                  {new Date(entry.at).toLocaleString()}
+                </td>
+                <td className="py-2">{entry.username}</td>
+                <td className="py-2">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                <td className="py-2 font-mono text-xs">{entry.target}</td>
+                <td className="py-2 text-xs text-gray-500 break-all">
+                  {formatDetails(entry.details)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
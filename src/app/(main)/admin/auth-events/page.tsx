@@ -0,0 +1,148 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import type { AuthEvent, AuthEventType } from "@/lib/authEvents";
+
+const TYPE_LABELS: Record<AuthEventType, string> = {
+  login_success: "Signed in",
+  login_failure: "Failed sign-in",
+  login_locked: "Locked out",
+  logout: "Signed out",
+};
+
+export default function AuthEventsPage() {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState("");
+  const [username, setUsername] = useState("");
+
+  const fetchEvents = async (filters: { type: string; username: string }) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      if (filters.type) params.set("type", filters.type);
+      if (filters.username.trim()) params.set("username", filters.username.trim());
+      const response = await fetch(`/api/admin/auth-events?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to fetch events");
+      }
+      const data = await response.json();
+      setEvents(data.events || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load events");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents({ type: "", username: "" });
+  }, []);
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchEvents({ type, username });
+  };
+
+  return (
+    <main className="mx-auto max-w-4xl px-4 py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Sign-in activity</h1>
+        <Link href="/admin/users" className="text-sm text-blue-600 hover:underline">
+          Back to users
+        </Link>
+      </div>
+
+      <form onSubmit={handleFilter} className="mb-6 flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="event-type" className="block text-sm font-medium text-gray-700">
+            Event
+          </label>
+          <select
+            id="event-type"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All events</option>
+            {(Object.keys(TYPE_LABELS) as AuthEventType[]).map((t) => (
+              <option key={t} value={t}>
+                {TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="event-username" className="block text-sm font-medium text-gray-700">
+            Username
+          </label>
+          <input
+            id="event-username"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+        >
+          Filter
+        </button>
+      </form>
+
+      {error && (
+        <div
+          className="mb-4 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading events...</p>
+      ) : events.length === 0 ? (
+        <p className="text-gray-500">No events recorded.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="py-2">Time</th>
+              <th className="py-2">Event</th>
+              <th className="py-2">Username</th>
+              <th className="py-2">IP</th>
+              <th className="py-2">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event, i) => (
+              <tr key={`${event.at}-${i}`} className="border-b border-gray-100">
+                <td className="py-2 whitespace-nowrap">
+                  {new Date(event.at).toLocaleString()}
+                </td>
+                <td
+                  className={`py-2 ${
+                    event.type === "login_success" || event.type === "logout"
+                      ? "text-gray-800"
+                      : "text-red-600"
+                  }`}
+                >
+                  {TYPE_LABELS[event.type] ?? event.type}
+                </td>
+                <td className="py-2">{event.username ?? ""}</td>
+                <td className="py-2 font-mono text-xs">{event.ip}</td>
+                <td className="py-2 text-gray-500">{event.reason ?? ""}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import type { Alliance, Party, PartyRegistry } from "@/lib/partyRegistry";
+
+// Lists are edited as comma-separated text
+type PartyRow = Omit<Party, "aliases"> & { aliases: string };
+type AllianceRow = Omit<Alliance, "members" | "aliases"> & {
+  members: string;
+  aliases: string;
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function newId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export default function AdminPartiesPage() {
+  const [parties, setParties] = useState<PartyRow[]>([]);
+  const [alliances, setAlliances] = useState<AllianceRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const load = (registry: PartyRegistry) => {
+    const nameById = new Map(registry.parties.map((p) => [p.id, p.name]));
+    setParties(registry.parties.map((p) => ({ ...p, aliases: p.aliases.join(", ") })));
+    setAlliances(
+      registry.alliances.map((a) => ({
+        ...a,
+        members: a.members.map((id) => nameById.get(id) ?? id).join(", "),
+        aliases: a.aliases.join(", "),
+      }))
+    );
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const response = await fetch("/api/parties");
+        if (!response.ok) {
+          throw new Error("Failed to fetch the party registry");
+        }
+        const data = await response.json();
+        load(data.registry);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load parties");
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  const setParty = (id: string, update: Partial<PartyRow>) =>
+    setParties((prev) => prev.map((p) => (p.id === id ? { ...p, ...update } : p)));
+
+  const setAlliance = (id: string, update: Partial<AllianceRow>) =>
+    setAlliances((prev) => prev.map((a) => (a.id === id ? { ...a, ...update } : a)));
+
+  const handleSave = async () => {
+    setError(null);
+    setSaved(false);
+    const idByName = new Map(parties.map((p) => [p.name.trim().toLowerCase(), p.id]));
+    try {
+      const registry: PartyRegistry = {
+        parties: parties.map((p) => ({ ...p, aliases: splitList(p.aliases) })),
+        alliances: alliances.map((a) => ({
+          ...a,
+          members: splitList(a.members).map((name) => {
+            const id = idByName.get(name.toLowerCase());
+            if (!id) throw new Error(`Unknown party in ${a.name || "an alliance"}: ${name}`);
+            return id;
+          }),
+          aliases: splitList(a.aliases),
+        })),
+      };
+      setIsSaving(true);
+      const response = await fetch("/api/parties", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ registry }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save the party registry");
+      }
+      load(data.registry);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the party registry");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const input = "w-full rounded-md border border-gray-300 px-2 py-1 text-sm";
+
+  return (
+    <main className="mx-auto max-w-6xl px-4 py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Parties and alliances</h1>
+        <Link href="/admin/users" className="text-sm text-blue-600 hover:underline">
+          Back to users
+        </Link>
+      </div>
+
+      <p className="mb-6 text-sm text-gray-600">
+        Charts, legends and maps take their labels and colours from here. Column
+        names and values are matched ignoring case and a trailing question
+        number, so &quot;INC4&quot; matches INC. An alliance limited to a state
+        or election year only applies there.
+      </p>
+
+      {error && (
+        <div
+          className="mb-4 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading parties...</p>
+      ) : (
+        <>
+          <section className="mb-10">
+            <h2 className="mb-3 text-lg font-semibold">Parties</h2>
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-gray-200 text-gray-500">
+                <tr>
+                  <th className="py-2 pr-2">Name</th>
+                  <th className="py-2 pr-2">Full name</th>
+                  <th className="py-2 pr-2">Colour</th>
+                  <th className="py-2 pr-2">Aliases</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {parties.map((p) => (
+                  <tr key={p.id} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 w-32">
+                      <input
+                        value={p.name}
+                        onChange={(e) => setParty(p.id, { name: e.target.value })}
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={p.fullName ?? ""}
+                        onChange={(e) => setParty(p.id, { fullName: e.target.value })}
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 w-16">
+                      <input
+                        type="color"
+                        value={p.color}
+                        onChange={(e) => setParty(p.id, { color: e.target.value })}
+                        className="h-8 w-12 cursor-pointer rounded border border-gray-300"
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={p.aliases}
+                        onChange={(e) => setParty(p.id, { aliases: e.target.value })}
+                        placeholder="e.g. Congress, INC(I)"
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setParties((prev) => prev.filter((x) => x.id !== p.id))}
+                        className="text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() =>
+                setParties((prev) => [
+                  ...prev,
+                  { id: newId(), name: "", color: "#64748b", aliases: "" },
+                ])
+              }
+              className="mt-2 text-sm text-blue-600 hover:underline"
+            >
+              Add party
+            </button>
+          </section>
+
+          <section className="mb-8">
+            <h2 className="mb-3 text-lg font-semibold">Alliances</h2>
+            <table className="w-full text-left text-sm">
+              <thead className="border-b border-gray-200 text-gray-500">
+                <tr>
+                  <th className="py-2 pr-2">Name</th>
+                  <th className="py-2 pr-2">Colour</th>
+                  <th className="py-2 pr-2">State</th>
+                  <th className="py-2 pr-2">Year</th>
+                  <th className="py-2 pr-2">Member parties</th>
+                  <th className="py-2 pr-2">Aliases</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {alliances.map((a) => (
+                  <tr key={a.id} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 w-36">
+                      <input
+                        value={a.name}
+                        onChange={(e) => setAlliance(a.id, { name: e.target.value })}
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 w-16">
+                      <input
+                        type="color"
+                        value={a.color}
+                        onChange={(e) => setAlliance(a.id, { color: e.target.value })}
+                        className="h-8 w-12 cursor-pointer rounded border border-gray-300"
+                      />
+                    </td>
+                    <td className="py-1 pr-2 w-36">
+                      <input
+                        value={a.state ?? ""}
+                        onChange={(e) => setAlliance(a.id, { state: e.target.value })}
+                        placeholder="Any"
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 w-20">
+                      <input
+                        value={a.year ?? ""}
+                        onChange={(e) => setAlliance(a.id, { year: e.target.value })}
+                        placeholder="Any"
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={a.members}
+                        onChange={(e) => setAlliance(a.id, { members: e.target.value })}
+                        placeholder="e.g. TDP, BJP, JSP"
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={a.aliases}
+                        onChange={(e) => setAlliance(a.id, { aliases: e.target.value })}
+                        className={input}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setAlliances((prev) => prev.filter((x) => x.id !== a.id))
+                        }
+                        className="text-red-600 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              type="button"
+              onClick={() =>
+                setAlliances((prev) => [
+                  ...prev,
+                  { id: newId(), name: "", color: "#64748b", members: "", aliases: "" },
+                ])
+              }
+              className="mt-2 text-sm text-blue-600 hover:underline"
+            >
+              Add alliance
+            </button>
+          </section>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save registry"}
+            </button>
+            {saved && <span className="text-sm text-emerald-700">Saved.</span>}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import Link from "next/link";
+import React, { useEffect, useState } from "react";
+import { ROLES, type Role } from "@/lib/roles";
+
+type User = {
+  id: string;
+  username: string;
+  role: Role;
+  allowedStates?: string[];
+  disabled: boolean;
+  createdAt: string;
+};
+
+export default function AdminUsersPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<Role>("viewer");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchUsers = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch("/api/admin/users");
+      if (!response.ok) {
+        throw new Error("Failed to fetch users");
+      }
+      const data = await response.json();
+      setUsers(data.users || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const updateUser = async (user: User, update: Record<string, unknown>) => {
+    try {
+      setBusyId(user.id);
+      setError(null);
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to update user");
+      }
+      await fetchUsers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update user");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResetPassword = async (user: User) => {
+    const next = window.prompt(`New password for ${user.username}`);
+    if (!next) return;
+    if (await updateUser(user, { password: next })) {
+      window.alert(`Password for ${user.username} has been reset.`);
+    }
+  };
+
+  const handleEditStates = async (user: User) => {
+    const input = window.prompt(
+      `States ${user.username} may see, separated by commas. Enter * for all states.`,
+      user.allowedStates ? user.allowedStates.join(", ") : "*"
+    );
+    if (input === null) return;
+    if (input.trim() === "*") {
+      await updateUser(user, { allowedStates: null });
+      return;
+    }
+    const states = input
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (states.length === 0) {
+      window.alert("Enter at least one state, or * for all states.");
+      return;
+    }
+    await updateUser(user, { allowedStates: states });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password, role }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to create user");
+      }
+      setUsername("");
+      setPassword("");
+      setRole("viewer");
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create user");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto max-w-3xl px-4 py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Users</h1>
+        <div className="flex gap-4">
+          <Link
+            href="/admin/auth-events"
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Sign-in activity
+          </Link>
+          <Link href="/admin/audit" className="text-sm text-blue-600 hover:underline">
+            Audit trail
+          </Link>
+          <Link href="/admin/parties" className="text-sm text-blue-600 hover:underline">
+            Parties
+          </Link>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">
+            Back to home
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div
+          className="mb-4 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="mb-8 flex flex-wrap items-end gap-3 rounded-lg border border-gray-200 p-4"
+      >
+        <div>
+          <label htmlFor="new-username" className="block text-sm font-medium text-gray-700">
+            Username
+          </label>
+          <input
+            id="new-username"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="new-password" className="block text-sm font-medium text-gray-700">
+            Password
+          </label>
+          <input
+            id="new-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={8}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="new-role" className="block text-sm font-medium text-gray-700">
+            Role
+          </label>
+          <select
+            id="new-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isCreating ? "Adding..." : "Add user"}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading users...</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="py-2">Username</th>
+              <th className="py-2">Role</th>
+              <th className="py-2">States</th>
+              <th className="py-2">Status</th>
+              <th className="py-2">Created</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => (
+              <tr key={user.id} className="border-b border-gray-100">
+                <td className="py-2 font-medium">{user.username}</td>
+                <td className="py-2">
+                  <select
+                    value={user.role}
+                    disabled={busyId === user.id}
+                    onChange={(e) => updateUser(user, { role: e.target.value })}
+                    aria-label={`Role for ${user.username}`}
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-2">
+                  <button
+                    type="button"
+                    disabled={busyId === user.id}
+                    onClick={() => handleEditStates(user)}
+                    title="Edit allowed states"
+                    className="text-left hover:underline disabled:opacity-50"
+                  >
+                    {user.allowedStates ? user.allowedStates.join(", ") : "All"}
+                  </button>
+                </td>
+                <td className="py-2">
+                  {user.disabled ? (
+                    <span className="text-red-600">Disabled</span>
+                  ) : (
+                    <span className="text-green-600">Active</span>
+                  )}
+                </td>
+                <td className="py-2">
+                  {new Date(user.createdAt).toLocaleDateString()}
+                </td>
+                <td className="flex justify-end gap-3 py-2">
+                  <button
+                    type="button"
+                    disabled={busyId === user.id}
+                    onClick={() => handleResetPassword(user)}
+                    className="text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    Reset password
+                  </button>
+                  <button
+                    type="button"
+                    disabled={busyId === user.id}
+                    onClick={() => updateUser(user, { disabled: !user.disabled })}
+                    className="text-gray-700 hover:underline disabled:opacity-50"
+                  >
+                    {user.disabled ? "Enable" : "Disable"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
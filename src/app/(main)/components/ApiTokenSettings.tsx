@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { ApiTokenScope, PublicApiToken } from "@/lib/apiTokens";
+
+interface ApiTokenSettingsProps {
+  /** Upload tokens are only offered to users who may upload */
+  canUpload: boolean;
+}
+
+export function ApiTokenSettings({ canUpload }: ApiTokenSettingsProps) {
+  const [tokens, setTokens] = useState<PublicApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [isCreating, setIsCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await fetch("/api/tokens");
+      if (!response.ok) {
+        throw new Error("Failed to fetch API tokens");
+      }
+      const data = await response.json();
+      setTokens(data.tokens || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNewToken(null);
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scope }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API token");
+      }
+      setNewToken(data.token);
+      setName("");
+      setScope("read");
+      await fetchTokens();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API token");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: PublicApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+    try {
+      setRevokingId(token.id);
+      setError(null);
+      const response = await fetch(`/api/tokens/${token.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to revoke API token");
+      }
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API token");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Use a token from scripts and notebooks by sending it as{" "}
+        <code className="rounded bg-gray-100 px-1">Authorization: Bearer &lt;token&gt;</code>.
+        Read tokens can fetch report and survey data; upload tokens can also
+        upload surveys. Every request made with a token is logged.
+      </p>
+
+      {error && (
+        <div
+          className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <div className="rounded-md border border-emerald-200 bg-emerald-50 p-3 text-sm">
+          <p className="mb-2 font-medium text-emerald-800">
+            Copy your new token now. It will not be shown again.
+          </p>
+          <code className="block break-all rounded bg-white px-2 py-1 font-mono text-xs">
+            {newToken}
+          </code>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="flex flex-wrap items-end gap-3 rounded-lg border border-gray-200 p-4"
+      >
+        <div>
+          <label htmlFor="token-name" className="block text-sm font-medium text-gray-700">
+            Name
+          </label>
+          <input
+            id="token-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Turnout notebook"
+            required
+            maxLength={100}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="token-scope" className="block text-sm font-medium text-gray-700">
+            Scope
+          </label>
+          <select
+            id="token-scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ApiTokenScope)}
+            className="mt-1 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="read">Read only</option>
+            {canUpload && <option value="upload">Upload</option>}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isCreating ? "Creating..." : "Create token"}
+        </button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-gray-500">You have no API tokens.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <thead className="border-b border-gray-200 text-gray-500">
+            <tr>
+              <th className="py-2">Name</th>
+              <th className="py-2">Token</th>
+              <th className="py-2">Scope</th>
+              <th className="py-2">Created</th>
+              <th className="py-2">Last used</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => (
+              <tr key={token.id} className="border-b border-gray-100">
+                <td className="py-2 font-medium">{token.name}</td>
+                <td className="py-2 font-mono text-xs">{token.prefix}…</td>
+                <td className="py-2">{token.scope === "upload" ? "Upload" : "Read only"}</td>
+                <td className="py-2">{new Date(token.createdAt).toLocaleDateString()}</td>
+                <td className="py-2">
+                  {token.lastUsedAt
+                    ? new Date(token.lastUsedAt).toLocaleString()
+                    : "Never"}
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(token)}
+                    disabled={revokingId === token.id}
+                    className="text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    {revokingId === token.id ? "Revoking..." : "Revoke"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -3,6 +3,9 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
+import type { ResolvedParty } from "@/lib/partyRegistry";
+import { filterByState } from "@/lib/stateAccess";
+import { usePartyRegistry } from "@/lib/usePartyRegistry";
 
 interface GeoSample {
   id: string;
@@ -69,41 +72,18 @@ const PREDEFINED_YOES: Record<string, string[]> = {
   "Tamilnadu": ["2021", "2026"],
 };
 
-// Value -> color palette (reference style: red, blue, grey, etc.)
-const VALUE_COLORS: Record<string, string> = {
-  TDP: "#d9ff00",
-  YSRCP: "#2563eb",
-  JSP: "#ff0000",
-  INC: "#00ff26",
-  BJP: "#ff4d00",
-  default: "#a0b894",
-  "TDP+BJP+JSP": "#d9ff00",
-  "TDP+JSP": "#d9ff00",
-  "TDP+JSP+BJP": "#d9ff00",
-  AIADMK:"#00ff26",
-  "AIADMK+BJP+":"#00ff26",
-  "AIADMK+BJP+PMK":"#00ff26",
-  "TVK+":"#ff4d00",
-  "TVK":"#ff4d00",
-  DMK:"#ff0000",
-  "DMK+INC+":"#ff0000",
-  NTK:"#2563eb",
-  "NTK+":"#2563eb",
-  "AIMIM+BSP+":"#00ff26",
-  "BJP+JDU+VIP+":"#ff4d00",
-  "Jan Suraaj":"#d9ff00",
-  "RJD+INC+CPI":"#2563eb",
-
-};
+// Colours and labels come from the party registry; these are for values it
+// does not know
+const DEFAULT_VALUE_COLOR = "#a0b894";
 const COLOR_ORDER = ["#dc2626", "#2563eb", "#64748b", "#ea580c", "#7c3aed", "#0891b2", "#16a34a"];
 
-function getColorForValue(value: string, index: number): string {
-  return VALUE_COLORS[value] ?? COLOR_ORDER[index % COLOR_ORDER.length] ?? VALUE_COLORS.default;
+function getColorForValue(party: ResolvedParty | null, index: number): string {
+  return party?.color ?? COLOR_ORDER[index % COLOR_ORDER.length] ?? DEFAULT_VALUE_COLOR;
 }
 
 function buildGeoJson(
   data: GeoSample[],
-  valueToColor: Map<string, string>,
+  colorOf: (d: GeoSample) => string,
   forcedColor?: string
 ): GeoJSON.FeatureCollection {
   return {
@@ -126,13 +106,19 @@ function buildGeoJson(
           // If a forced color is provided (e.g. when the user filtered by a
           // specific `value`), use it for all points; otherwise use the
           // mapped color for the point's value.
-          color: forcedColor ?? valueToColor.get(d.value) ?? VALUE_COLORS.default,
+          color: forcedColor ?? colorOf(d),
         },
       })),
   };
 }
 
-export default function Geo() {
+interface GeoProps {
+  /** States the signed-in user may see; every state when absent */
+  allowedStates?: string[];
+}
+
+export default function Geo({ allowedStates }: GeoProps) {
+  const { resolve } = usePartyRegistry();
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<InstanceType<typeof mapboxgl.Map> | null>(null);
   const [data, setData] = useState<GeoSample[]>([]);
@@ -145,7 +131,11 @@ export default function Geo() {
     states: string[];
     yoeValues: string[];
     valueOptions: string[];
-  }>({ states: Object.keys(STATE_BOUNDS).sort(), yoeValues: [], valueOptions: [] });
+  }>({
+    states: filterByState(allowedStates, Object.keys(STATE_BOUNDS), (s) => s).sort(),
+    yoeValues: [],
+    valueOptions: [],
+  });
   const [mapReady, setMapReady] = useState(false);
 
   const fetchData = useCallback(async () => {
@@ -156,9 +146,9 @@ export default function Geo() {
       if (stateFilter) params.set("state", stateFilter);
       if (yoeFilter) params.set("yoe", yoeFilter);
       if (valueFilter) params.set("value", valueFilter);
-      // Use backend /search route which accepts any combination of params
-      const base = "http://localhost:5000/api/geo";
-      const url = params.toString() ? `${base}/search?${params}` : `${base}/search`;
+      // The search route accepts any combination of params; it leaves out
+      // states the user may not see
+      const url = params.toString() ? `/api/geo/search?${params}` : "/api/geo/search";
       const res = await fetch(url);
       if (!res.ok) {
         const body = await res.json().catch(() => ({}));
@@ -168,7 +158,7 @@ export default function Geo() {
           `Failed to fetch (${res.status})`;
         throw new Error(msg);
       }
-      const rows: GeoSample[] = await res.json();
+      const rows = (await res.json()) as GeoSample[];
       setData(rows);
       console.log("Fetched geo data:", rows[10], rows.length);
       // Keep a persistent list of all states once loaded (avoid overwriting when
@@ -300,12 +290,20 @@ export default function Geo() {
     // Build a color map only for values present in the displayed data so the legend
     // and map colors reflect the active filters.
     const presentValues = [...new Set(displayedData.map((d) => d.value).filter(Boolean))];
-    const valueToColor = new Map<string, string>();
-    presentValues.forEach((v, i) => valueToColor.set(v, getColorForValue(v, i)));
+    const valueIndex = new Map(presentValues.map((v, i) => [v, i]));
+    // Alliances depend on the state and election year of each point
+    const colorOf = (d: GeoSample) =>
+      getColorForValue(
+        resolve(d.value ?? "", { state: d.state, year: d.YOE }),
+        valueIndex.get(d.value) ?? 0
+      );
     const forcedColor = valueFilter
-      ? VALUE_COLORS[valueFilter] ?? getColorForValue(valueFilter, 0)
+      ? getColorForValue(
+          resolve(valueFilter, { state: stateFilter, year: yoeFilter || undefined }),
+          0
+        )
       : undefined;
-    const geoJson = buildGeoJson(displayedData, valueToColor, forcedColor);
+    const geoJson = buildGeoJson(displayedData, colorOf, forcedColor);
 
 
     const addOrUpdateLayers = () => {
@@ -392,7 +390,7 @@ export default function Geo() {
     } else {
       m.once("load", addOrUpdateLayers);
     }
-  }, [data, filterOptions.valueOptions, mapReady]);
+  }, [data, filterOptions.valueOptions, mapReady, resolve]);
 
   if (!MAPBOX_TOKEN) {
     return (
@@ -425,6 +423,26 @@ export default function Geo() {
     if (d.value) valueCounts[d.value] = (valueCounts[d.value] ?? 0) + 1;
   });
 
+  // Values that stand for the same party or alliance share one legend entry
+  const legendContext = { state: stateFilter, year: yoeFilter || undefined };
+  const legendEntries: { label: string; color: string; values: string[]; count: number }[] = [];
+  legendOptions.forEach((v, i) => {
+    const party = resolve(v, legendContext);
+    const label = party?.label ?? v;
+    const existing = legendEntries.find((e) => e.label === label);
+    if (existing) {
+      existing.values.push(v);
+      existing.count += valueCounts[v] ?? 0;
+    } else {
+      legendEntries.push({
+        label,
+        color: getColorForValue(party, i),
+        values: [v],
+        count: valueCounts[v] ?? 0,
+      });
+    }
+  });
+
   const errorBanner = error ? (
     <div className="flex items-center justify-between gap-4 px-4 py-3 bg-amber-900/80 border-b border-amber-600 text-amber-100">
       <span>{error}</span>
@@ -485,17 +503,22 @@ export default function Geo() {
           <div className="bg-zinc-900/90 backdrop-blur rounded-lg border border-zinc-700 p-4">
             <h3 className="text-sm font-medium text-white mb-3">Vote share — {stateFilter}</h3>
             <div className="space-y-2">
-              {legendOptions.map((v, i) => (
-                <div key={v} className="flex items-center gap-2">
+              {legendEntries.map((entry) => (
+                <div key={entry.label} className="flex items-center gap-2">
                   <div
                     className="w-3 h-3 rounded-full shrink-0"
-                    style={{ backgroundColor: getColorForValue(v, i) }}
+                    style={{ backgroundColor: entry.color }}
                   />
-                  <span className="text-xs text-zinc-300 truncate">{v}</span>
+                  <span
+                    className="text-xs text-zinc-300 truncate"
+                    title={entry.values.join(", ")}
+                  >
+                    {entry.label}
+                  </span>
 
                   <span className="text-xs text-zinc-500 ml-auto">
                     {totalPoints > 0
-                      ? `${(((valueCounts[v] ?? 0) / Math.max(1, totalPoints)) * 100).toFixed(1)}%`
+                      ? `${((entry.count / Math.max(1, totalPoints)) * 100).toFixed(1)}%`
                       : "0%"}
                   </span>
                 </div>
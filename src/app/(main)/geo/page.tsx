@@ -1,6 +1,8 @@
+import { getCurrentUser } from "@/lib/sessions";
 // import Geo from "../components/Geo";
 import GeoTest from "../components/GeoTest";
 
-export default function GeoPage() {
-  return <GeoTest />;
+export default async function GeoPage() {
+  const user = await getCurrentUser();
+  return <GeoTest allowedStates={user?.allowedStates} />;
 }
@@ -1,19 +1,25 @@
 import Link from "next/link";
 import React from "react";
+import { hasRole } from "@/lib/roles";
+import { getCurrentUser } from "@/lib/sessions";
+
+export default async function MainPage() {
+  const user = await getCurrentUser();
 
-export default function MainPage() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-center gap-6 px-4">
       <h1 className="text-3xl font-bold">Reachout Analytics Political Analysis</h1>
       {/* <p className="text-gray-600 text-center max-w-md">
         Welcome to your dashboard. View and manage your surveys from here.
       </p> */}
-      <Link
-        href="/servey-lists"
-        className="inline-flex items-center rounded-md bg-blue-600 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
-      >
-        Go to Servey Lists
-      </Link>
+      {hasRole(user?.role, "analyst") && (
+        <Link
+          href="/servey-lists"
+          className="inline-flex items-center rounded-md bg-blue-600 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+        >
+          Go to Servey Lists
+        </Link>
+      )}
       <Link
         href="/reports"
         className="inline-flex items-center rounded-md bg-blue-600 px-5 py-2.5 text-sm font-semibold text-white shadow-sm hover:bg-blue-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
@@ -26,6 +32,20 @@ export default function MainPage() {
       >
         Go to Geo Reports
       </Link>
+      <Link
+        href="/settings/tokens"
+        className="text-sm text-blue-600 hover:underline"
+      >
+        API tokens
+      </Link>
+      {user?.role === "admin" && (
+        <Link
+          href="/admin/users"
+          className="inline-flex items-center rounded-md border border-blue-600 px-5 py-2.5 text-sm font-semibold text-blue-600 shadow-sm hover:bg-blue-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+        >
+          Manage Users
+        </Link>
+      )}
     </main>
   );
 }
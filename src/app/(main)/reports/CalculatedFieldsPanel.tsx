@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState } from "react";
+import { FormulaError, parseFormula, type FormulaRowError } from "@/lib/formula";
+import type { ListedCalculatedField } from "@/lib/useCalculatedFields";
+
+// Row errors listed per field; the rest are counted
+const MAX_ROW_ERRORS = 5;
+
+interface CalculatedFieldsPanelProps {
+  state: string;
+  reportId: string;
+  fields: ListedCalculatedField[];
+  canCreate: boolean;
+  /** Why a field, or some of its rows, could not be computed */
+  errors: Record<string, { formula: string | null; rows: FormulaRowError[] }>;
+  onChanged: () => void;
+}
+
+export function CalculatedFieldsPanel({
+  state,
+  reportId,
+  fields,
+  canCreate,
+  errors,
+  onChanged,
+}: CalculatedFieldsPanelProps) {
+  const [name, setName] = useState("");
+  const [formula, setFormula] = useState("");
+  const [forReport, setForReport] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      parseFormula(formula);
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      setError(err.message);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/reports/calculated-fields", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          formula,
+          state,
+          surveyId: forReport && reportId ? reportId : null,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save calculated field");
+      }
+      setName("");
+      setFormula("");
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save calculated field");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: ListedCalculatedField) => {
+    if (!window.confirm(`Delete the calculated field "${field.name}"?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/reports/calculated-fields/${field.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete calculated field");
+      }
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete calculated field");
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-800 pt-4 text-xs">
+      <h3 className="mb-2 text-sm font-semibold tracking-tight">Calculated fields</h3>
+
+      {fields.length === 0 ? (
+        <p className="mb-2 text-slate-500">No calculated fields for this state.</p>
+      ) : (
+        <ul className="mb-3 space-y-1">
+          {fields.map((field) => {
+            const fieldErrors = errors[field.name];
+            return (
+              <li key={field.id} className="rounded px-1 py-1 hover:bg-slate-800/70">
+                <div className="flex items-start gap-2">
+                  <div className="min-w-0 flex-1">
+                    <span className="block truncate font-medium text-slate-200">
+                      {field.name}
+                    </span>
+                    <code className="block truncate text-[11px] text-slate-400" title={field.formula}>
+                      {field.formula}
+                    </code>
+                    <span className="block text-[11px] text-slate-500">
+                      {field.surveyId ? "This report" : "All reports of the state"} ·{" "}
+                      {field.createdByUsername}
+                    </span>
+                  </div>
+                  {field.canDelete && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(field)}
+                      className="shrink-0 text-slate-500 hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+                {fieldErrors?.formula && (
+                  <p className="mt-1 text-red-400">{fieldErrors.formula}</p>
+                )}
+                {fieldErrors && fieldErrors.rows.length > 0 && (
+                  <details className="mt-1 text-amber-300">
+                    <summary className="cursor-pointer">
+                      Not computed for {fieldErrors.rows.length} row
+                      {fieldErrors.rows.length === 1 ? "" : "s"}
+                    </summary>
+                    <ul className="mt-1 space-y-0.5 text-slate-400">
+                      {fieldErrors.rows.slice(0, MAX_ROW_ERRORS).map((e) => (
+                        <li key={e.row}>
+                          Row {e.row}: {e.message}
+                        </li>
+                      ))}
+                      {fieldErrors.rows.length > MAX_ROW_ERRORS && (
+                        <li>…and {fieldErrors.rows.length - MAX_ROW_ERRORS} more</li>
+                      )}
+                    </ul>
+                  </details>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canCreate && (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Field name, e.g. NDA"
+            required
+            maxLength={100}
+            disabled={!state}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/80 px-2 py-1.5 focus:border-cyan-400 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+          <input
+            type="text"
+            value={formula}
+            onChange={(e) => setFormula(e.target.value)}
+            placeholder="TDP + JSP + BJP"
+            required
+            maxLength={500}
+            disabled={!state}
+            className="w-full rounded-lg border border-slate-800 bg-slate-950/80 px-2 py-1.5 font-mono focus:border-cyan-400 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+          <p className="text-[11px] text-slate-500">
+            Use + - * / and brackets over numeric columns, and abs, round, min
+            and max. Write other column names in square brackets, e.g.
+            [swing _TDP]. Percentages are fractions: 45% is 0.45.
+          </p>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={forReport && !!reportId}
+                onChange={(e) => setForReport(e.target.checked)}
+                disabled={!reportId}
+                className="h-3 w-3 rounded border-slate-600 bg-slate-900 text-cyan-500 focus:ring-cyan-500"
+              />
+              <span className="text-slate-300">Only this report</span>
+            </label>
+            <button
+              type="submit"
+              disabled={isSaving || !state}
+              className="rounded-lg bg-slate-800 px-3 py-1.5 text-cyan-300 disabled:opacity-50"
+            >
+              {isSaving ? "Saving…" : "Add field"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  DERIVED_METRIC_LABELS,
+  DerivedMetricError,
+  derivedMetricName,
+  formatDerivedMetric,
+  parseDerivedMetric,
+  type DerivedMetricKind,
+} from "@/lib/derivedMetrics";
+
+interface DerivedSeriesPanelProps {
+  /** Numeric columns the metrics can be computed from */
+  fields: string[];
+  specs: string[];
+  /** Why a spec could not be applied to this state's columns */
+  errors: Record<string, string>;
+  onAdd: (spec: string) => void;
+  onRemove: (spec: string) => void;
+}
+
+export function DerivedSeriesPanel({
+  fields,
+  specs,
+  errors,
+  onAdd,
+  onRemove,
+}: DerivedSeriesPanelProps) {
+  const [kind, setKind] = useState<DerivedMetricKind>("lead");
+  const [field, setField] = useState("");
+  const [other, setOther] = useState("");
+  const [baselineMode, setBaselineMode] = useState<"period" | "result">("period");
+  const [baseline, setBaseline] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const rest =
+      kind === "swing"
+        ? `${field}${baselineMode === "period" ? "@" : "="}${baseline.trim()}`
+        : `${field}:${other}`;
+    try {
+      const spec = formatDerivedMetric(parseDerivedMetric(`${kind}:${rest}`));
+      if (!specs.includes(spec)) onAdd(spec);
+    } catch (err) {
+      if (!(err instanceof DerivedMetricError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  const select =
+    "min-w-0 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs";
+
+  return (
+    <div className="mt-3 rounded-lg border border-slate-800 bg-slate-950/60 p-2 text-xs">
+      <span className="font-medium text-slate-300">Derived series</span>
+      <form onSubmit={handleAdd} className="mt-1 flex flex-wrap items-center gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as DerivedMetricKind)}
+          className={select}
+        >
+          {(Object.keys(DERIVED_METRIC_LABELS) as DerivedMetricKind[]).map((k) => (
+            <option key={k} value={k}>
+              {DERIVED_METRIC_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={field}
+          onChange={(e) => setField(e.target.value)}
+          required
+          className={select}
+        >
+          <option value="">Column…</option>
+          {fields.map((f) => (
+            <option key={f} value={f}>
+              {f}
+            </option>
+          ))}
+        </select>
+        {kind === "swing" ? (
+          <>
+            <select
+              value={baselineMode}
+              onChange={(e) => setBaselineMode(e.target.value as "period" | "result")}
+              className={select}
+            >
+              <option value="period">since period</option>
+              <option value="result">vs result</option>
+            </select>
+            <input
+              type="text"
+              value={baseline}
+              onChange={(e) => setBaseline(e.target.value)}
+              required
+              placeholder={baselineMode === "period" ? "2024-05" : "45.3%"}
+              className="w-20 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+            />
+          </>
+        ) : (
+          <>
+            <span className="text-slate-400">{kind === "lead" ? "over" : "vs"}</span>
+            <select
+              value={other}
+              onChange={(e) => setOther(e.target.value)}
+              required
+              className={select}
+            >
+              <option value="">Column…</option>
+              {fields
+                .filter((f) => f !== field)
+                .map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+            </select>
+          </>
+        )}
+        <button
+          type="submit"
+          className="rounded bg-slate-800 px-2 py-1 text-cyan-300"
+        >
+          Add
+        </button>
+      </form>
+
+      {error && <p className="mt-1 text-red-400">{error}</p>}
+
+      {specs.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {specs.map((spec) => {
+            let name = spec;
+            try {
+              name = derivedMetricName(parseDerivedMetric(spec));
+            } catch {
+              // shown by its spec
+            }
+            return (
+              <li key={spec} className="flex items-start gap-2">
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-slate-200" title={spec}>
+                    {name}
+                  </span>
+                  {errors[spec] && (
+                    <span className="block text-red-400">{errors[spec]}</span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onRemove(spec)}
+                  className="shrink-0 text-slate-500 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
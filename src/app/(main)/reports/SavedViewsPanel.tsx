@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { ReportView } from "@/lib/reportView";
+import type { SavedView } from "@/lib/savedViews";
+
+type ListedView = SavedView & { canDelete: boolean };
+
+interface SavedViewsPanelProps {
+  currentView: ReportView;
+  onOpen: (view: ReportView) => void;
+}
+
+export function SavedViewsPanel({ currentView, onOpen }: SavedViewsPanelProps) {
+  const [views, setViews] = useState<ListedView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const fetchViews = async () => {
+    try {
+      const res = await fetch("/api/reports/views");
+      if (!res.ok) return;
+      const data = await res.json();
+      setViews(data.views ?? []);
+    } catch {
+      // ignore fetch errors
+    }
+  };
+
+  useEffect(() => {
+    fetchViews();
+  }, []);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      const res = await fetch("/api/reports/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, view: currentView }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save view");
+      }
+      setName("");
+      await fetchViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save view");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: ListedView) => {
+    if (!window.confirm(`Delete the saved view "${view.name}"?`)) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/reports/views/${view.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete view");
+      }
+      setViews((prev) => prev.filter((v) => v.id !== view.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete view");
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-800 pt-4 text-xs">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="text-sm font-semibold tracking-tight">Saved views</h3>
+        <button
+          type="button"
+          onClick={handleCopyLink}
+          className="text-cyan-400 hover:text-cyan-300"
+        >
+          {copied ? "Link copied" : "Copy link"}
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="mb-3 flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name this view…"
+          required
+          maxLength={100}
+          disabled={!currentView.state}
+          className="min-w-0 flex-1 rounded-lg border border-slate-800 bg-slate-950/80 px-2 py-1.5 focus:border-cyan-400 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !currentView.state}
+          className="rounded-lg bg-slate-800 px-3 py-1.5 text-cyan-300 disabled:opacity-50"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+      </form>
+
+      {error && <p className="mb-2 text-red-400">{error}</p>}
+
+      {views.length === 0 ? (
+        <p className="text-slate-500">No saved views yet.</p>
+      ) : (
+        <ul className="max-h-56 space-y-1 overflow-y-auto">
+          {views.map((view) => (
+            <li
+              key={view.id}
+              className="flex items-center gap-2 rounded px-1 py-1 hover:bg-slate-800/70"
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(view.view)}
+                className="min-w-0 flex-1 text-left"
+                title={`Saved by ${view.ownerUsername} on ${new Date(view.createdAt).toLocaleDateString()}`}
+              >
+                <span className="block truncate font-medium text-slate-200">
+                  {view.name}
+                </span>
+                <span className="block truncate text-[11px] text-slate-500">
+                  {view.view.state} · {view.ownerUsername}
+                </span>
+              </button>
+              {view.canDelete && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(view)}
+                  className="shrink-0 text-slate-500 hover:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
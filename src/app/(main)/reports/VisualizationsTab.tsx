@@ -2,6 +2,8 @@
 
 import React, { useMemo, useState } from "react";
 import dynamic from "next/dynamic";
+import type { ResolvedParty } from "@/lib/partyRegistry";
+import type { SurveySchema } from "@/lib/surveyColumns";
 
 type PlotlyData = Record<string, any>;
 type PlotlyLayout = Record<string, any>;
@@ -13,14 +15,19 @@ const Plot = dynamic(() => import("react-plotly.js"), {
 type VisualizationsTabProps = {
   filteredRows: Record<string, unknown>[];
   numericFields: string[];
+  schema: SurveySchema;
   fieldColors: Record<string, string>;
   setFieldColors: React.Dispatch<
     React.SetStateAction<Record<string, string>>
   >;
+  /** Show the colour pickers; viewers cannot change colours */
+  canEditColors: boolean;
   vizShowCurve: Record<string, boolean>;
   setVizShowCurve: React.Dispatch<
     React.SetStateAction<Record<string, boolean>>
   >;
+  /** Party or alliance a field stands for, for its default colour */
+  partyOf?: (field: string) => ResolvedParty | null;
 };
 
 function parseNumeric(value: unknown): number | null {
@@ -40,6 +47,11 @@ function parseNumeric(value: unknown): number | null {
   return null;
 }
 
+// Percent columns are stored as fractions of 1
+function formatStat(value: number, isPercent: boolean): string {
+  return isPercent ? `${(value * 100).toFixed(2)}%` : value.toFixed(2);
+}
+
 function computeStats(values: number[]) {
   if (!values.length) {
     return {
@@ -292,10 +304,13 @@ function buildBoxPlotTrace(
 export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
   filteredRows,
   numericFields,
+  schema,
   fieldColors,
   setFieldColors,
+  canEditColors,
   vizShowCurve,
   setVizShowCurve,
+  partyOf,
 }) => {
   const [selectedFields, setSelectedFields] = useState<string[]>([]);
 
@@ -381,9 +396,11 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
             {visibleFields.map((field) => {
               const values = fieldValues.get(field) ?? [];
               const stats = computeStats(values);
-              const histogramColor = fieldColors[field] ?? "#22d3ee";
+              const histogramColor =
+                fieldColors[field] ?? partyOf?.(field)?.color ?? "#22d3ee";
               const curveColor = fieldColors[`${field}_curve`] ?? "#f97316";
               const showCurve = vizShowCurve[field] !== false;
+              const isPercent = schema[field]?.type === "percent";
               const { data: normalData, layout: normalLayout } =
                 buildNormalDistributionTrace(values, field, {
                   histogramColor,
@@ -412,36 +429,40 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                       </p>
                     </div>
                     <div className="flex flex-wrap items-center gap-3 text-xs">
-                      <label className="flex items-center gap-1.5 text-slate-300">
-                        <span>Histogram</span>
-                        <input
-                          type="color"
-                          value={histogramColor}
-                          onChange={(e) =>
-                            setFieldColors((prev) => ({
-                              ...prev,
-                              [field]: e.target.value,
-                            }))
-                          }
-                          className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
-                          title="Histogram color"
-                        />
-                      </label>
-                      <label className="flex items-center gap-1.5 text-slate-300">
-                        <span>Curve</span>
-                        <input
-                          type="color"
-                          value={curveColor}
-                          onChange={(e) =>
-                            setFieldColors((prev) => ({
-                              ...prev,
-                              [`${field}_curve`]: e.target.value,
-                            }))
-                          }
-                          className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
-                          title="Curve color"
-                        />
-                      </label>
+                      {canEditColors && (
+                        <>
+                          <label className="flex items-center gap-1.5 text-slate-300">
+                            <span>Histogram</span>
+                            <input
+                              type="color"
+                              value={histogramColor}
+                              onChange={(e) =>
+                                setFieldColors((prev) => ({
+                                  ...prev,
+                                  [field]: e.target.value,
+                                }))
+                              }
+                              className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
+                              title="Histogram color"
+                            />
+                          </label>
+                          <label className="flex items-center gap-1.5 text-slate-300">
+                            <span>Curve</span>
+                            <input
+                              type="color"
+                              value={curveColor}
+                              onChange={(e) =>
+                                setFieldColors((prev) => ({
+                                  ...prev,
+                                  [`${field}_curve`]: e.target.value,
+                                }))
+                              }
+                              className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
+                              title="Curve color"
+                            />
+                          </label>
+                        </>
+                      )}
                       <label className="flex cursor-pointer items-center gap-2 text-slate-300">
                         <input
                           type="checkbox"
@@ -462,7 +483,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">Mean</div>
                         <div className="font-semibold text-cyan-300">
                           {Number.isFinite(stats.mean)
-                            ? `${(stats.mean * 100).toFixed(2)}%`
+                            ? formatStat(stats.mean, isPercent)
                             : "—"}
                         </div>
                       </div>
@@ -478,7 +499,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">Median</div>
                         <div className="font-semibold text-emerald-300">
                           {Number.isFinite(stats.median)
-                            ? `${(stats.median * 100).toFixed(2)}%`
+                            ? formatStat(stats.median, isPercent)
                             : "—"}
                         </div>
                       </div>
@@ -487,8 +508,8 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="font-semibold text-violet-300">
                           {stats.mode.length > 0
                             ? stats.mode.length <= 3
-                              ? stats.mode.map((m) => `${(m * 100).toFixed(2)}%`).join(", ")
-                              : `${stats.mode.slice(0, 2).map((m) => `${(m * 100).toFixed(2)}%`).join(", ")} (+${stats.mode.length - 2})`
+                              ? stats.mode.map((m) => formatStat(m, isPercent)).join(", ")
+                              : `${stats.mode.slice(0, 2).map((m) => formatStat(m, isPercent)).join(", ")} (+${stats.mode.length - 2})`
                             : "—"}
                         </div>
                       </div>
@@ -504,7 +525,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">Upper limit</div>
                         <div className="font-semibold text-orange-300">
                           {Number.isFinite(stats.upperLimit)
-                            ? `${(stats.upperLimit * 100).toFixed(2)}%`
+                            ? formatStat(stats.upperLimit, isPercent)
                             : "—"}
                         </div>
                       </div>
@@ -512,7 +533,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">Lower limit</div>
                         <div className="font-semibold text-orange-300">
                           {Number.isFinite(stats.lowerLimit)
-                            ? `${(stats.lowerLimit * 100).toFixed(2)}%`
+                            ? formatStat(stats.lowerLimit, isPercent)
                             : "—"}
                         </div>
                       </div>
@@ -520,7 +541,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">95% CI</div>
                         <div className="font-semibold text-blue-300">
                           {Number.isFinite(stats.ci95.lower) && Number.isFinite(stats.ci95.upper)
-                            ? `${(stats.ci95.lower * 100).toFixed(2)}% - ${(stats.ci95.upper * 100).toFixed(2)}%`
+                            ? `${formatStat(stats.ci95.lower, isPercent)} - ${formatStat(stats.ci95.upper, isPercent)}`
                             : "—"}
                         </div>
                       </div>
@@ -536,7 +557,7 @@ export const VisualizationsTab: React.FC<VisualizationsTabProps> = ({
                         <div className="text-slate-500">Sample error</div>
                         <div className="font-semibold text-pink-300">
                           {Number.isFinite(stats.sampleError)
-                            ? `${(stats.sampleError * 100).toFixed(2)}%`
+                            ? formatStat(stats.sampleError, isPercent)
                             : "—"}
                         </div>
                       </div>
@@ -1,126 +1,70 @@
 "use client";
 
-import React, { useMemo, useState, useEffect, useRef } from "react";
+import React, { Suspense, useCallback, useMemo, useState, useEffect, useRef } from "react";
 import dynamic from "next/dynamic";
+import { useSearchParams } from "next/navigation";
+import { CalculatedFieldsPanel } from "./CalculatedFieldsPanel";
+import { DerivedSeriesPanel } from "./DerivedSeriesPanel";
+import { SavedViewsPanel } from "./SavedViewsPanel";
 import { VisualizationsTab } from "./VisualizationsTab";
+import {
+  applyDerivedMetric,
+  DerivedMetricError,
+  derivedMetricName,
+  parseDerivedMetric,
+} from "@/lib/derivedMetrics";
+import { applyFormulas } from "@/lib/formula";
+import type { ResolvedParty } from "@/lib/partyRegistry";
+import type { PrefScope } from "@/lib/reportPrefs";
+import {
+  reportViewFromQuery,
+  reportViewToQuery,
+  type ReportTab,
+  type ReportView,
+  type TimeGrain,
+} from "@/lib/reportView";
+import {
+  isNumericColumn,
+  periodStart,
+  toDateTs,
+  type SurveySchema,
+} from "@/lib/surveyColumns";
+import {
+  marginOfError,
+  meanOfField,
+  rollingMean,
+  sampleSizeOf,
+  statisticalTie,
+} from "@/lib/trendSeries";
+import { useCalculatedFields } from "@/lib/useCalculatedFields";
+import { usePartyRegistry } from "@/lib/usePartyRegistry";
 
 const Plot = dynamic(() => import("react-plotly.js"), {
   ssr: false,
 }) as React.ComponentType<any>;
 
- type TabKey = "trends" | "visualizations" | "geo";
-
  type FilterState = {
    [field: string]: string[];
  };
 
-function parseNumeric(value: unknown): number | null {
-  if (value === null || value === undefined) return null;
-  if (typeof value === "number" && Number.isFinite(value)) return value;
-  if (typeof value === "string") {
-    const s = value.trim();
-    if (s === "") return null;
-    // percentage like "43.65%"
-    if (s.endsWith("%")) {
-      const num = parseFloat(s.slice(0, -1));
-      if (!Number.isNaN(num)) return num / 100;
-      return null;
-    }
-    // plain numeric string
-    const n = parseFloat(s.replace(/,/g, ""));
-    if (!Number.isNaN(n)) return n;
-  }
-  return null;
-}
-
-const MONTH_MAP: Record<string, number> = {
-  jan: 0,
-  feb: 1,
-  mar: 2,
-  apr: 3,
-  may: 4,
-  jun: 5,
-  jul: 6,
-  aug: 7,
-  sep: 8,
-  sept: 8,
-  oct: 9,
-  nov: 10,
-  dec: 11,
-};
-
-function parseDateValueToTs(k: unknown): number | null {
-  if (k == null || k === "") return null;
-  if (typeof k === "number") return k;
-  const native = Date.parse(String(k));
-  if (!Number.isNaN(native)) return native;
-  const s = String(k).trim();
-  const m0 = s.match(/^(\d{1,2})-(\d{1,2})-(\d{2,4})$/);
-  if (m0) {
-    const day = parseInt(m0[1], 10);
-    const mon = parseInt(m0[2], 10) - 1;
-    let year = parseInt(m0[3], 10);
-    if (String(m0[3]).length === 2) year += year < 70 ? 2000 : 1900;
-    const dt = new Date(year, mon, day);
-    if (!Number.isNaN(dt.getTime())) return dt.getTime();
-  }
-  const m1 = s.match(/^(\d{1,2})\s+([A-Za-z]+)[\s-]+(\d{2,4})$/);
-  if (m1) {
-    const day = parseInt(m1[1], 10);
-    const mon = m1[2].toLowerCase();
-    const yrRaw = m1[3];
-    const month = MONTH_MAP[mon.slice(0, 3)] ?? MONTH_MAP[mon];
-    if (month !== undefined && !Number.isNaN(day)) {
-      let year = parseInt(yrRaw, 10);
-      if (yrRaw.length === 2) year += year < 70 ? 2000 : 1900;
-      const dt = new Date(year, month, day);
-      if (!Number.isNaN(dt.getTime())) return dt.getTime();
-    }
-  }
-  const m2 = s.match(/^([A-Za-z]+)[\s-]+(\d{2,4})$/);
-  if (m2) {
-    const mon = m2[1].toLowerCase();
-    const yrRaw = m2[2];
-    const month = MONTH_MAP[mon.slice(0, 3)] ?? MONTH_MAP[mon];
-    if (month !== undefined) {
-      let year = parseInt(yrRaw, 10);
-      if (yrRaw.length === 2) year += year < 70 ? 2000 : 1900;
-      const dt = new Date(year, month, 1);
-      if (!Number.isNaN(dt.getTime())) return dt.getTime();
-    }
-  }
-  return null;
-}
+ function getNumericFields(schema: SurveySchema) {
+   return Object.keys(schema).filter((field) => isNumericColumn(schema[field]));
+ }
 
- function getNumericFields(rows: Record<string, unknown>[]) {
-   const numericFields = new Set<string>();
-   for (const row of rows) {
-     for (const [key, value] of Object.entries(row)) {
-       if (parseNumeric(value) !== null) {
-         numericFields.add(key);
-       }
-     }
-   }
-   return Array.from(numericFields);
+ function getCategoricalFields(schema: SurveySchema) {
+   return Object.keys(schema).filter(
+     (field) => schema[field].type === "category"
+   );
  }
 
- function getCategoricalFields(rows: Record<string, unknown>[]) {
-   const categoricalFields = new Set<string>();
-   for (const row of rows) {
-     for (const [key, value] of Object.entries(row)) {
-       // treat values as categorical only when they are non-empty strings
-       // and cannot be parsed as numeric (so percent strings are excluded)
-       if (
-         typeof value === "string" &&
-           value.trim() !== "" &&
-           parseNumeric(value) === null &&
-           key.toLowerCase() !== "id"
-       ) {
-         categoricalFields.add(key);
-       }
-     }
-   }
-   return Array.from(categoricalFields);
+ // Percent columns are stored as fractions; everything else is shown as-is
+ function formatFieldValue(
+   value: number,
+   field: string,
+   schema: SurveySchema
+ ): string {
+   if (schema[field]?.type === "percent") return `${(value * 100).toFixed(2)}%`;
+   return value.toFixed(2);
  }
 
  function applyFilters(
@@ -144,25 +88,16 @@ function parseDateValueToTs(k: unknown): number | null {
 
  function computeAverages(
    rows: Record<string, unknown>[],
-   fields: string[]
+   fields: string[],
+   weightField: string | null = null
  ): { field: string; average: number | null }[] {
-   return fields.map((field) => {
-     let sum = 0;
-     let count = 0;
-     for (const row of rows) {
-       const parsed = parseNumeric(row[field]);
-       if (parsed !== null) {
-         sum += parsed;
-         count += 1;
-       }
-     }
-     return {
-       field,
-       average: count > 0 ? sum / count : null,
-     };
-   });
+   return fields.map((field) => ({
+     field,
+     average: meanOfField(rows, field, weightField),
+   }));
  }
 
+// For fields that are not a party in the registry
 const DEFAULT_SERIES_PALETTE = [
   "#22d3ee",
   "#f472b6",
@@ -177,21 +112,78 @@ type TimeSeriesTrace = {
   y: (number | null)[];
   mode: string;
   name: string;
-  line: { color: string };
-  marker: { color: string };
-  hovertemplate: string;
+  line: { color: string; width?: number };
+  marker: { color: string; size?: number; symbol?: string };
+  opacity?: number;
+  hovertemplate?: string;
+  hoverinfo?: string;
+  customdata?: (number | null)[];
+  text?: string[];
+  legendgroup?: string;
+  showlegend?: boolean;
+  fill?: string;
+  fillcolor?: string;
+};
+
+type TimeSeriesResult = {
+  traces: TimeSeriesTrace[];
+  xLabels: string[];
+  /** Axis text for each x label */
+  tickText: string[];
+};
+
+type TimeSeriesOptions = {
+  fieldColors?: Record<string, string>;
+  schema?: SurveySchema;
+  partyOf?: (field: string) => ResolvedParty | null;
+  weightField?: string | null;
+  grain?: TimeGrain;
+  rollingWindow?: number;
+  rollingOnly?: boolean;
+  confidenceBands?: boolean;
+  sampleSizeField?: string | null;
 };
 
-type TimeSeriesResult = { traces: TimeSeriesTrace[]; xLabels: string[] };
+const ROLLING_WINDOWS = [3, 5, 7, 14, 30];
+
+const SHORT_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Axis text for an x label: DD-MM-YY for dates, "Jan 25" for months and
+// "Q1 25" for quarters
+function tickTextFor(label: string, grain: TimeGrain): string {
+  const parts = label.split("-");
+  if (parts.length !== 3) return label;
+  const [year, month, day] = parts;
+  if (grain === "month") return `${SHORT_MONTHS[Number(month) - 1] ?? month} ${year.slice(-2)}`;
+  if (grain === "quarter") return `Q${Math.floor((Number(month) - 1) / 3) + 1} ${year.slice(-2)}`;
+  return `${day.slice(-2)}-${month}-${year.slice(-2)}`;
+}
+
+function withAlpha(color: string, alpha: number): string {
+  const m = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!m) return color;
+  const [r, g, b] = m.slice(1).map((h) => parseInt(h, 16));
+  return `rgba(${r},${g},${b},${alpha})`;
+}
 
 function buildTimeSeriesTraces(
   rows: Record<string, unknown>[],
   fields: string[],
   xField: string | null,
-  fieldColors: Record<string, string> = {}
+  {
+    fieldColors = {},
+    schema = {},
+    partyOf = () => null,
+    weightField = null,
+    grain = "raw",
+    rollingWindow = 0,
+    rollingOnly = false,
+    confidenceBands = false,
+    sampleSizeField = null,
+  }: TimeSeriesOptions = {}
 ): TimeSeriesResult {
   if (!xField || rows.length === 0 || fields.length === 0) {
-    return { traces: [], xLabels: [] };
+    return { traces: [], xLabels: [], tickText: [] };
   }
 
   type Bucket = {
@@ -204,7 +196,12 @@ function buildTimeSeriesTraces(
   for (const row of rows) {
     const raw = row[xField];
     let key: string | number;
-    if (typeof raw === "string") {
+    if (grain !== "raw") {
+      // Rows without a readable date have no period to go in
+      const ts = toDateTs(raw);
+      if (ts === null) continue;
+      key = periodStart(ts, grain);
+    } else if (typeof raw === "string") {
       key = raw.trim();
     } else if (typeof raw === "number") {
       key = raw;
@@ -317,40 +314,149 @@ function buildTimeSeriesTraces(
     return String(b.x);
   });
 
-  const traces = fields.map((field, idx) => {
-    const yValues = buckets.map(({ rows: bucketRows }) => {
-      let sum = 0;
-      let count = 0;
-      for (const row of bucketRows) {
-        const parsed = parseNumeric(row[field]);
-        if (parsed !== null) {
-          sum += parsed;
-          count += 1;
-        }
-      }
-      if (count === 0) return null;
-      return (sum / count) * 100; // percentage scale (parsed fractions -> percent)
-    });
+  type Series = {
+    field: string;
+    name: string;
+    label: string;
+    color: string;
+    isPercent: boolean;
+    y: (number | null)[];
+    /** Margin of error per point, on the same scale as y; null without bands */
+    moe: (number | null)[] | null;
+  };
 
-    const lineColor =
+  const series: Series[] = fields.map((field, idx) => {
+    const isPercent = schema[field]?.type === "percent";
+    const means = buckets.map(({ rows: bucketRows }) =>
+      meanOfField(bucketRows, field, weightField)
+    );
+    const scale = isPercent ? 100 : 1; // percentage scale (parsed fractions -> percent)
+    const party = partyOf(field);
+    const color =
       fieldColors[field] ??
+      party?.color ??
       DEFAULT_SERIES_PALETTE[idx % DEFAULT_SERIES_PALETTE.length];
-
+    // Bands only make sense for vote shares, not for leads or swings
+    const moe =
+      confidenceBands && isPercent && schema[field]?.role === "party_share"
+        ? buckets.map(({ rows: bucketRows }, i) => {
+            const p = means[i];
+            if (p === null) return null;
+            const m = marginOfError(p, sampleSizeOf(bucketRows, field, sampleSizeField));
+            return m === null ? null : m * scale;
+          })
+        : null;
     return {
+      field,
+      name: party && party.label !== field ? `${party.label} (${field})` : field,
+      label: party?.label ?? field,
+      color,
+      isPercent,
+      y: means.map((m) => (m === null ? null : m * scale)),
+      moe,
+    };
+  });
+
+  const traces = series.flatMap(({ field, name, color, isPercent, y, moe }) => {
+    const unit = isPercent ? "%" : "";
+    const hover = (label: string) =>
+      "%{x}<br>" + label + ": %{y:.2f}" + unit + "<extra></extra>";
+
+    // Upper edge first: the lower edge fills up to it ("tonexty")
+    const bandTraces: TimeSeriesTrace[] =
+      moe && !rollingOnly
+        ? [1, -1].map((sign) => ({
+            x: xLabels,
+            y: y.map((v, i) => (v === null || moe[i] === null ? null : v + sign * moe[i]!)),
+            mode: "lines",
+            name: `${name} 95% band`,
+            line: { color: withAlpha(color, 0), width: 0 },
+            marker: { color },
+            hoverinfo: "skip",
+            legendgroup: field,
+            showlegend: false,
+            ...(sign < 0 ? { fill: "tonexty", fillcolor: withAlpha(color, 0.18) } : {}),
+          }))
+        : [];
+
+    const rawTrace: TimeSeriesTrace = {
       x: xLabels,
-      y: yValues,
+      y,
       mode: "lines+markers",
-      name: field,
-      line: { color: lineColor },
-      marker: { color: lineColor },
-      hovertemplate: "%{x}<br>" + field + ": %{y:.2f}%<extra></extra>",
+      name,
+      line: { color },
+      marker: { color },
+      legendgroup: field,
+      ...(moe
+        ? {
+            customdata: moe,
+            hovertemplate:
+              "%{x}<br>" + field + ": %{y:.2f}" + unit + " ± %{customdata:.2f}" + unit + "<extra></extra>",
+          }
+        : { hovertemplate: hover(field) }),
+    };
+    if (rollingWindow < 2) return [...bandTraces, rawTrace];
+
+    const rollingTrace: TimeSeriesTrace = {
+      x: xLabels,
+      y: rollingMean(y, xLabels, rollingWindow, grain),
+      mode: "lines",
+      name: `${name}, ${rollingWindow}-period avg`,
+      line: { color, width: 3 },
+      marker: { color },
+      legendgroup: field,
+      hovertemplate: hover(`${field} (${rollingWindow}-period avg)`),
     };
+    if (rollingOnly) return [rollingTrace];
+    // The raw series stays visible but recedes behind the smoothed line
+    return [
+      ...bandTraces,
+      { ...rawTrace, opacity: 0.35, marker: { color, size: 4 } },
+      rollingTrace,
+    ];
   });
 
-  return { traces, xLabels };
+  // Where the leader's band overlaps the runner-up's, the lead is within the
+  // margin of error
+  const banded = series.filter((s) => s.moe);
+  if (banded.length >= 2 && !rollingOnly) {
+    const tied = { x: [] as string[], y: [] as number[], text: [] as string[] };
+    xLabels.forEach((x, i) => {
+      const tie = statisticalTie(
+        banded
+          .filter((s) => s.y[i] !== null && s.moe![i] !== null)
+          .map((s) => ({ label: s.label, value: s.y[i]!, moe: s.moe![i]! }))
+      );
+      if (!tie) return;
+      const [first, second] = tie;
+      tied.x.push(x);
+      tied.y.push(first.value);
+      tied.text.push(
+        `${first.label} ${first.value.toFixed(1)}% vs ${second.label} ${second.value.toFixed(1)}%`
+      );
+    });
+    if (tied.x.length > 0) {
+      traces.push({
+        ...tied,
+        mode: "markers",
+        name: "Statistically tied",
+        line: { color: "#e2e8f0" },
+        marker: { color: "#e2e8f0", size: 12, symbol: "circle-open" },
+        hovertemplate: "%{x}<br>%{text}<br>Lead within the 95% margin of error<extra></extra>",
+      });
+    }
+  }
+
+  return {
+    traces,
+    xLabels,
+    tickText: xLabels.map((label) => tickTextFor(label, grain)),
+  };
 }
 
- const ReportsPage: React.FC = () => {
+ const ReportsContent: React.FC = () => {
+  const searchParams = useSearchParams();
+  const { resolve: resolveParty } = usePartyRegistry();
    const [states, setStates] = useState<string[]>([]);
    const [selectedState, setSelectedState] = useState<string>("");
   const [surveys, setSurveys] = useState<
@@ -358,13 +464,15 @@ function buildTimeSeriesTraces(
   >([]);
   const [selectedReportId, setSelectedReportId] = useState<string>("");
    const [stateRows, setStateRows] = useState<Record<string, unknown>[]>([]);
+  const [loadedSchema, setLoadedSchema] = useState<SurveySchema>({});
    const [statesLoading, setStatesLoading] = useState(true);
    const [rowsLoading, setRowsLoading] = useState(false);
-   const [activeTab, setActiveTab] = useState<TabKey>("trends");
+   const [activeTab, setActiveTab] = useState<ReportTab>("trends");
    const [selectedAvgFields, setSelectedAvgFields] = useState<string[]>([]);
    const [selectedSeriesFields, setSelectedSeriesFields] = useState<string[]>(
      []
    );
+  const [derivedSpecs, setDerivedSpecs] = useState<string[]>([]);
   const [filters, setFilters] = useState<FilterState>({});
   const [selectedFilterFields, setSelectedFilterFields] = useState<string[]>(
     []
@@ -372,41 +480,98 @@ function buildTimeSeriesTraces(
   const [selectedXAxisField, setSelectedXAxisField] = useState<string | null>(
     null
   );
+  const [weightField, setWeightField] = useState<string | null>(null);
+  const [timeGrain, setTimeGrain] = useState<TimeGrain>("raw");
+  const [rollingWindow, setRollingWindow] = useState(0);
+  const [rollingOnly, setRollingOnly] = useState(false);
+  const [confidenceBands, setConfidenceBands] = useState(false);
+  const [sampleSizeField, setSampleSizeField] = useState<string | null>(null);
   const [rangeStart, setRangeStart] = useState<string | null>(null);
   const [rangeEnd, setRangeEnd] = useState<string | null>(null);
   const [selectedYear, setSelectedYear] = useState<string>("");
   const [selectedMonth, setSelectedMonth] = useState<string>("");
   const [fieldColors, setFieldColors] = useState<Record<string, string>>({});
   const [vizShowCurve, setVizShowCurve] = useState<Record<string, boolean>>({});
-  const skipNextSaveRef = useRef(true);
+  const [colorScope, setColorScope] = useState<PrefScope>("state");
+  // Viewers see the colours but only analysts and admins may change them
+  const [canEditColors, setCanEditColors] = useState(false);
+  const [canPublishColors, setCanPublishColors] = useState(false);
+  const [colorsError, setColorsError] = useState<string | null>(null);
+  const [prefsVersion, setPrefsVersion] = useState(0);
+  // The preferences as last loaded or saved, and the state and report they
+  // belong to, so loading them does not save them straight back and colours
+  // still showing for another state are never saved under this one
+  const loadedPrefsRef = useRef<{
+    state: string;
+    reportId: string;
+    fieldColors: Record<string, string>;
+    vizShowCurve: Record<string, boolean>;
+  } | null>(null);
+  // A view from the URL or a saved view, applied once its state's reports
+  // have loaded. The URL is only kept in sync after the first one is applied.
+  const pendingViewRef = useRef<ReportView | null>(
+    reportViewFromQuery(searchParams)
+  );
+  const [viewReady, setViewReady] = useState(false);
+
+  const applyView = useCallback((view: ReportView) => {
+    setActiveTab(view.tab);
+    setSelectedAvgFields(view.avgFields);
+    setSelectedSeriesFields(view.seriesFields);
+    setDerivedSpecs(view.derived);
+    setFilters(view.filters);
+    setSelectedFilterFields(view.filterFields);
+    setSelectedXAxisField(view.xAxisField);
+    setWeightField(view.weightField);
+    setTimeGrain(view.grain);
+    setRollingWindow(view.rollingWindow);
+    setRollingOnly(view.rollingOnly);
+    setConfidenceBands(view.confidenceBands);
+    setSampleSizeField(view.sampleSizeField);
+    setSelectedYear(view.year);
+    setSelectedMonth(view.month);
+    setRangeStart(view.rangeStart);
+    setRangeEnd(view.rangeEnd);
+  }, []);
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
       try {
-        const res = await fetch("/api/reports/field-colors");
+        const params = new URLSearchParams();
+        if (selectedState) params.set("state", selectedState);
+        if (selectedReportId) params.set("survey", selectedReportId);
+        const res = await fetch(`/api/reports/field-colors?${params}`);
         if (!res.ok || cancelled) return;
         const data = await res.json();
         const colors = data?.fieldColors;
-        if (
-          colors &&
-          typeof colors === "object" &&
-          !Array.isArray(colors) &&
-          Object.values(colors).every(
-            (v) => typeof v === "string" && /^#[0-9a-fA-F]{6}$/.test(v)
-          )
-        ) {
-          if (!cancelled) setFieldColors(colors as Record<string, string>);
-        }
         const showCurve = data?.vizShowCurve;
-        if (
-          showCurve &&
-          typeof showCurve === "object" &&
-          !Array.isArray(showCurve) &&
-          Object.values(showCurve).every((v) => typeof v === "boolean")
-        ) {
-          if (!cancelled)
-            setVizShowCurve(showCurve as Record<string, boolean>);
+        const loaded = {
+          state: selectedState,
+          reportId: selectedReportId,
+          fieldColors:
+            colors &&
+            typeof colors === "object" &&
+            !Array.isArray(colors) &&
+            Object.values(colors).every(
+              (v) => typeof v === "string" && /^#[0-9a-fA-F]{6}$/.test(v)
+            )
+              ? (colors as Record<string, string>)
+              : {},
+          vizShowCurve:
+            showCurve &&
+            typeof showCurve === "object" &&
+            !Array.isArray(showCurve) &&
+            Object.values(showCurve).every((v) => typeof v === "boolean")
+              ? (showCurve as Record<string, boolean>)
+              : {},
+        };
+        if (!cancelled) {
+          loadedPrefsRef.current = loaded;
+          setFieldColors(loaded.fieldColors);
+          setVizShowCurve(loaded.vizShowCurve);
+          setCanEditColors(data?.canEdit === true);
+          setCanPublishColors(data?.canPublish === true);
         }
       } catch {
         // ignore fetch errors
@@ -415,7 +580,7 @@ function buildTimeSeriesTraces(
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [selectedState, selectedReportId, prefsVersion]);
 
   // Fetch list of surveys for the selected state so user can pick a single report
   useEffect(() => {
@@ -431,8 +596,19 @@ function buildTimeSeriesTraces(
         if (!res.ok) return;
         const data = await res.json();
         if (!cancelled) {
-          setSurveys(data.surveys ?? []);
-          setSelectedReportId("");
+          const list: { id: string }[] = data.surveys ?? [];
+          setSurveys(list);
+          const pending = pendingViewRef.current;
+          if (pending && pending.state === selectedState) {
+            pendingViewRef.current = null;
+            setSelectedReportId(
+              list.some((s) => s.id === pending.reportId) ? pending.reportId : ""
+            );
+            applyView(pending);
+            setViewReady(true);
+          } else {
+            setSelectedReportId("");
+          }
         }
       } catch {
         // ignore
@@ -441,35 +617,106 @@ function buildTimeSeriesTraces(
     return () => {
       cancelled = true;
     };
-  }, [selectedState]);
+  }, [selectedState, applyView]);
+
+  // A survey scope needs a selected report; fall back to its state
+  const effectiveColorScope: PrefScope =
+    colorScope === "survey" && !selectedReportId ? "state" : colorScope;
 
   useEffect(() => {
-    if (skipNextSaveRef.current) {
-      skipNextSaveRef.current = false;
+    const loaded = loadedPrefsRef.current;
+    if (
+      !loaded ||
+      !canEditColors ||
+      loaded.state !== selectedState ||
+      loaded.reportId !== selectedReportId ||
+      (loaded.fieldColors === fieldColors && loaded.vizShowCurve === vizShowCurve)
+    ) {
       return;
     }
-    let cancelled = false;
+    // Saved now, so a later change of scope does not save these again
+    loadedPrefsRef.current = { ...loaded, fieldColors, vizShowCurve };
     (async () => {
       try {
         const res = await fetch("/api/reports/field-colors", {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            scope: effectiveColorScope,
+            state: selectedState,
+            surveyId: selectedReportId || undefined,
             fieldColors,
             vizShowCurve,
           }),
         });
-        if (!res.ok && !cancelled) {
-          console.warn("Failed to save preferences");
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || "Failed to save colours");
         }
-      } catch {
-        // ignore save errors
+        setColorsError(null);
+      } catch (err) {
+        setColorsError(err instanceof Error ? err.message : "Failed to save colours");
       }
     })();
-    return () => {
-      cancelled = true;
-    };
-  }, [fieldColors, vizShowCurve]);
+  }, [
+    fieldColors,
+    vizShowCurve,
+    canEditColors,
+    effectiveColorScope,
+    selectedState,
+    selectedReportId,
+  ]);
+
+  const colorScopeParams = () => {
+    const params = new URLSearchParams({ scope: effectiveColorScope });
+    if (selectedState) params.set("state", selectedState);
+    if (selectedReportId) params.set("survey", selectedReportId);
+    return params;
+  };
+
+  const handleResetColors = async () => {
+    setColorsError(null);
+    try {
+      const res = await fetch(`/api/reports/field-colors?${colorScopeParams()}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to reset colours");
+      }
+    } catch (err) {
+      setColorsError(err instanceof Error ? err.message : "Failed to reset colours");
+    } finally {
+      setPrefsVersion((v) => v + 1);
+    }
+  };
+
+  const handlePublishColors = async () => {
+    if (!window.confirm("Make your colours for this scope the team default?")) {
+      return;
+    }
+    setColorsError(null);
+    try {
+      const params = colorScopeParams();
+      const res = await fetch("/api/reports/field-colors/publish", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          scope: params.get("scope"),
+          state: params.get("state") ?? undefined,
+          surveyId: params.get("survey") ?? undefined,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to publish colours");
+      }
+    } catch (err) {
+      setColorsError(err instanceof Error ? err.message : "Failed to publish colours");
+    } finally {
+      setPrefsVersion((v) => v + 1);
+    }
+  };
 
   useEffect(() => {
     let cancelled = false;
@@ -482,8 +729,14 @@ function buildTimeSeriesTraces(
         const list = data.states ?? [];
         if (!cancelled) {
           setStates(list);
+          const wanted = pendingViewRef.current?.state;
+          if (!wanted || !list.includes(wanted)) {
+            // Nothing to restore, or a state this user cannot see
+            pendingViewRef.current = null;
+            setViewReady(true);
+          }
           if (list.length > 0 && !selectedState) {
-            setSelectedState(list[0]);
+            setSelectedState(wanted && list.includes(wanted) ? wanted : list[0]);
           }
         }
       } finally {
@@ -498,6 +751,7 @@ function buildTimeSeriesTraces(
   useEffect(() => {
     if (!selectedState) {
       setStateRows([]);
+      setLoadedSchema({});
       return;
     }
     let cancelled = false;
@@ -510,11 +764,17 @@ function buildTimeSeriesTraces(
         }
         const res = await fetch(url);
         if (!res.ok) {
-          if (!cancelled) setStateRows([]);
+          if (!cancelled) {
+            setStateRows([]);
+            setLoadedSchema({});
+          }
           return;
         }
         const data = await res.json();
-        if (!cancelled) setStateRows(data.rows ?? []);
+        if (!cancelled) {
+          setStateRows(data.rows ?? []);
+          setLoadedSchema(data.schema ?? {});
+        }
       } finally {
         if (!cancelled) setRowsLoading(false);
       }
@@ -524,16 +784,45 @@ function buildTimeSeriesTraces(
     };
   }, [selectedState, selectedReportId]);
 
-   const allRows = stateRows;
+  const calculatedFields = useCalculatedFields(selectedState, selectedReportId || null);
+
+  // Calculated fields, then derived metrics, are added to the rows like
+  // uploaded columns, so each can build on the ones before
+  const calculatedData = useMemo(
+    () =>
+      stateRows.length === 0
+        ? { rows: stateRows, schema: loadedSchema, errors: {} }
+        : applyFormulas(stateRows, loadedSchema, calculatedFields.fields),
+    [stateRows, loadedSchema, calculatedFields.fields]
+  );
+
+  // Specs that do not fit this state's columns are skipped and their error shown
+  const derivedData = useMemo(() => {
+    let { rows, schema } = calculatedData;
+    const errors: Record<string, string> = {};
+    if (rows.length === 0) return { rows, schema, errors };
+    for (const spec of derivedSpecs) {
+      try {
+        ({ rows, schema } = applyDerivedMetric(rows, schema, parseDerivedMetric(spec)));
+      } catch (err) {
+        if (!(err instanceof DerivedMetricError)) throw err;
+        errors[spec] = err.message;
+      }
+    }
+    return { rows, schema, errors };
+  }, [calculatedData, derivedSpecs]);
+
+  const allRows = derivedData.rows;
+  const stateSchema = derivedData.schema;
 
    const numericFields = useMemo(
-     () => getNumericFields(allRows),
-     [allRows]
+     () => getNumericFields(stateSchema),
+     [stateSchema]
    );
 
    const categoricalFields = useMemo(
-     () => getCategoricalFields(allRows),
-     [allRows]
+     () => getCategoricalFields(stateSchema),
+     [stateSchema]
    );
 
   const allFieldNames = useMemo(() => {
@@ -552,16 +841,20 @@ function buildTimeSeriesTraces(
   
 
    const averages = useMemo(
-     () => computeAverages(filteredRows, selectedAvgFields),
-     [filteredRows, selectedAvgFields]
+     () => computeAverages(filteredRows, selectedAvgFields, weightField),
+     [filteredRows, selectedAvgFields, weightField]
    );
 
   const defaultXAxisField = useMemo(() => {
+    const timeField = allFieldNames.find(
+      (field) => stateSchema[field]?.role === "time"
+    );
+    if (timeField) return timeField;
     if (allFieldNames.includes("Month")) return "Month";
     if (allFieldNames.includes("Date")) return "Date";
     if (allFieldNames.includes("date")) return "date";
     return allFieldNames[0] ?? null;
-  }, [allFieldNames]);
+  }, [allFieldNames, stateSchema]);
 
   const effectiveXAxisField = selectedXAxisField ?? defaultXAxisField;
 
@@ -570,8 +863,8 @@ function buildTimeSeriesTraces(
     if (!effectiveXAxisField) return [] as string[];
     const set = new Set<string>();
     for (const r of filteredRows) {
-      const ts = parseDateValueToTs(r[effectiveXAxisField]);
-      if (ts !== null) set.add(String(new Date(ts).getFullYear()));
+      const ts = toDateTs(r[effectiveXAxisField]);
+      if (ts !== null) set.add(String(new Date(ts).getUTCFullYear()));
     }
     return Array.from(set).sort();
   }, [filteredRows, effectiveXAxisField]);
@@ -580,8 +873,8 @@ function buildTimeSeriesTraces(
     if (!effectiveXAxisField) return [] as string[];
     const set = new Set<number>();
     for (const r of filteredRows) {
-      const ts = parseDateValueToTs(r[effectiveXAxisField]);
-      if (ts !== null) set.add(new Date(ts).getMonth() + 1);
+      const ts = toDateTs(r[effectiveXAxisField]);
+      if (ts !== null) set.add(new Date(ts).getUTCMonth() + 1);
     }
     return Array.from(set)
       .sort((a, b) => a - b)
@@ -592,14 +885,14 @@ function buildTimeSeriesTraces(
   const timeFilteredRows = useMemo(() => {
     if (!effectiveXAxisField) return filteredRows;
     return filteredRows.filter((r) => {
-      const ts = parseDateValueToTs(r[effectiveXAxisField]);
+      const ts = toDateTs(r[effectiveXAxisField]);
       if (ts === null) return false;
       const d = new Date(ts);
       if (selectedYear) {
-        if (String(d.getFullYear()) !== selectedYear) return false;
+        if (String(d.getUTCFullYear()) !== selectedYear) return false;
       }
       if (selectedMonth) {
-        if (String(d.getMonth() + 1).padStart(2, "0") !== selectedMonth)
+        if (String(d.getUTCMonth() + 1).padStart(2, "0") !== selectedMonth)
           return false;
       }
       if (rangeStart) {
@@ -614,15 +907,120 @@ function buildTimeSeriesTraces(
     });
   }, [filteredRows, effectiveXAxisField, selectedYear, selectedMonth, rangeStart, rangeEnd]);
 
+  // Column names resolve to parties and alliances of the state and year
+  const partyOf = useCallback(
+    (field: string) =>
+      resolveParty(field, { state: selectedState, year: selectedYear || undefined }),
+    [resolveParty, selectedState, selectedYear]
+  );
+
   const timeSeriesData = useMemo(
     () =>
-      buildTimeSeriesTraces(
-        timeFilteredRows,
-        selectedSeriesFields,
-        effectiveXAxisField,
-        fieldColors
-      ),
-    [timeFilteredRows, selectedSeriesFields, effectiveXAxisField, fieldColors]
+      buildTimeSeriesTraces(timeFilteredRows, selectedSeriesFields, effectiveXAxisField, {
+        fieldColors,
+        schema: stateSchema,
+        partyOf,
+        weightField,
+        grain: timeGrain,
+        rollingWindow,
+        rollingOnly,
+        confidenceBands,
+        sampleSizeField,
+      }),
+    [
+      timeFilteredRows,
+      selectedSeriesFields,
+      effectiveXAxisField,
+      fieldColors,
+      stateSchema,
+      partyOf,
+      weightField,
+      timeGrain,
+      rollingWindow,
+      rollingOnly,
+      confidenceBands,
+      sampleSizeField,
+    ]
+  );
+
+  const currentView = useMemo<ReportView>(
+    () => ({
+      state: selectedState,
+      reportId: selectedReportId,
+      tab: activeTab,
+      avgFields: selectedAvgFields,
+      seriesFields: selectedSeriesFields,
+      filterFields: selectedFilterFields,
+      derived: derivedSpecs,
+      filters,
+      xAxisField: selectedXAxisField,
+      weightField,
+      grain: timeGrain,
+      rollingWindow,
+      rollingOnly,
+      confidenceBands,
+      sampleSizeField,
+      year: selectedYear,
+      month: selectedMonth,
+      rangeStart,
+      rangeEnd,
+    }),
+    [
+      selectedState,
+      selectedReportId,
+      activeTab,
+      selectedAvgFields,
+      selectedSeriesFields,
+      selectedFilterFields,
+      derivedSpecs,
+      filters,
+      selectedXAxisField,
+      weightField,
+      timeGrain,
+      rollingWindow,
+      rollingOnly,
+      confidenceBands,
+      sampleSizeField,
+      selectedYear,
+      selectedMonth,
+      rangeStart,
+      rangeEnd,
+    ]
+  );
+
+  // Mirror the view into the URL so the address bar is a shareable link.
+  // replaceState updates useSearchParams without a server round trip.
+  useEffect(() => {
+    if (!viewReady) return;
+    const query = reportViewToQuery(currentView);
+    if (query !== window.location.search.replace(/^\?/, "")) {
+      window.history.replaceState(
+        null,
+        "",
+        query ? `${window.location.pathname}?${query}` : window.location.pathname
+      );
+    }
+  }, [viewReady, currentView]);
+
+  const openSavedView = (view: ReportView) => {
+    if (view.state === selectedState) {
+      setSelectedReportId(
+        surveys.some((s) => s.id === view.reportId) ? view.reportId : ""
+      );
+      applyView(view);
+    } else {
+      pendingViewRef.current = view;
+      setSelectedState(view.state);
+    }
+  };
+
+  // A window from a link that is not in the list is offered as well
+  const rollingWindowOptions = ROLLING_WINDOWS.includes(rollingWindow) || !rollingWindow
+    ? ROLLING_WINDOWS
+    : [...ROLLING_WINDOWS, rollingWindow].sort((a, b) => a - b);
+
+  const allSeriesPercent = selectedSeriesFields.every(
+    (field) => stateSchema[field]?.type === "percent"
   );
 
   const handleToggleFilterValue = (field: string, value: string) => {
@@ -647,13 +1045,40 @@ function buildTimeSeriesTraces(
      // Reset selections when state changes to avoid confusion.
     setSelectedAvgFields([]);
     setSelectedSeriesFields([]);
+    setDerivedSpecs([]);
     setFilters({});
     setSelectedFilterFields([]);
     setSelectedXAxisField(null);
+    setWeightField(null);
+    setSampleSizeField(null);
     setSurveys([]);
     setSelectedReportId("");
    };
 
+  // Specs from a link may be malformed; those have no column
+  const derivedColumnOf = (spec: string): string | null => {
+    try {
+      return derivedMetricName(parseDerivedMetric(spec));
+    } catch {
+      return null;
+    }
+  };
+
+  const handleAddDerived = (spec: string) => {
+    setDerivedSpecs((prev) => [...prev, spec]);
+    const name = derivedColumnOf(spec);
+    if (name) {
+      setSelectedSeriesFields((prev) => (prev.includes(name) ? prev : [...prev, name]));
+    }
+  };
+
+  const handleRemoveDerived = (spec: string) => {
+    setDerivedSpecs((prev) => prev.filter((s) => s !== spec));
+    const name = derivedColumnOf(spec);
+    setSelectedSeriesFields((prev) => prev.filter((f) => f !== name));
+    setSelectedAvgFields((prev) => prev.filter((f) => f !== name));
+  };
+
   const toggleSelectedField = (
     field: string,
     setState: React.Dispatch<React.SetStateAction<string[]>>
@@ -798,7 +1223,9 @@ function buildTimeSeriesTraces(
                      ) : (
                        <div className="grid gap-3 grid-cols-2 xl:grid-cols-3">
                          {averages.map(({ field, average }) => {
-                           const valueColor = fieldColors[field] ?? "#22d3ee";
+                           const party = partyOf(field);
+                           const valueColor =
+                             fieldColors[field] ?? party?.color ?? "#22d3ee";
                            return (
                              <div
                                key={field}
@@ -806,34 +1233,54 @@ function buildTimeSeriesTraces(
                              >
                                <div className="text-[11px] font-medium uppercase tracking-wide text-slate-400">
                                  {field}
+                                 {party && party.label !== field && (
+                                   <span className="ml-1 normal-case text-slate-500">
+                                     · {party.label}
+                                   </span>
+                                 )}
                                </div>
                                <div className="mt-1 flex items-center gap-2">
                                  <div
                                    className="text-xl font-semibold"
                                    style={{ color: valueColor }}
                                  >
-                                   {average !== null ? `${(average * 100).toFixed(2)}%` : "—"}
+                                   {average !== null
+                                     ? formatFieldValue(average, field, stateSchema)
+                                     : "—"}
                                  </div>
-                                 <label className="flex shrink-0 items-center" title="Set value color">
-                                   <input
-                                     type="color"
-                                     value={valueColor}
-                                     onChange={(e) =>
-                                       setFieldColors((prev) => ({
-                                         ...prev,
-                                         [field]: e.target.value,
-                                       }))
-                                     }
-                                     className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
-                                   />
-                                 </label>
+                                 {canEditColors && (
+                                   <label className="flex shrink-0 items-center" title="Set value color">
+                                     <input
+                                       type="color"
+                                       value={valueColor}
+                                       onChange={(e) =>
+                                         setFieldColors((prev) => ({
+                                           ...prev,
+                                           [field]: e.target.value,
+                                         }))
+                                       }
+                                       className="h-6 w-8 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
+                                     />
+                                   </label>
+                                 )}
                                </div>
                                <div className="mt-0.5 text-[11px] text-slate-500">
-                                 Average across{" "}
-                                 <span className="font-semibold text-slate-300">
-                                   all
-                                 </span>{" "}
-                                 records
+                                 {weightField ? (
+                                   <>
+                                     Weighted by{" "}
+                                     <span className="font-semibold text-slate-300">
+                                       {weightField}
+                                     </span>
+                                   </>
+                                 ) : (
+                                   <>
+                                     Average across{" "}
+                                     <span className="font-semibold text-slate-300">
+                                       all
+                                     </span>{" "}
+                                     records
+                                   </>
+                                 )}
                                </div>
                              </div>
                            );
@@ -969,6 +1416,86 @@ function buildTimeSeriesTraces(
                         Clear
                       </button>
                     </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                      <label className="flex items-center gap-2">
+                        <span className="text-slate-300">Group by</span>
+                        <select
+                          value={timeGrain}
+                          onChange={(e) => setTimeGrain(e.target.value as TimeGrain)}
+                          className="rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+                        >
+                          <option value="raw">X-axis value</option>
+                          <option value="day">Day</option>
+                          <option value="week">Week</option>
+                          <option value="month">Month</option>
+                          <option value="quarter">Quarter</option>
+                        </select>
+                      </label>
+
+                      <label className="flex items-center gap-2">
+                        <span className="text-slate-300">Rolling avg</span>
+                        <select
+                          value={rollingWindow}
+                          onChange={(e) => setRollingWindow(Number(e.target.value))}
+                          className="rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+                        >
+                          <option value={0}>Off</option>
+                          {rollingWindowOptions.map((n) => (
+                            <option key={n} value={n}>
+                              {n} periods
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+
+                      <label className="flex items-center gap-2">
+                        <span className="text-slate-300">Show</span>
+                        <select
+                          value={rollingOnly ? "only" : "both"}
+                          onChange={(e) => setRollingOnly(e.target.value === "only")}
+                          disabled={!rollingWindow}
+                          className="rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs disabled:opacity-50"
+                        >
+                          <option value="both">With raw series</option>
+                          <option value="only">Rolling avg only</option>
+                        </select>
+                      </label>
+                    </div>
+                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                      <label className="flex cursor-pointer items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={confidenceBands}
+                          onChange={(e) => setConfidenceBands(e.target.checked)}
+                          className="h-3 w-3 rounded border-slate-600 bg-slate-900 text-cyan-500 focus:ring-cyan-500"
+                        />
+                        <span className="text-slate-300">95% bands</span>
+                      </label>
+
+                      <label className="flex items-center gap-2">
+                        <span className="text-slate-300">Sample size</span>
+                        <select
+                          value={sampleSizeField ?? ""}
+                          onChange={(e) => setSampleSizeField(e.target.value || null)}
+                          disabled={!confidenceBands}
+                          className="max-w-[160px] rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs disabled:opacity-50"
+                        >
+                          <option value="">One respondent per row</option>
+                          {numericFields.map((field) => (
+                            <option key={field} value={field}>
+                              {field}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    {confidenceBands && (
+                      <p className="text-[11px] text-slate-500">
+                        Bands are drawn for party share fields. Circles mark
+                        points where the leader is within the margin of
+                        error of the runner-up.
+                      </p>
+                    )}
                   </div>
                   <div className="flex flex-col gap-1 text-xs">
                     <span className="font-medium text-slate-300">
@@ -977,7 +1504,8 @@ function buildTimeSeriesTraces(
                     <div className="max-h-32 w-full min-w-[220px] space-y-1 overflow-y-auto rounded-lg border border-slate-700 bg-slate-950/80 p-2">
                       {numericFields.map((field) => {
                         const checked = selectedSeriesFields.includes(field);
-                        const seriesColor = fieldColors[field] ?? "#22d3ee";
+                        const seriesColor =
+                          fieldColors[field] ?? partyOf(field)?.color ?? "#22d3ee";
                         return (
                           <div
                             key={field}
@@ -999,27 +1527,36 @@ function buildTimeSeriesTraces(
                                 {field}
                               </span>
                             </label>
-                            <label
-                              className="flex shrink-0 cursor-pointer"
-                              title="Set line color"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              <input
-                                type="color"
-                                value={seriesColor}
-                                onChange={(e) =>
-                                  setFieldColors((prev) => ({
-                                    ...prev,
-                                    [field]: e.target.value,
-                                  }))
-                                }
-                                className="h-5 w-7 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
-                              />
-                            </label>
+                            {canEditColors && (
+                              <label
+                                className="flex shrink-0 cursor-pointer"
+                                title="Set line color"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <input
+                                  type="color"
+                                  value={seriesColor}
+                                  onChange={(e) =>
+                                    setFieldColors((prev) => ({
+                                      ...prev,
+                                      [field]: e.target.value,
+                                    }))
+                                  }
+                                  className="h-5 w-7 cursor-pointer rounded border border-slate-700 bg-slate-950 p-0.5"
+                                />
+                              </label>
+                            )}
                           </div>
                         );
                       })}
                     </div>
+                    <DerivedSeriesPanel
+                      fields={getNumericFields(calculatedData.schema)}
+                      specs={derivedSpecs}
+                      errors={derivedData.errors}
+                      onAdd={handleAddDerived}
+                      onRemove={handleRemoveDerived}
+                    />
                   </div>
                 </div>
 
@@ -1037,6 +1574,16 @@ function buildTimeSeriesTraces(
                        <Plot
                          data={timeSeriesData?.traces ?? []}
                          layout={{
+                           ...(weightField
+                             ? {
+                                 title: {
+                                   text: `<sup>Means weighted by ${weightField}</sup>`,
+                                   x: 0.01,
+                                   xanchor: "left",
+                                   font: { color: "#94a3b8" },
+                                 },
+                               }
+                             : {}),
                            paper_bgcolor: "rgba(15,23,42,1)",
                            plot_bgcolor: "rgba(15,23,42,1)",
                            margin: { l: 56, r: 20, t: 40, b: 40 },
@@ -1049,19 +1596,16 @@ function buildTimeSeriesTraces(
                              font: { color: "#e2e8f0", size: 10 },
                            },
                            xaxis: {
-                             title: "Timeline (Month)",
+                             title:
+                               timeGrain === "raw"
+                                 ? "Timeline"
+                                 : `Timeline (by ${timeGrain})`,
                              tickfont: { color: "#9ca3af", size: 10 },
                              titlefont: { color: "#e5e7eb", size: 11 },
                              gridcolor: "rgba(55,65,81,0.3)",
                              tickmode: "array",
                              tickvals: timeSeriesData?.xLabels ?? undefined,
-                             ticktext: timeSeriesData?.xLabels?.map((d) => {
-                               // convert ISO YYYY-MM-DD to DD-MM-YY
-                               if (typeof d !== "string") return String(d);
-                               const parts = d.split("-");
-                               if (parts.length !== 3) return d;
-                               return `${parts[2].slice(-2)}-${parts[1]}-${parts[0].slice(-2)}`;
-                             }) ?? undefined,
+                             ticktext: timeSeriesData?.tickText ?? undefined,
                             rangeselector: {
                               buttons: [
                                 { count: 1, label: "1m", step: "month", stepmode: "backward" },
@@ -1073,8 +1617,8 @@ function buildTimeSeriesTraces(
                             rangeslider: { visible: true },
                            },
                            yaxis: {
-                             title: "Percentage",
-                             ticksuffix: "%",
+                             title: allSeriesPercent ? "Percentage" : "Value",
+                             ticksuffix: allSeriesPercent ? "%" : "",
                              tickfont: { color: "#9ca3af", size: 10 },
                              titlefont: { color: "#e5e7eb", size: 11 },
                              gridcolor: "rgba(55,65,81,0.3)",
@@ -1105,10 +1649,13 @@ function buildTimeSeriesTraces(
              <VisualizationsTab
                filteredRows={filteredRows}
                numericFields={numericFields}
+               schema={stateSchema}
                fieldColors={fieldColors}
                setFieldColors={setFieldColors}
+               canEditColors={canEditColors}
                vizShowCurve={vizShowCurve}
                setVizShowCurve={setVizShowCurve}
+               partyOf={partyOf}
              />
            )}
 
@@ -1260,11 +1807,101 @@ function buildTimeSeriesTraces(
                <span className="font-semibold">{selectedState}</span>).
              </div>
            </div> */}
+
+          <div className="mt-4 border-t border-slate-800 pt-4 text-xs">
+            <h3 className="mb-2 text-sm font-semibold tracking-tight">Weighting</h3>
+            <label className="flex items-center gap-2">
+              <span className="text-slate-300">Weight by</span>
+              <select
+                value={weightField ?? ""}
+                onChange={(e) => setWeightField(e.target.value || null)}
+                className="min-w-0 flex-1 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+              >
+                <option value="">None (plain mean)</option>
+                {numericFields.map((field) => (
+                  <option key={field} value={field}>
+                    {field}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="mt-1 text-[11px] text-slate-500">
+              Averages and trend points count each row by this column, such as
+              the sample quantity, so large samples weigh more than small ones.
+            </p>
+          </div>
+
+          {canEditColors && (
+            <div className="mt-4 border-t border-slate-800 pt-4 text-xs">
+              <h3 className="mb-2 text-sm font-semibold tracking-tight">Colours</h3>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-300">Apply to</span>
+                <select
+                  value={effectiveColorScope}
+                  onChange={(e) => setColorScope(e.target.value as PrefScope)}
+                  className="flex-1 rounded border border-slate-700 bg-slate-950 px-2 py-1 text-xs"
+                >
+                  <option value="all">All surveys</option>
+                  <option value="state">This state</option>
+                  <option value="survey" disabled={!selectedReportId}>
+                    This report
+                  </option>
+                </select>
+              </label>
+              <p className="mt-1 text-[11px] text-slate-500">
+                Colour changes are yours only. Reset to go back to the team default.
+              </p>
+              <div className="mt-2 flex gap-3">
+                <button
+                  type="button"
+                  onClick={handleResetColors}
+                  className="text-cyan-400 hover:text-cyan-300"
+                >
+                  Reset
+                </button>
+                {canPublishColors && (
+                  <button
+                    type="button"
+                    onClick={handlePublishColors}
+                    className="text-cyan-400 hover:text-cyan-300"
+                  >
+                    Publish as team default
+                  </button>
+                )}
+              </div>
+              {colorsError && <p className="mt-2 text-red-400">{colorsError}</p>}
+            </div>
+          )}
+
+          <CalculatedFieldsPanel
+            state={selectedState}
+            reportId={selectedReportId}
+            fields={calculatedFields.fields}
+            canCreate={calculatedFields.canCreate}
+            errors={calculatedData.errors}
+            onChanged={calculatedFields.reload}
+          />
+
+          <SavedViewsPanel currentView={currentView} onOpen={openSavedView} />
          </aside>
        </section>
      </div>
    );
  };
 
- export default ReportsPage;
+function ReportsLoading() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-950">
+      <p className="text-slate-400">Loading...</p>
+    </div>
+  );
+}
+
+export default function ReportsPage() {
+  return (
+    <Suspense fallback={<ReportsLoading />}>
+      <ReportsContent />
+    </Suspense>
+  );
+}
 
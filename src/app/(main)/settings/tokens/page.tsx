@@ -0,0 +1,20 @@
+import Link from "next/link";
+import React from "react";
+import { getCurrentUser } from "@/lib/sessions";
+import { ApiTokenSettings } from "../../components/ApiTokenSettings";
+
+export default async function ApiTokensPage() {
+  const user = await getCurrentUser();
+
+  return (
+    <main className="mx-auto max-w-4xl px-4 py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold">API tokens</h1>
+        <Link href="/" className="text-sm text-blue-600 hover:underline">
+          Back to home
+        </Link>
+      </div>
+      <ApiTokenSettings canUpload={user?.role === "admin"} />
+    </main>
+  );
+}
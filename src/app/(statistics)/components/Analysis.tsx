@@ -1,8 +1,12 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import dynamic from "next/dynamic";
-import { useSearchParams } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
+import { applyFormulas } from "@/lib/formula";
+import { isNumericColumn, type SurveySchema } from "@/lib/surveyColumns";
+import { useCalculatedFields } from "@/lib/useCalculatedFields";
+import { usePartyRegistry } from "@/lib/usePartyRegistry";
 
 type PlotlyData = Record<string, any>;
 type PlotlyLayout = Record<string, any>;
@@ -48,10 +52,22 @@ type AnalysisConfig = {
   result?: any;
 };
 
+type SurveyRevision = {
+  revision: number;
+  fileName?: string;
+  uploadedAt: string;
+  numInstances: number;
+};
+
 type SurveyData = {
   id: string;
   title: string;
+  state: string;
+  revision: number;
+  latestRevision: number;
+  revisions: SurveyRevision[];
   variablesList: string[];
+  schema: SurveySchema;
   data: Record<string, any>[];
   numVariables: number;
   numInstances: number;
@@ -111,8 +127,12 @@ const ANALYSIS_TYPES: AnalysisType[] = [
 ];
 
 export function Analysis() {
+  const router = useRouter();
   const searchParams = useSearchParams();
+  const { resolve: resolveParty } = usePartyRegistry();
   const surveyId = searchParams.get("surveyId");
+  // Without ?rev= the latest revision is shown
+  const revision = searchParams.get("rev");
 
   const [surveyData, setSurveyData] = useState<SurveyData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -121,6 +141,22 @@ export function Analysis() {
   const [selectedFields, setSelectedFields] = useState<string[]>([]);
   const [analyses, setAnalyses] = useState<AnalysisConfig[]>([]);
   const [isExecuting, setIsExecuting] = useState(false);
+  const { fields: calculatedFields } = useCalculatedFields(
+    surveyData?.state ?? "",
+    surveyData?.id ?? null
+  );
+
+  // The survey with the calculated fields of its state and of itself added
+  const analysisData = useMemo(() => {
+    if (!surveyData) return null;
+    const { rows, schema } = applyFormulas(
+      surveyData.data,
+      surveyData.schema ?? {},
+      calculatedFields
+    );
+    const added = Object.keys(schema).filter((f) => !surveyData.schema?.[f]);
+    return { rows, schema, fields: [...surveyData.variablesList, ...added], added };
+  }, [surveyData, calculatedFields]);
 
   useEffect(() => {
     if (!surveyId) {
@@ -133,7 +169,8 @@ export function Analysis() {
       try {
         setIsLoading(true);
         setError(null);
-        const response = await fetch(`/api/survey/${surveyId}`);
+        const query = revision ? `?rev=${encodeURIComponent(revision)}` : "";
+        const response = await fetch(`/api/survey/${surveyId}${query}`);
         if (!response.ok) {
           throw new Error("Failed to fetch survey data");
         }
@@ -148,7 +185,17 @@ export function Analysis() {
     };
 
     fetchSurveyData();
-  }, [surveyId]);
+  }, [surveyId, revision]);
+
+  const handleRevisionChange = (value: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (surveyData && value === surveyData.latestRevision) {
+      params.delete("rev");
+    } else {
+      params.set("rev", String(value));
+    }
+    router.replace(`/analysis?${params.toString()}`);
+  };
 
   const handleFieldToggle = (field: string) => {
     if (!selectedAnalysisType) return;
@@ -173,7 +220,7 @@ export function Analysis() {
   };
 
   const executeAnalysis = async () => {
-    if (!selectedAnalysisType || !canExecuteAnalysis() || !surveyData) return;
+    if (!selectedAnalysisType || !canExecuteAnalysis() || !surveyData || !analysisData) return;
 
     setIsExecuting(true);
     try {
@@ -182,7 +229,9 @@ export function Analysis() {
       const result = performAnalysis(
         selectedAnalysisType,
         selectedFields,
-        surveyData.data
+        analysisData.rows,
+        analysisData.schema,
+        (label) => resolveParty(label, { state: surveyData.state })?.color
       );
 
       const newAnalysis: AnalysisConfig = {
@@ -215,7 +264,7 @@ export function Analysis() {
     );
   }
 
-  if (error || !surveyData) {
+  if (error || !surveyData || !analysisData) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="p-4 bg-red-50 border border-red-200 rounded-md">
@@ -236,16 +285,16 @@ export function Analysis() {
         <div className="p-4 border-b border-gray-200">
           <h2 className="text-lg font-semibold text-gray-800">Fields</h2>
           <p className="text-xs text-gray-500 mt-1">
-            {surveyData.variablesList.length} fields available
+            {analysisData.fields.length} fields available
           </p>
         </div>
         <div className="p-2">
-          {surveyData.variablesList.map((field) => (
+          {analysisData.fields.map((field) => (
             <button
               key={field}
               onClick={() => handleFieldToggle(field)}
               disabled={!selectedAnalysisType}
-              className={`w-full text-left px-3 py-2 mb-1 rounded-md text-sm transition-colors ${
+              className={`w-full flex items-center justify-between gap-2 text-left px-3 py-2 mb-1 rounded-md text-sm transition-colors ${
                 selectedFields.includes(field)
                   ? "bg-blue-100 text-blue-800 font-medium"
                   : selectedAnalysisType
@@ -253,7 +302,16 @@ export function Analysis() {
                   : "text-gray-400 cursor-not-allowed"
               }`}
             >
-              {field}
+              <span className="truncate">{field}</span>
+              {analysisData.schema[field] && (
+                <span
+                  className="shrink-0 text-[10px] uppercase text-gray-400"
+                  title={analysisData.added.includes(field) ? "Calculated field" : undefined}
+                >
+                  {analysisData.added.includes(field) && "ƒ "}
+                  {analysisData.schema[field].type}
+                </span>
+              )}
             </button>
           ))}
         </div>
@@ -264,9 +322,27 @@ export function Analysis() {
         {/* Header */}
         <div className="bg-white border-b border-gray-200 p-4">
           <h1 className="text-2xl font-bold text-gray-800">{surveyData.title}</h1>
-          <p className="text-sm text-gray-600 mt-1">
-            {surveyData.numInstances} instances, {surveyData.numVariables} variables
-          </p>
+          <div className="flex items-center gap-3 mt-1">
+            <p className="text-sm text-gray-600">
+              {surveyData.numInstances} instances, {surveyData.numVariables} variables
+            </p>
+            {surveyData.revisions?.length > 1 && (
+              <select
+                value={surveyData.revision}
+                onChange={(e) => handleRevisionChange(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {surveyData.revisions.map((r) => (
+                  <option key={r.revision} value={r.revision}>
+                    Revision {r.revision}
+                    {r.revision === surveyData.latestRevision ? " (latest)" : ""}
+                    {" — "}
+                    {new Date(r.uploadedAt).toLocaleDateString()}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </div>
 
         {/* Right Panel - Analysis Configuration */}
@@ -485,14 +561,24 @@ function AnalysisVisualization({
 function performAnalysis(
   type: AnalysisType,
   fields: string[],
-  data: Record<string, any>[]
+  data: Record<string, any>[],
+  schema: SurveySchema,
+  // Registry colour of a party or alliance named by a category or field
+  partyColor: (label: string) => string | undefined = () => undefined
 ): any {
   // Basic analysis implementations
   // In production, these would be more sophisticated
 
-  const allFields = data.length > 0 ? Object.keys(data[0] ?? {}) : [];
-  const numericFieldsAll = allFields.filter((f) => isMostlyNumeric(f, data));
-  const dateFieldsAll = allFields.filter((f) => isMostlyDateLike(f, data));
+  // Column types come from the survey schema fixed at upload
+  const isNumericField = (f: string | undefined) =>
+    !!f && isNumericColumn(schema[f]);
+  const isDateField = (f: string | undefined) =>
+    !!f && schema[f]?.type === "date";
+  const allFields = Object.keys(schema);
+  const numericFieldsAll = allFields.filter((f) => isNumericField(f));
+  const dateFieldsAll = allFields.filter((f) => isDateField(f));
+  const barColors = (labels: string[], fallback: string) =>
+    labels.map((label) => partyColor(label) ?? fallback);
 
   switch (type) {
     case "Calculated Measure (KPI)": {
@@ -553,7 +639,7 @@ function performAnalysis(
             x: sorted.map(([, value]) => value),
             y: sorted.map(([key]) => key),
             orientation: "h",
-            marker: { color: "#2563eb" },
+            marker: { color: barColors(sorted.map(([key]) => key), "#2563eb") },
           },
         ],
         layout: {
@@ -587,6 +673,7 @@ function performAnalysis(
         name: item,
         x: groups,
         y: groups.map((g) => grouped[g]?.[item] ?? 0),
+        ...(partyColor(item) ? { marker: { color: partyColor(item) } } : {}),
       }));
 
       return {
@@ -623,7 +710,7 @@ function performAnalysis(
             type: "bar",
             x: labels,
             y: counts,
-            marker: { color: "#10b981" },
+            marker: { color: barColors(labels, "#10b981") },
           },
         ],
         layout: {
@@ -757,7 +844,7 @@ function performAnalysis(
               type: "bar",
               x: entries.map(([k]) => k),
               y: entries.map(([, v]) => v),
-              marker: { color: "#7c3aed" },
+              marker: { color: barColors(entries.map(([k]) => k), "#7c3aed") },
             },
           ],
           layout: {
@@ -769,13 +856,18 @@ function performAnalysis(
       }
 
       // fallback: compare means of selected numeric fields
-      const nums = fields.filter((f) => isMostlyNumeric(f, data)).slice(0, 8);
+      const nums = fields.filter((f) => isNumericField(f)).slice(0, 8);
       const candidates = nums.length ? nums : numericFieldsAll.slice(0, 8);
       const means = candidates.map((f) => [f, meanOfField(f, data)] as const);
       return {
         type: "plotly",
         data: [
-          { type: "bar", x: means.map(([f]) => f), y: means.map(([, m]) => m) },
+          {
+            type: "bar",
+            x: means.map(([f]) => f),
+            y: means.map(([, m]) => m),
+            marker: { color: barColors(means.map(([f]) => f), "#2563eb") },
+          },
         ],
         layout: {
           title: "Comparison (means)",
@@ -787,7 +879,7 @@ function performAnalysis(
 
     case "Relative Importance": {
       // Heuristic: importance = |corr(feature, target)|; target is last selected field
-      const nums = fields.filter((f) => isMostlyNumeric(f, data));
+      const nums = fields.filter((f) => isNumericField(f));
       if (nums.length < 2) {
         return {
           type: "calculation",
@@ -818,8 +910,8 @@ function performAnalysis(
     }
 
     case "Year to Date": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField) {
         return { type: "calculation", data: { Error: "No date field detected" } };
       }
@@ -854,8 +946,8 @@ function performAnalysis(
 
     case "Process Control (mean)":
     case "Process Control (rolling mean)": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField || !valueField) {
         return {
           type: "calculation",
@@ -952,7 +1044,7 @@ function performAnalysis(
     }
 
     case "Clustering (k-means)": {
-      const nums = fields.filter((f) => isMostlyNumeric(f, data));
+      const nums = fields.filter((f) => isNumericField(f));
       const candidates = (nums.length ? nums : numericFieldsAll).slice(0, 3);
       if (candidates.length < 2) {
         return { type: "calculation", data: { Error: "Need at least 2 numeric fields" } };
@@ -989,8 +1081,8 @@ function performAnalysis(
 
     case "Anomaly (spike)":
     case "Anomaly (trend)": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField || !valueField) {
         return { type: "calculation", data: { Error: "Need a date-like field and a numeric field" } };
       }
@@ -1019,8 +1111,8 @@ function performAnalysis(
     case "Period over Period (selected)":
     case "Period Changes":
     case "Period Changes (detailed)": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField || !valueField) {
         return { type: "calculation", data: { Error: "Need a date-like field and a numeric field" } };
       }
@@ -1053,8 +1145,8 @@ function performAnalysis(
     }
 
     case "Trend with Forecast": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField || !valueField) {
         return { type: "calculation", data: { Error: "Need a date-like field and a numeric field" } };
       }
@@ -1084,8 +1176,8 @@ function performAnalysis(
     }
 
     case "Time Series Decomposition": {
-      const timeField = fields.find((f) => isMostlyDateLike(f, data)) ?? dateFieldsAll[0];
-      const valueField = fields.find((f) => isMostlyNumeric(f, data)) ?? numericFieldsAll[0];
+      const timeField = fields.find((f) => isDateField(f)) ?? dateFieldsAll[0];
+      const valueField = fields.find((f) => isNumericField(f)) ?? numericFieldsAll[0];
       if (!timeField || !valueField) {
         return { type: "calculation", data: { Error: "Need a date-like field and a numeric field" } };
       }
@@ -1112,7 +1204,7 @@ function performAnalysis(
         data: [
           {
             type: "histogram",
-            x: isMostlyNumeric(fields[0], data)
+            x: isNumericField(fields[0])
               ? data.map((r) => r[fields[0]]).filter((v) => typeof v === "number")
               : data.map((r) => String(r[fields[0]] ?? "Unknown")),
             marker: { color: "#64748b" },
@@ -1176,34 +1268,6 @@ function pearson(
   return num / Math.sqrt(denA * denB);
 }
 
-function isMostlyNumeric(field: string | undefined, rows: Record<string, any>[]): boolean {
-  if (!field) return false;
-  let seen = 0;
-  let numeric = 0;
-  for (const r of rows) {
-    const v = r[field];
-    if (v == null) continue;
-    seen++;
-    if (typeof v === "number" && Number.isFinite(v)) numeric++;
-    if (seen >= 50) break;
-  }
-  return seen > 0 && numeric / seen >= 0.7;
-}
-
-function isMostlyDateLike(field: string | undefined, rows: Record<string, any>[]): boolean {
-  if (!field) return false;
-  let seen = 0;
-  let ok = 0;
-  for (const r of rows) {
-    const v = r[field];
-    if (v == null) continue;
-    seen++;
-    if (toEpochMs(v) != null) ok++;
-    if (seen >= 50) break;
-  }
-  return seen > 0 && ok / seen >= 0.7;
-}
-
 function toEpochMs(value: any): number | null {
   if (value == null) return null;
   if (value instanceof Date) return Number.isFinite(value.getTime()) ? value.getTime() : null;
@@ -2,22 +2,36 @@
 
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { UploadSurveyModal } from "./UploadSurveyModal";
+import { UploadSurveyModal, type UploadTarget } from "./UploadSurveyModal";
+import { EditSurveyModal } from "./EditSurveyModal";
+import { hasRole, type Role } from "@/lib/roles";
 
 type Servey = {
   id: string;
   name: string;
   description: string;
+  state: string;
+  notes: string;
+  revision: number;
   responses: number;
   updatedAt: string;
 };
 
-export function ServeyLists() {
+interface ServeyListsProps {
+  /** Role of the signed-in user; only admins can upload or change surveys */
+  role?: Role;
+}
+
+export function ServeyLists({ role }: ServeyListsProps) {
   const router = useRouter();
+  const canManage = hasRole(role, "admin");
   const [serveys, setServeys] = useState<Servey[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [editingServey, setEditingServey] = useState<Servey | null>(null);
+  const [uploadTarget, setUploadTarget] = useState<UploadTarget | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
 
   const fetchServeys = async () => {
     try {
@@ -45,17 +59,40 @@ export function ServeyLists() {
     fetchServeys(); // Refresh the list after successful upload
   };
 
+  const handleDelete = async (servey: Servey) => {
+    if (!window.confirm(`Delete "${servey.name}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      setDeletingId(servey.id);
+      const response = await fetch(`/api/survey/${servey.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to delete survey");
+      }
+      setServeys((prev) => prev.filter((s) => s.id !== servey.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete survey");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
   return (
     <section className="space-y-6">
       <div className="flex items-center justify-between gap-4">
         <h2 className="text-lg font-semibold">Available Serveys</h2>
-        <button
-          type="button"
-          onClick={() => setIsModalOpen(true)}
-          className="inline-flex items-center rounded-md bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-emerald-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-2"
-        >
-          Upload Servey
-        </button>
+        {canManage && (
+          <button
+            type="button"
+            onClick={() => setIsModalOpen(true)}
+            className="inline-flex items-center rounded-md bg-emerald-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-emerald-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 focus-visible:ring-offset-2"
+          >
+            Upload Servey
+          </button>
+        )}
       </div>
 
       {isLoading ? (
@@ -68,7 +105,11 @@ export function ServeyLists() {
         </div>
       ) : serveys.length === 0 ? (
         <div className="flex items-center justify-center py-12">
-          <p className="text-gray-600">No surveys available. Upload your first survey to get started.</p>
+          <p className="text-gray-600">
+            {canManage
+              ? "No surveys available. Upload your first survey to get started."
+              : "No surveys available yet."}
+          </p>
         </div>
       ) : (
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
@@ -79,13 +120,79 @@ export function ServeyLists() {
               className="flex flex-col justify-between rounded-xl border border-gray-200 bg-white p-4 shadow-sm cursor-pointer hover:shadow-md transition-shadow"
             >
               <div className="space-y-1.5">
-                <h3 className="text-gray-800 font-semibold">{servey.name}</h3>
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="text-gray-800 font-semibold">{servey.name}</h3>
+                  {canManage && (
+                    <div className="flex shrink-0 gap-1">
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setUploadTarget({
+                            id: servey.id,
+                            name: servey.name,
+                            mode: "append",
+                          });
+                        }}
+                        className="rounded px-2 py-0.5 text-xs font-medium text-emerald-700 hover:bg-emerald-50"
+                      >
+                        Append
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setUploadTarget({
+                            id: servey.id,
+                            name: servey.name,
+                            mode: "revision",
+                          });
+                        }}
+                        className="rounded px-2 py-0.5 text-xs font-medium text-emerald-700 hover:bg-emerald-50"
+                      >
+                        New revision
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingServey(servey);
+                        }}
+                        className="rounded px-2 py-0.5 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(servey);
+                        }}
+                        disabled={deletingId === servey.id}
+                        className="rounded px-2 py-0.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        {deletingId === servey.id ? "Deleting..." : "Delete"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {servey.state && (
+                  <p className="text-xs text-gray-500">{servey.state}</p>
+                )}
                 <p className="text-sm text-gray-600 line-clamp-3">
                   {servey.description}
                 </p>
+                {servey.notes && (
+                  <p className="text-xs text-gray-500 italic line-clamp-2">
+                    {servey.notes}
+                  </p>
+                )}
               </div>
               <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
-                <span>{servey.responses} responses</span>
+                <span>
+                  {servey.responses} responses
+                  {servey.revision > 1 && ` · Rev ${servey.revision}`}
+                </span>
                 <span>Updated {servey.updatedAt}</span>
               </div>
             </article>
@@ -98,6 +205,23 @@ export function ServeyLists() {
         onClose={() => setIsModalOpen(false)}
         onUploadSuccess={handleUploadSuccess}
       />
+
+      <UploadSurveyModal
+        key={uploadTarget ? `${uploadTarget.mode}-${uploadTarget.id}` : "none"}
+        isOpen={uploadTarget !== null}
+        onClose={() => setUploadTarget(null)}
+        onUploadSuccess={handleUploadSuccess}
+        target={uploadTarget}
+      />
+
+      {editingServey && (
+        <EditSurveyModal
+          key={editingServey.id}
+          survey={editingServey}
+          onClose={() => setEditingServey(null)}
+          onSaved={fetchServeys}
+        />
+      )}
     </section>
   );
 }
@@ -1,8 +1,15 @@
 "use client";
 
 import React, { useState } from "react";
+import {
+  COLUMN_ROLES,
+  COLUMN_TYPES,
+  type ColumnMapping,
+  type ColumnRole,
+  type ColumnType,
+} from "@/lib/surveyColumns";
 
-const SURVEY_STATES = [
+export const SURVEY_STATES = [
   "Andhra Pradesh",
   "Tamilnadu",
   "Bihar",
@@ -10,43 +17,179 @@ const SURVEY_STATES = [
   "Karnataka",
 ] as const;
 
+const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  numeric: "Numeric",
+  percent: "Percentage",
+  date: "Date",
+  category: "Categorical",
+  id: "Identifier",
+};
+
+const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  party_share: "Party share",
+  swing: "Swing",
+  sample_size: "Sample size",
+  zone: "Zone",
+  time: "Time",
+};
+
+type SheetPreview = {
+  name: string;
+  numInstances: number;
+  numVariables: number;
+  columns: ColumnMapping[];
+  rows: Record<string, unknown>[];
+};
+
+export type UploadTarget = {
+  id: string;
+  name: string;
+  mode: "revision" | "append";
+};
+
 interface UploadSurveyModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUploadSuccess: () => void;
+  /**
+   * When set, the file is uploaded into this survey: either as a new
+   * revision replacing its rows, or appended to its existing rows.
+   */
+  target?: UploadTarget | null;
 }
 
 export function UploadSurveyModal({
   isOpen,
   onClose,
   onUploadSuccess,
+  target = null,
 }: UploadSurveyModalProps) {
+  const isAppend = target?.mode === "append";
   const [title, setTitle] = useState("");
   const [state, setState] = useState<string>(SURVEY_STATES[0]);
   const [file, setFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<SheetPreview[]>([]);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [columnsBySheet, setColumnsBySheet] = useState<
+    Record<string, ColumnMapping[]>
+  >({});
+  const [previewSheet, setPreviewSheet] = useState<string>("");
+  const [dedupeKeys, setDedupeKeys] = useState<string[]>([]);
+  const [isInspecting, setIsInspecting] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const inspectFile = async (selectedFile: File) => {
+    setIsInspecting(true);
+    setSheets([]);
+    setSelectedSheets([]);
+    setColumnsBySheet({});
+    setPreviewSheet("");
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("mode", "preview");
+      if (target) {
+        formData.append("surveyId", target.id);
+        formData.append("target", target.mode);
+      }
+      const response = await fetch("/api/survey/upload", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read file");
+      }
+      const list: SheetPreview[] = data.sheets ?? [];
+      setSheets(list);
+      setColumnsBySheet(
+        Object.fromEntries(list.map((s) => [s.name, s.columns]))
+      );
+      const firstWithRows = list.find((s) => s.numInstances > 0) ?? list[0];
+      setSelectedSheets(firstWithRows ? [firstWithRows.name] : []);
+      // Rows of the same wave share their date and zone
+      setDedupeKeys(
+        (firstWithRows?.columns ?? [])
+          .filter((c) => c.include && (c.role === "time" || c.role === "zone"))
+          .map((c) => c.name.trim())
+      );
+      setPreviewSheet(firstWithRows?.name ?? "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+      setFile(null);
+    } finally {
+      setIsInspecting(false);
+    }
+  };
+
+  const toggleSheet = (name: string) => {
+    // Uploads into an existing survey take exactly one sheet
+    if (target) {
+      setSelectedSheets([name]);
+      return;
+    }
+    setSelectedSheets((prev) =>
+      prev.includes(name) ? prev.filter((s) => s !== name) : [...prev, name]
+    );
+  };
+
+  const updateColumn = (
+    sheetName: string,
+    source: string,
+    patch: Partial<ColumnMapping>
+  ) => {
+    setColumnsBySheet((prev) => ({
+      ...prev,
+      [sheetName]: (prev[sheetName] ?? []).map((c) =>
+        c.source === source ? { ...c, ...patch } : c
+      ),
+    }));
+  };
+
+  const resetForm = () => {
+    setTitle("");
+    setState(SURVEY_STATES[0]);
+    setFile(null);
+    setSheets([]);
+    setSelectedSheets([]);
+    setColumnsBySheet({});
+    setPreviewSheet("");
+    setDedupeKeys([]);
+  };
+
+  const toggleDedupeKey = (name: string) => {
+    setDedupeKeys((prev) =>
+      prev.includes(name) ? prev.filter((k) => k !== name) : [...prev, name]
+    );
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
-      // Check if file is Excel
+      // Check if file is Excel or CSV
       if (
-        !selectedFile.name.match(/\.(xlsx|xls)$/i)
+        !selectedFile.name.match(/\.(xlsx|xls|csv)$/i)
       ) {
-        setError("Please upload an Excel file (.xlsx or .xls)");
+        setError("Please upload an Excel or CSV file (.xlsx, .xls or .csv)");
         return;
       }
       setFile(selectedFile);
       setError(null);
+      inspectFile(selectedFile);
     }
   };
 
+  // Columns of the chosen sheet that can identify a repeated row
+  const keyOptions = (columnsBySheet[selectedSheets[0]] ?? [])
+    .filter((c) => c.include && c.name.trim())
+    .map((c) => c.name.trim());
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (!title.trim()) {
+    if (!target && !title.trim()) {
       setError("Please enter a survey title");
       return;
     }
@@ -56,13 +199,37 @@ export function UploadSurveyModal({
       return;
     }
 
+    if (sheets.length > 1 && selectedSheets.length === 0) {
+      setError("Please select at least one sheet to import");
+      return;
+    }
+
     setIsUploading(true);
 
     try {
       const formData = new FormData();
       formData.append("file", file);
-      formData.append("title", title);
-      formData.append("state", state);
+      if (target) {
+        formData.append("surveyId", target.id);
+        if (isAppend) {
+          formData.append("mode", "append");
+          keyOptions
+            .filter((k) => dedupeKeys.includes(k))
+            .forEach((k) => formData.append("dedupeKeys", k));
+        }
+      } else {
+        formData.append("title", title);
+        formData.append("state", state);
+      }
+      selectedSheets.forEach((name) => formData.append("sheets", name));
+      formData.append(
+        "columns",
+        JSON.stringify(
+          Object.fromEntries(
+            selectedSheets.map((name) => [name, columnsBySheet[name] ?? []])
+          )
+        )
+      );
 
       const response = await fetch("/api/survey/upload", {
         method: "POST",
@@ -74,10 +241,7 @@ export function UploadSurveyModal({
         throw new Error(errorData.error || "Failed to upload survey");
       }
 
-      // Reset form
-      setTitle("");
-      setState(SURVEY_STATES[0]);
-      setFile(null);
+      resetForm();
       onUploadSuccess();
       onClose();
     } catch (err) {
@@ -89,9 +253,7 @@ export function UploadSurveyModal({
 
   const handleClose = () => {
     if (!isUploading) {
-      setTitle("");
-      setState(SURVEY_STATES[0]);
-      setFile(null);
+      resetForm();
       setError(null);
       onClose();
     }
@@ -101,11 +263,19 @@ export function UploadSurveyModal({
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+      <div
+        className={`bg-white rounded-lg shadow-xl w-full mx-4 max-h-[90vh] overflow-y-auto ${
+          sheets.length > 0 ? "max-w-4xl" : "max-w-md"
+        }`}
+      >
         <div className="p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-gray-900">
-              Upload Survey
+              {isAppend
+                ? "Append to Survey"
+                : target
+                  ? "Upload New Revision"
+                  : "Upload Survey"}
             </h2>
             <button
               onClick={handleClose}
@@ -129,59 +299,71 @@ export function UploadSurveyModal({
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label
-                htmlFor="title"
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Survey Title
-              </label>
-              <input
-                type="text"
-                id="title"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                disabled={isUploading}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-                placeholder="Enter survey title"
-                required
-              />
-            </div>
+            {target ? (
+              <p className="text-sm text-gray-600">
+                {isAppend ? "New rows are added to " : "The file replaces the data of "}
+                <span className="font-semibold">{target.name}</span>
+                {isAppend
+                  ? ". Its columns must match the survey's columns."
+                  : " as a new revision. Earlier revisions are kept."}
+              </p>
+            ) : (
+              <>
+                <div>
+                  <label
+                    htmlFor="title"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Survey Title
+                  </label>
+                  <input
+                    type="text"
+                    id="title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    disabled={isUploading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    placeholder="Enter survey title"
+                    required
+                  />
+                </div>
 
-            <div>
-              <label
-                htmlFor="state"
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                State
-              </label>
-              <select
-                id="state"
-                value={state}
-                onChange={(e) => setState(e.target.value)}
-                disabled={isUploading}
-                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
-                required
-              >
-                {SURVEY_STATES.map((s) => (
-                  <option key={s} value={s}>
-                    {s}
-                  </option>
-                ))}
-              </select>
-            </div>
+                <div>
+                  <label
+                    htmlFor="state"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    State
+                  </label>
+                  <select
+                    id="state"
+                    value={state}
+                    onChange={(e) => setState(e.target.value)}
+                    disabled={isUploading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                    required
+                  >
+                    {SURVEY_STATES.map((s) => (
+                      <option key={s} value={s}>
+                        {s}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
 
             <div>
               <label
                 htmlFor="file"
                 className="block text-sm font-medium text-gray-700 mb-1"
               >
-                Excel File
+                Excel / CSV File
               </label>
               <input
                 type="file"
                 id="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv"
                 onChange={handleFileChange}
                 disabled={isUploading}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
@@ -190,8 +372,107 @@ export function UploadSurveyModal({
               {file && (
                 <p className="mt-1 text-sm text-gray-600">{file.name}</p>
               )}
+              {isInspecting && (
+                <p className="mt-1 text-sm text-gray-500">Reading sheets...</p>
+              )}
             </div>
 
+            {sheets.length > 1 && (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">
+                  Sheets to import
+                </span>
+                <p className="text-xs text-gray-500 mb-2">
+                  {isAppend
+                    ? "Pick the sheet that holds the new rows."
+                    : target
+                      ? "Pick the sheet that holds the corrected data."
+                      : "Each selected sheet is saved as its own survey."}
+                </p>
+                <div className="max-h-40 overflow-y-auto space-y-1 border border-gray-200 rounded-md p-2">
+                  {sheets.map((sheet) => (
+                    <label
+                      key={sheet.name}
+                      className="flex items-center gap-2 px-1 py-0.5 text-sm text-gray-700 rounded hover:bg-gray-50 cursor-pointer"
+                    >
+                      <input
+                        type={target ? "radio" : "checkbox"}
+                        checked={selectedSheets.includes(sheet.name)}
+                        onChange={() => toggleSheet(sheet.name)}
+                        disabled={isUploading}
+                        className="h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <span className="flex-1 truncate" title={sheet.name}>
+                        {sheet.name}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {sheet.numInstances} rows
+                      </span>
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPreviewSheet(sheet.name);
+                        }}
+                        className={`text-xs ${
+                          previewSheet === sheet.name
+                            ? "font-semibold text-emerald-700"
+                            : "text-emerald-600 hover:text-emerald-700"
+                        }`}
+                      >
+                        Columns
+                      </button>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {sheets
+              .filter((sheet) => sheet.name === previewSheet)
+              .map((sheet) => (
+                <ColumnMappingTable
+                  key={sheet.name}
+                  sheet={sheet}
+                  columns={columnsBySheet[sheet.name] ?? []}
+                  disabled={isUploading}
+                  onChange={(source, patch) =>
+                    updateColumn(sheet.name, source, patch)
+                  }
+                />
+              ))}
+
+            {isAppend && keyOptions.length > 0 && (
+              <div>
+                <span className="block text-sm font-medium text-gray-700 mb-1">
+                  De-duplicate on
+                </span>
+                <p className="text-xs text-gray-500 mb-2">
+                  Existing rows with the same values in these columns as an
+                  incoming row are replaced, and of incoming rows sharing
+                  them only the last is kept. Leave all unticked to use the
+                  survey&apos;s date and zone columns.
+                </p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {keyOptions.map((name) => (
+                    <label
+                      key={name}
+                      className="flex items-center gap-1.5 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={dedupeKeys.includes(name)}
+                        onChange={() => toggleDedupeKey(name)}
+                        disabled={isUploading}
+                        className="h-4 w-4 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      {name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 border border-red-200 rounded-md">
                 <p className="text-sm text-red-600">{error}</p>
@@ -209,10 +490,22 @@ export function UploadSurveyModal({
               </button>
               <button
                 type="submit"
-                disabled={isUploading || !file || !title.trim() || !state}
+                disabled={
+                  isUploading ||
+                  isInspecting ||
+                  !file ||
+                  (!target && (!title.trim() || !state)) ||
+                  (sheets.length > 1 && selectedSheets.length === 0)
+                }
                 className="flex-1 px-4 py-2 text-sm font-semibold text-white bg-emerald-600 rounded-md hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isUploading ? "Uploading..." : "Upload"}
+                {isUploading
+                  ? "Uploading..."
+                  : isAppend
+                    ? "Append rows"
+                    : target
+                      ? "Upload revision"
+                      : "Upload"}
               </button>
             </div>
           </form>
@@ -221,3 +514,120 @@ export function UploadSurveyModal({
     </div>
   );
 }
+
+// Preview of the first rows with per-column name, type and keep/drop controls
+function ColumnMappingTable({
+  sheet,
+  columns,
+  disabled,
+  onChange,
+}: {
+  sheet: SheetPreview;
+  columns: ColumnMapping[];
+  disabled: boolean;
+  onChange: (source: string, patch: Partial<ColumnMapping>) => void;
+}) {
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">
+        Columns{sheet.name ? ` — ${sheet.name}` : ""}
+      </span>
+      <p className="text-xs text-gray-500 mb-2">
+        Check the detected type and role of each column, rename it or untick
+        it to leave it out. Showing the first {sheet.rows.length} of{" "}
+        {sheet.numInstances} rows.
+      </p>
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              {columns.map((col) => (
+                <th
+                  key={col.source}
+                  className={`px-2 py-2 text-left align-top font-normal ${
+                    col.include ? "" : "opacity-50"
+                  }`}
+                >
+                  <div className="flex flex-col gap-1 min-w-[120px]">
+                    <label className="flex items-center gap-1 text-gray-500">
+                      <input
+                        type="checkbox"
+                        checked={col.include}
+                        onChange={(e) =>
+                          onChange(col.source, { include: e.target.checked })
+                        }
+                        disabled={disabled}
+                        className="h-3 w-3 rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <span className="truncate" title={col.source}>
+                        {col.source}
+                      </span>
+                    </label>
+                    <input
+                      type="text"
+                      value={col.name}
+                      onChange={(e) =>
+                        onChange(col.source, { name: e.target.value })
+                      }
+                      disabled={disabled || !col.include}
+                      className="w-full px-1.5 py-1 border border-gray-300 rounded text-xs text-gray-900 font-medium focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    />
+                    <select
+                      value={col.type}
+                      onChange={(e) =>
+                        onChange(col.source, {
+                          type: e.target.value as ColumnType,
+                        })
+                      }
+                      disabled={disabled || !col.include}
+                      className="w-full px-1 py-1 border border-gray-300 rounded text-xs text-gray-700 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    >
+                      {COLUMN_TYPES.map((t) => (
+                        <option key={t} value={t}>
+                          {COLUMN_TYPE_LABELS[t]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={col.role ?? ""}
+                      onChange={(e) =>
+                        onChange(col.source, {
+                          role: (e.target.value || null) as ColumnRole | null,
+                        })
+                      }
+                      disabled={disabled || !col.include}
+                      className="w-full px-1 py-1 border border-gray-300 rounded text-xs text-gray-700 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                    >
+                      <option value="">No role</option>
+                      {COLUMN_ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {COLUMN_ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row, i) => (
+              <tr key={i} className="border-t border-gray-100">
+                {columns.map((col) => (
+                  <td
+                    key={col.source}
+                    className={`px-2 py-1 text-gray-700 whitespace-nowrap ${
+                      col.include ? "" : "opacity-40"
+                    }`}
+                  >
+                    {row[col.source] == null ? "" : String(row[col.source])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React from "react";
+import { getCurrentUser } from "@/lib/sessions";
 import { ServeyLists } from "../components/ServeyLists";
 
-export default function ServeyListsPage() {
+export default async function ServeyListsPage() {
+  const user = await getCurrentUser();
+
   return (
     <main className="min-h-screen px-4 py-8">
       <div className="mx-auto w-full max-w-5xl space-y-6">
@@ -13,7 +16,7 @@ export default function ServeyListsPage() {
             </p>
           </div>
         </header>
-        <ServeyLists />
+        <ServeyLists role={user?.role} />
       </div>
     </main>
   );
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AUTH_EVENT_TYPES,
+  listAuthEvents,
+  type AuthEventType,
+} from "@/lib/authEvents";
+import { requireRole } from "@/lib/sessions";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+export async function GET(request: NextRequest) {
+  const admin = await requireRole(request, "admin");
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type") || undefined;
+    if (type && !AUTH_EVENT_TYPES.includes(type as AuthEventType)) {
+      return NextResponse.json({ error: "Invalid event type" }, { status: 400 });
+    }
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+    }
+
+    const events = await listAuthEvents({
+      type: type as AuthEventType | undefined,
+      username: searchParams.get("username") || undefined,
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("List auth events error:", error);
+    return NextResponse.json(
+      { error: "Failed to list auth events" },
+      { status: 500 }
+    );
+  }
+}
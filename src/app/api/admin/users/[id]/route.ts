@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeUserApiTokens } from "@/lib/apiTokens";
+import { requireRole, revokeUserSessions } from "@/lib/sessions";
+import {
+  toPublicUser,
+  updateUser,
+  UserError,
+  UserNotFoundError,
+  type UserUpdate,
+} from "@/lib/users";
+
+type RouteContext = {
+  params: Promise<{ id: string }> | { id: string };
+};
+
+/** Enable or disable a user, reset their password or change their role. */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const admin = await requireRole(request, "admin");
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { id } = await Promise.resolve(params);
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    const update: UserUpdate = {};
+    if (body.password !== undefined) update.password = body.password;
+    if (body.role !== undefined) update.role = body.role;
+    if (body.allowedStates !== undefined) {
+      update.allowedStates = body.allowedStates;
+    }
+    if (body.disabled !== undefined) {
+      if (typeof body.disabled !== "boolean") {
+        return NextResponse.json(
+          { error: "disabled must be true or false" },
+          { status: 400 }
+        );
+      }
+      update.disabled = body.disabled;
+    }
+    if (
+      id === admin.id &&
+      (update.disabled === true ||
+        (update.role !== undefined && update.role !== "admin"))
+    ) {
+      return NextResponse.json(
+        { error: "You cannot disable or demote your own account" },
+        { status: 400 }
+      );
+    }
+
+    const user = await updateUser(id, update);
+    // Disabling someone or resetting their password signs them out everywhere
+    if (
+      update.disabled === true ||
+      (update.password !== undefined && user.id !== admin.id)
+    ) {
+      await revokeUserSessions(user.id);
+    }
+    // A disabled user's API tokens go too, so re-enabling needs new ones
+    if (update.disabled === true) await revokeUserApiTokens(user.id);
+    return NextResponse.json({ user: toPublicUser(user) });
+  } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Update user error:", error);
+    return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/sessions";
+import { createUser, listUsers, toPublicUser, UserError } from "@/lib/users";
+
+export async function GET(request: NextRequest) {
+  const admin = await requireRole(request, "admin");
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users: users.map(toPublicUser) });
+  } catch (error) {
+    console.error("List users error:", error);
+    return NextResponse.json({ error: "Failed to list users" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const admin = await requireRole(request, "admin");
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const user = await createUser({
+      username: body.username,
+      password: body.password,
+      role: body.role,
+      allowedStates: body.allowedStates,
+    });
+    return NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create user error:", error);
+    return NextResponse.json({ error: "Failed to create user" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuditAction, listAudit, type AuditAction } from "@/lib/auditLog";
+import { requireRole } from "@/lib/sessions";
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/**
+ * Audit entries, newest first. Filters: user (username), action, from and
+ * to (ISO dates, inclusive) and limit.
+ */
+export async function GET(request: NextRequest) {
+  const admin = await requireRole(request, "admin");
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get("action") || undefined;
+    if (action && !isAuditAction(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+    const from = searchParams.get("from") || undefined;
+    const to = searchParams.get("to") || undefined;
+    for (const value of [from, to]) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return NextResponse.json(
+          { error: `Invalid date: ${value}` },
+          { status: 400 }
+        );
+      }
+    }
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+    }
+
+    const entries = await listAudit({
+      username: searchParams.get("user") || undefined,
+      action: action as AuditAction | undefined,
+      from,
+      to,
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("List audit entries error:", error);
+    return NextResponse.json(
+      { error: "Failed to list audit entries" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,132 @@
 import { NextRequest, NextResponse } from "next/server";
+import { clientIp, recordAuthEvent, UNKNOWN_IP } from "@/lib/authEvents";
+import {
+  abandonLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  startLoginAttempt,
+} from "@/lib/loginThrottle";
+import {
+  createSession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/lib/sessions";
+import { authenticate, UserError } from "@/lib/users";
 
-const COOKIE_NAME = "auth_session";
-const COOKIE_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
+// Longer values are not usernames; keep them out of the event log
+const MAX_LOGGED_USERNAME = 64;
+
+function invalidCredentials() {
+  return NextResponse.json(
+    { success: false, error: "Invalid username or password" },
+    { status: 401 }
+  );
+}
 
 export async function POST(request: NextRequest) {
+  const ip = clientIp(request);
   try {
     const body = await request.json();
     const { username, password } = body;
 
-    const expectedUsername = process.env.AUTH_USERNAME;
-    const expectedPassword = process.env.AUTH_PASSWORD;
-    const authSecret = process.env.AUTH_SECRET;
-    console.log(expectedUsername, expectedPassword, authSecret);
-
-    if (
-      !expectedUsername ||
-      !expectedPassword ||
-      !authSecret ||
-      username !== expectedUsername ||
-      password !== expectedPassword
-    ) {
+    if (!process.env.AUTH_SECRET) {
+      console.error("Login error: AUTH_SECRET is not set");
+      return NextResponse.json(
+        { success: false, error: "Sign-in is not configured" },
+        { status: 500 }
+      );
+    }
+    if (typeof username !== "string" || typeof password !== "string") {
+      return invalidCredentials();
+    }
+    const loggedUsername = username.trim().slice(0, MAX_LOGGED_USERNAME);
+
+    // Counted before the password is checked, so parallel guesses cannot
+    // all get past the lockout
+    const gate = startLoginAttempt(ip === UNKNOWN_IP ? null : ip, username);
+    if (!gate.allowed) {
+      await recordAuthEvent({
+        type: "login_locked",
+        ip,
+        username: loggedUsername,
+        reason: gate.reason === "ip" ? "IP locked out" : "Username locked out",
+      });
       return NextResponse.json(
-        { success: false, error: "Invalid username or password" },
-        { status: 401 }
+        {
+          success: false,
+          error: `Too many failed sign-in attempts. Try again in ${Math.ceil(
+            gate.retryAfterSeconds / 60
+          )} minute(s).`,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": String(gate.retryAfterSeconds) },
+        }
       );
     }
 
-    const response = NextResponse.json({ success: true });
-    response.cookies.set(COOKIE_NAME, authSecret, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: COOKIE_MAX_AGE,
-      path: "/",
-    });
-
-    return response;
-  } catch {
+    try {
+      const { user, knownUsername } = await authenticate(username, password);
+
+      if (!user) {
+        const locked = recordLoginFailure(gate.attempt, knownUsername);
+        await recordAuthEvent({
+          type: "login_failure",
+          ip,
+          username: loggedUsername,
+          reason: "Invalid username or password",
+        });
+        if (locked.usernameLocked || locked.ipLocked) {
+          await recordAuthEvent({
+            type: "login_locked",
+            ip,
+            username: loggedUsername,
+            reason: locked.ipLocked
+              ? "Too many failures from this IP"
+              : "Too many failures for this username",
+          });
+        }
+        return invalidCredentials();
+      }
+      if (user.disabled) {
+        await recordAuthEvent({
+          type: "login_failure",
+          ip,
+          username: user.username,
+          userId: user.id,
+          reason: "Account disabled",
+        });
+        return NextResponse.json(
+          { success: false, error: "This account has been disabled" },
+          { status: 403 }
+        );
+      }
+
+      recordLoginSuccess(gate.attempt);
+      await recordAuthEvent({
+        type: "login_success",
+        ip,
+        username: user.username,
+        userId: user.id,
+      });
+
+      const token = createSession(user.id);
+      const response = NextResponse.json({ success: true });
+      response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
+
+      return response;
+    } finally {
+      // Not counted when checking it failed; a no-op once recorded above
+      abandonLoginAttempt(gate.attempt);
+    }
+  } catch (error) {
+    // e.g. AUTH_PASSWORD is too short to become the first admin's password
+    if (error instanceof UserError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     return NextResponse.json(
       { success: false, error: "Invalid request" },
       { status: 400 }
@@ -1,15 +1,28 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { clientIp, recordAuthEvent } from "@/lib/authEvents";
+import {
+  getSessionUser,
+  revokeSession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/lib/sessions";
 
-const COOKIE_NAME = "auth_session";
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    const user = await getSessionUser(token);
+    await revokeSession(token);
+    if (user) {
+      await recordAuthEvent({
+        type: "logout",
+        ip: clientIp(request),
+        username: user.username,
+        userId: user.id,
+      });
+    }
+  }
 
-export async function POST() {
   const response = NextResponse.json({ success: true });
-  response.cookies.set(COOKIE_NAME, "", {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    maxAge: 0,
-    path: "/",
-  });
+  response.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
   return response;
 }
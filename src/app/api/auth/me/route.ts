@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser } from "@/lib/sessions";
+import { toPublicUser } from "@/lib/users";
+
+export async function GET(request: NextRequest) {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  return NextResponse.json({ user: toPublicUser(user) });
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { proxyGeoRequest } from "@/lib/geoProxy";
+
+// Any combination of state, yoe and value
+export async function GET(req: NextRequest) {
+  return proxyGeoRequest(req, "/search");
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import {
+  parsePartyRegistry,
+  PartyRegistryError,
+  readPartyRegistry,
+  savePartyRegistry,
+} from "@/lib/parties";
+import type { PartyRegistry } from "@/lib/partyRegistry";
+import { requireRole } from "@/lib/sessions";
+
+/** The party and alliance registry used by charts and maps. */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    return NextResponse.json({ registry: await readPartyRegistry() });
+  } catch (error) {
+    console.error("Read party registry error:", error);
+    return NextResponse.json(
+      { error: "Failed to read party registry" },
+      { status: 500 }
+    );
+  }
+}
+
+// Names of the parties and alliances added, changed or removed
+function changedNames(before: PartyRegistry, after: PartyRegistry) {
+  const diff = <T extends { id: string; name: string }>(a: T[], b: T[]) => {
+    const beforeById = new Map(a.map((item) => [item.id, JSON.stringify(item)]));
+    const afterIds = new Set(b.map((item) => item.id));
+    return {
+      added: b.filter((item) => !beforeById.has(item.id)).map((item) => item.name),
+      changed: b
+        .filter((item) => beforeById.has(item.id) && beforeById.get(item.id) !== JSON.stringify(item))
+        .map((item) => item.name),
+      removed: a.filter((item) => !afterIds.has(item.id)).map((item) => item.name),
+    };
+  };
+  return {
+    parties: diff(before.parties, after.parties),
+    alliances: diff(before.alliances, after.alliances),
+  };
+}
+
+/** Replace the registry with the one in the body. */
+export async function PUT(request: NextRequest) {
+  const user = await requireRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const registry = parsePartyRegistry(body?.registry);
+    const before = await savePartyRegistry(registry);
+    await recordAudit(user, "parties.update", "parties", changedNames(before, registry));
+    return NextResponse.json({ registry });
+  } catch (error) {
+    if (error instanceof PartyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Save party registry error:", error);
+    return NextResponse.json(
+      { error: "Failed to save party registry" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-
-const SURVEYS_DIR = path.join(process.cwd(), "data", "surveys");
-const INDEX_FILE = path.join(SURVEYS_DIR, "index.json");
+import {
+  applyDerivedMetrics,
+  DerivedMetricError,
+  parseDerivedMetric,
+} from "@/lib/derivedMetrics";
+import { surveyColumnsOf, type SurveySchema } from "@/lib/surveyColumns";
+import {
+  listSurveys,
+  readSurvey,
+  SurveyNotFoundError,
+} from "@/lib/surveyStore";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
 
 function isNumeric(value: unknown): value is number {
   return typeof value === "number" && Number.isFinite(value);
@@ -19,39 +27,50 @@ function excelSerialToYear(excelSerial: number): number | null {
   }
 }
 
-async function readIndex(): Promise<
-  { id: string; state: string }[]
-> {
-  try {
-    const content = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return [];
+// Uploads store typed date columns as ISO "YYYY-MM-DD" text; older uploads
+// kept the raw Excel serial
+function dateValueToYear(value: unknown): number | null {
+  if (isNumeric(value)) return excelSerialToYear(value);
+  if (typeof value === "string") {
+    const m = value.match(/^(\d{4})-\d{2}-\d{2}$/);
+    if (m) return parseInt(m[1], 10);
   }
+  return null;
 }
 
 export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const state = searchParams.get("state");
     const id = searchParams.get("id");
+    // Swing, lead and two-party columns to add, e.g. derived=lead:TDP1:YSRCP1
+    const derived = searchParams.getAll("derived").map(parseDerivedMetric);
     if (!state || !state.trim()) {
       return NextResponse.json(
         { error: "State query parameter is required" },
         { status: 400 }
       );
     }
+    if (!canAccessState(user.allowedStates, state)) {
+      return NextResponse.json(
+        { error: "You do not have access to this state" },
+        { status: 403 }
+      );
+    }
 
-    const index = await readIndex();
+    const index = await listSurveys();
     let idsForState: string[] = [];
     if (id && id.trim()) {
       // If an explicit id is provided, use only that one (if present in index)
       const found = index.find((e) => String(e.id) === id.trim());
-      if (found) {
+      if (found && canAccessState(user.allowedStates, found.state)) {
         idsForState = [String(found.id)];
       } else {
-        // id not found -> return empty rows
-        return NextResponse.json({ rows: [] });
+        // id not found or out of scope -> return empty rows
+        return NextResponse.json({ rows: [], schema: {} });
       }
     } else {
       idsForState = index
@@ -60,32 +79,41 @@ export async function GET(request: NextRequest) {
     }
 
     const allRows: Record<string, unknown>[] = [];
+    // Merged schema across the selected surveys; the first survey to define
+    // a column wins
+    const schema: SurveySchema = {};
     for (const id of idsForState) {
-      const surveyPath = path.join(SURVEYS_DIR, `${id}.json`);
       try {
-        const content = await fs.readFile(surveyPath, "utf-8");
-        const survey = JSON.parse(content);
-        const data = survey.data;
-        if (Array.isArray(data)) {
-          for (const row of data) {
-            const rowCopy = { ...row };
-            const dateValue = rowCopy["date"];
-            if (isNumeric(dateValue)) {
-              const year = excelSerialToYear(dateValue);
-              if (year !== null) {
-                rowCopy["Year"] = String(year);
-              }
-            }
-            allRows.push(rowCopy);
+        const { data, schema: surveySchema } = surveyColumnsOf(await readSurvey(id));
+        for (const [field, column] of Object.entries(surveySchema)) {
+          if (!schema[field]) schema[field] = column;
+        }
+        for (const row of data) {
+          const rowCopy = { ...row };
+          const year = dateValueToYear(rowCopy["date"]);
+          if (year !== null) {
+            rowCopy["Year"] = String(year);
           }
+          allRows.push(rowCopy);
         }
-      } catch {
-        // Skip missing or invalid survey file
+      } catch (err) {
+        // Skip surveys listed in the index whose record is missing
+        if (!(err instanceof SurveyNotFoundError)) throw err;
       }
     }
 
-    return NextResponse.json({ rows: allRows });
+    if (allRows.some((row) => row["Year"] !== undefined) && !schema["Year"]) {
+      schema["Year"] = { type: "category", unit: null, label: "Year", role: null };
+    }
+
+    if (derived.length > 0 && allRows.length > 0) {
+      return NextResponse.json(applyDerivedMetrics(allRows, schema, derived));
+    }
+    return NextResponse.json({ rows: allRows, schema });
   } catch (error) {
+    if (error instanceof DerivedMetricError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Fetch by-state error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCalculatedField } from "@/lib/calculatedFields";
+import { requireRole } from "@/lib/sessions";
+
+type RouteContext = {
+  params: Promise<{ id: string }> | { id: string };
+};
+
+/** Delete a calculated field; creators may delete their own, admins any. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await Promise.resolve(params);
+    if (!(await deleteCalculatedField(user, id))) {
+      return NextResponse.json({ error: "Calculated field not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete calculated field error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete calculated field" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CalculatedFieldError,
+  createCalculatedField,
+  listCalculatedFields,
+} from "@/lib/calculatedFields";
+import { hasRole } from "@/lib/roles";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
+
+/** Calculated fields of a state, plus those of one survey with ?survey=. */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get("state")?.trim();
+    if (!state) {
+      return NextResponse.json(
+        { error: "State query parameter is required" },
+        { status: 400 }
+      );
+    }
+    if (!canAccessState(user.allowedStates, state)) {
+      return NextResponse.json(
+        { error: "You do not have access to this state" },
+        { status: 403 }
+      );
+    }
+    const fields = await listCalculatedFields(state, searchParams.get("survey") || null);
+    return NextResponse.json({
+      fields: fields.map((f) => ({
+        ...f,
+        canDelete: f.createdById === user.id || user.role === "admin",
+      })),
+      canCreate: hasRole(user.role, "analyst"),
+    });
+  } catch (error) {
+    console.error("List calculated fields error:", error);
+    return NextResponse.json(
+      { error: "Failed to list calculated fields" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const field = await createCalculatedField(user, {
+      name: body.name,
+      formula: body.formula,
+      state: body.state,
+      surveyId: body.surveyId,
+    });
+    return NextResponse.json({ field }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CalculatedFieldError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create calculated field error:", error);
+    return NextResponse.json(
+      { error: "Failed to save calculated field" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/auditLog";
+import {
+  describePrefChanges,
+  describePrefTarget,
+  parsePrefTarget,
+  publishUserPrefs,
+  ReportPrefsError,
+} from "@/lib/reportPrefs";
+import { requireRole } from "@/lib/sessions";
+
+/**
+ * Make the admin's own preferences at `scope` the team default, for
+ * everyone who has not overridden them.
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const target = parsePrefTarget(body.scope, {
+      state: typeof body.state === "string" ? body.state : null,
+      surveyId: typeof body.surveyId === "string" ? body.surveyId : null,
+    });
+    const { before, after } = await publishUserPrefs(user.id, target);
+
+    const changes = describePrefChanges(before, after);
+    if (Object.keys(changes).length > 0) {
+      await recordAudit(user, "reports.field_colors", describePrefTarget(target), {
+        layer: "team",
+        ...changes,
+      });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof ReportPrefsError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Publish field colors error:", err);
+    return NextResponse.json(
+      { error: "Failed to publish field colors" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { recordAudit } from "@/lib/auditLog";
+import {
+  describePrefChanges,
+  describePrefTarget,
+  isValidFieldColors,
+  isValidShowCurve,
+  parsePrefTarget,
+  ReportPrefsError,
+  resetUserPrefs,
+  resolvePrefs,
+  saveUserPrefs,
+  type PrefContext,
+} from "@/lib/reportPrefs";
+import { hasRole } from "@/lib/roles";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
 
-const FIELD_COLORS_FILE = path.join(
-  process.cwd(),
-  "data",
-  "reports-field-colors.json"
-);
-
-function isValidFieldColors(obj: unknown): obj is Record<string, string> {
-  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return false;
-  return Object.values(obj).every(
-    (v) => typeof v === "string" && /^#[0-9a-fA-F]{6}$/.test(v)
-  );
-}
-
-function isValidShowCurve(obj: unknown): obj is Record<string, boolean> {
-  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return false;
-  return Object.values(obj).every((v) => typeof v === "boolean");
+function contextFrom(searchParams: URLSearchParams): PrefContext {
+  return {
+    state: searchParams.get("state") || null,
+    surveyId: searchParams.get("survey") || null,
+  };
 }
 
-type StoredPrefs = {
-  fieldColors?: Record<string, string>;
-  vizShowCurve?: Record<string, boolean>;
-};
+/** The signed-in user's chart preferences for a state and survey. */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
-async function readStored(): Promise<StoredPrefs> {
   try {
-    const content = await fs.readFile(FIELD_COLORS_FILE, "utf-8");
-    const parsed = JSON.parse(content) as unknown;
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      return {};
-    }
-    const obj = parsed as Record<string, unknown>;
-    // New format: { fieldColors, vizShowCurve }
-    if (obj.fieldColors !== undefined || obj.vizShowCurve !== undefined) {
-      return {
-        fieldColors: isValidFieldColors(obj.fieldColors) ? obj.fieldColors : {},
-        vizShowCurve: isValidShowCurve(obj.vizShowCurve) ? obj.vizShowCurve : {},
-      };
-    }
-    // Legacy format: file is directly fieldColors
-    if (isValidFieldColors(parsed)) {
-      return { fieldColors: parsed, vizShowCurve: {} };
-    }
-    return {};
-  } catch (err: unknown) {
-    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
-      return {};
-    }
-    throw err;
-  }
-}
-
-export async function GET() {
-  try {
-    const prefs = await readStored();
+    const prefs = await resolvePrefs(user.id, contextFrom(request.nextUrl.searchParams));
     return NextResponse.json({
-      fieldColors: prefs.fieldColors ?? {},
-      vizShowCurve: prefs.vizShowCurve ?? {},
+      ...prefs,
+      canEdit: hasRole(user.role, "analyst"),
+      canPublish: user.role === "admin",
     });
   } catch (err: unknown) {
-    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") {
-      return NextResponse.json({ fieldColors: {} });
-    }
     console.error("Read field colors error:", err);
     return NextResponse.json(
       {
@@ -75,7 +47,14 @@ export async function GET() {
   }
 }
 
+/**
+ * Save the user's own preferences. The body carries what the chart shows
+ * now; `scope` (all, state or survey) picks the layer that changes.
+ */
 export async function PUT(request: NextRequest) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = (await request.json()) as unknown;
     if (!body || typeof body !== "object" || Array.isArray(body)) {
@@ -85,8 +64,8 @@ export async function PUT(request: NextRequest) {
       );
     }
     const obj = body as Record<string, unknown>;
-    let fieldColors: Record<string, string> | null = null;
-    let vizShowCurve: Record<string, boolean> | null = null;
+    let fieldColors: Record<string, string> | undefined;
+    let vizShowCurve: Record<string, boolean> | undefined;
 
     // Support legacy format: body is directly fieldColors
     if (isValidFieldColors(body)) {
@@ -112,23 +91,31 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    const existing: StoredPrefs = await readStored().catch(
-      (): StoredPrefs => ({})
-    );
-    const merged: StoredPrefs = {
-      fieldColors: fieldColors ?? existing.fieldColors ?? {},
-      vizShowCurve: vizShowCurve ?? existing.vizShowCurve ?? {},
+    const context: PrefContext = {
+      state: typeof obj.state === "string" ? obj.state : null,
+      surveyId: typeof obj.surveyId === "string" ? obj.surveyId : null,
     };
-
-    const dir = path.dirname(FIELD_COLORS_FILE);
-    await fs.mkdir(dir, { recursive: true });
-    await fs.writeFile(
-      FIELD_COLORS_FILE,
-      JSON.stringify(merged, null, 2),
-      "utf-8"
-    );
+    if (context.state && !canAccessState(user.allowedStates, context.state)) {
+      return NextResponse.json(
+        { error: "You do not have access to this state" },
+        { status: 403 }
+      );
+    }
+    const target = parsePrefTarget(obj.scope, context);
+    const { before, after } = await saveUserPrefs(user.id, target, context, {
+      fieldColors,
+      vizShowCurve,
+    });
+    // Every save is recorded, with what it changed in the user's own layer
+    await recordAudit(user, "reports.field_colors", describePrefTarget(target), {
+      layer: "user",
+      ...describePrefChanges(before, after),
+    });
     return NextResponse.json({ ok: true });
   } catch (err) {
+    if (err instanceof ReportPrefsError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
     console.error("Save field colors error:", err);
     return NextResponse.json(
       {
@@ -139,3 +126,25 @@ export async function PUT(request: NextRequest) {
     );
   }
 }
+
+/** Drop the user's own preferences at ?scope=, going back to the team default. */
+export async function DELETE(request: NextRequest) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const target = parsePrefTarget(searchParams.get("scope"), contextFrom(searchParams));
+    await resetUserPrefs(user.id, target);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof ReportPrefsError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error("Reset field colors error:", err);
+    return NextResponse.json(
+      { error: "Failed to reset field colors" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,18 @@
-import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { listSurveyStates } from "@/lib/surveyStore";
+import { requireRole } from "@/lib/sessions";
+import { filterByState } from "@/lib/stateAccess";
 
-const INDEX_FILE = path.join(process.cwd(), "data", "surveys", "index.json");
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
-async function readIndex(): Promise<{ state: string }[]> {
   try {
-    const content = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return [];
-  }
-}
-
-export async function GET() {
-  try {
-    const index = await readIndex();
-    const stateSet = new Set<string>();
-    for (const entry of index) {
-      if (entry.state && String(entry.state).trim()) {
-        stateSet.add(String(entry.state).trim());
-      }
-    }
-    const states = Array.from(stateSet).sort();
+    const states = filterByState(
+      user.allowedStates,
+      await listSurveyStates(),
+      (s) => s
+    );
     return NextResponse.json({ states });
   } catch (error) {
     console.error("Fetch states error:", error);
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSavedView } from "@/lib/savedViews";
+import { requireRole } from "@/lib/sessions";
+
+type RouteContext = {
+  params: Promise<{ id: string }> | { id: string };
+};
+
+/** Delete a saved view; owners may delete their own, admins any. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await Promise.resolve(params);
+    if (!(await deleteSavedView(user, id))) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Delete saved view error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSavedView, listSavedViews, SavedViewError } from "@/lib/savedViews";
+import { requireRole } from "@/lib/sessions";
+
+/** Saved report views for the states the user may see. */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const views = await listSavedViews(user.allowedStates);
+    return NextResponse.json({
+      views: views.map((v) => ({
+        ...v,
+        canDelete: v.ownerId === user.id || user.role === "admin",
+      })),
+    });
+  } catch (error) {
+    console.error("List saved views error:", error);
+    return NextResponse.json(
+      { error: "Failed to list saved views" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const view = await createSavedView(user, { name: body.name, view: body.view });
+    return NextResponse.json({ view }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SavedViewError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create saved view error:", error);
+    return NextResponse.json(
+      { error: "Failed to save view" },
+      { status: 500 }
+    );
+  }
+}
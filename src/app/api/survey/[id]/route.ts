@@ -1,53 +1,213 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { surveyColumnsOf } from "@/lib/surveyColumns";
+import {
+  deleteSurvey,
+  listRevisions,
+  readSurvey,
+  readSurveyRevision,
+  sanitizeId,
+  surveyRevision,
+  SurveyNotFoundError,
+  updateSurveyMeta,
+  type SurveyMetaUpdate,
+} from "@/lib/surveyStore";
+import { recordAudit } from "@/lib/auditLog";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
 
-const SURVEYS_DIR = path.join(process.cwd(), "data", "surveys");
+type RouteContext = {
+  params: Promise<{ id: string }> | { id: string };
+};
 
-function sanitizeId(id: string): string {
-  // Allow only alphanumeric, hyphen; prevent path traversal
-  return id.replace(/[^a-zA-Z0-9-]/g, "");
+async function resolveSurveyId(
+  params: RouteContext["params"]
+): Promise<string | null> {
+  const rawId = (await Promise.resolve(params)).id;
+  const surveyId = sanitizeId(rawId);
+  return surveyId === rawId ? surveyId : null;
 }
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> | { id: string } }
-) {
+function notFound() {
+  return NextResponse.json({ error: "Survey not found" }, { status: 404 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
+
   try {
-    const resolvedParams = await Promise.resolve(params);
-    const rawId = resolvedParams.id;
-    const surveyId = sanitizeId(rawId);
-    if (surveyId !== rawId) {
+    const surveyId = await resolveSurveyId(params);
+    if (!surveyId) {
       return NextResponse.json({ error: "Invalid survey id" }, { status: 400 });
     }
 
-    const surveyPath = path.join(SURVEYS_DIR, `${surveyId}.json`);
+    // ?rev= selects an earlier revision; without it the latest is returned
+    const revParam = request.nextUrl.searchParams.get("rev");
+    let revision: number | null = null;
+    if (revParam) {
+      revision = Number(revParam);
+      if (!Number.isInteger(revision) || revision < 1) {
+        return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+      }
+    }
+
+    const latest = await readSurvey(surveyId);
+    // Out-of-scope surveys look the same as missing ones
+    if (!canAccessState(user.allowedStates, latest.state)) return notFound();
+    const survey =
+      revision === null ? latest : await readSurveyRevision(latest, revision);
+    const revisions = listRevisions(latest);
+    const { variablesList, data, schema } = surveyColumnsOf(survey);
+    return NextResponse.json({
+      id: survey.id,
+      title: survey.title,
+      state: survey.state,
+      notes: survey.notes ?? "",
+      sheetName: survey.sheetName,
+      fileName: survey.fileName,
+      uploadedAt: survey.uploadedAt,
+      revision: surveyRevision(survey),
+      latestRevision: revisions[0].revision,
+      revisions,
+      variablesList,
+      schema,
+      data,
+      numVariables: survey.numVariables,
+      numInstances: survey.numInstances,
+    });
+  } catch (error) {
+    if (error instanceof SurveyNotFoundError) return notFound();
+    console.error("Fetch survey error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch survey",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const surveyId = await resolveSurveyId(params);
+    if (!surveyId) {
+      return NextResponse.json({ error: "Invalid survey id" }, { status: 400 });
+    }
+
+    let body: Record<string, unknown>;
     try {
-      const content = await fs.readFile(surveyPath, "utf-8");
-      const survey = JSON.parse(content);
-      return NextResponse.json({
-        id: survey.id,
-        title: survey.title,
-        state: survey.state,
-        variablesList: survey.variablesList || [],
-        data: survey.data || [],
-        numVariables: survey.numVariables,
-        numInstances: survey.numInstances,
-      });
+      body = await request.json();
     } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const update: SurveyMetaUpdate = {};
+    if (body.title !== undefined) {
+      const title = typeof body.title === "string" ? body.title.trim() : "";
+      if (!title) {
+        return NextResponse.json(
+          { error: "Survey title is required" },
+          { status: 400 }
+        );
+      }
+      update.title = title;
+    }
+    if (body.state !== undefined) {
+      const state = typeof body.state === "string" ? body.state.trim() : "";
+      if (!state) {
+        return NextResponse.json(
+          { error: "State is required" },
+          { status: 400 }
+        );
+      }
+      update.state = state;
+    }
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== "string") {
+        return NextResponse.json(
+          { error: "Notes must be text" },
+          { status: 400 }
+        );
+      }
+      update.notes = body.notes.trim();
+    }
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to update: send title, state or notes" },
+        { status: 400 }
+      );
+    }
+
+    if (update.state && !canAccessState(user.allowedStates, update.state)) {
       return NextResponse.json(
-        { error: "Survey not found" },
-        { status: 404 }
+        { error: "You do not have access to this state" },
+        { status: 403 }
       );
     }
+
+    const survey = await updateSurveyMeta(surveyId, update, (previous) => {
+      if (!canAccessState(user.allowedStates, previous.state)) {
+        throw new SurveyNotFoundError(surveyId);
+      }
+    });
+    await recordAudit(user, "survey.edit", survey.id, { ...update });
+    return NextResponse.json({
+      success: true,
+      survey: {
+        id: survey.id,
+        title: survey.title,
+        state: survey.state,
+        notes: survey.notes ?? "",
+      },
+    });
   } catch (error) {
-    console.error("Fetch survey error:", error);
+    if (error instanceof SurveyNotFoundError) return notFound();
+    console.error("Update survey error:", error);
     return NextResponse.json(
       {
         error:
           error instanceof Error
             ? error.message
-            : "Failed to fetch survey",
+            : "Failed to update survey",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const surveyId = await resolveSurveyId(params);
+    if (!surveyId) {
+      return NextResponse.json({ error: "Invalid survey id" }, { status: 400 });
+    }
+
+    const { title, state } = await readSurvey(surveyId);
+    if (!canAccessState(user.allowedStates, state)) return notFound();
+    await deleteSurvey(surveyId);
+    await recordAudit(user, "survey.delete", surveyId, { title, state });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SurveyNotFoundError) return notFound();
+    console.error("Delete survey error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to delete survey",
       },
       { status: 500 }
     );
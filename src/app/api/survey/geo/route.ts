@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Pool } from "pg";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
 
 const pool = new Pool({
   connectionString:
@@ -9,6 +11,9 @@ const pool = new Pool({
 });
 
 export async function GET(req: NextRequest) {
+  const user = await requireRole(req, "viewer");
+  if (user instanceof NextResponse) return user;
+
   const { searchParams } = new URL(req.url);
 
   const state = searchParams.get("state");
@@ -16,6 +21,13 @@ export async function GET(req: NextRequest) {
   const fromDate = searchParams.get("fromDate");
   const toDate = searchParams.get("toDate");
 
+  if (state && !canAccessState(user.allowedStates, state)) {
+    return NextResponse.json(
+      { error: "You do not have access to this state" },
+      { status: 403 }
+    );
+  }
+
   let query = `
     SELECT id, state, yoe, location, pincode, date, value,
            district, latitude, longitude, geom
@@ -23,12 +35,15 @@ export async function GET(req: NextRequest) {
     WHERE 1=1
   `;
 
-  const values: (string | number)[] = [];
+  const values: (string | number | string[])[] = [];
   let index = 1;
 
   if (state) {
     query += ` AND state = $${index++}`;
     values.push(state);
+  } else if (user.allowedStates) {
+    query += ` AND lower(trim(state)) = ANY($${index++})`;
+    values.push(user.allowedStates.map((s) => s.trim().toLowerCase()));
   }
 
   if (yoe) {
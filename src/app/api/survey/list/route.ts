@@ -1,30 +1,26 @@
-import { NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { listSurveys } from "@/lib/surveyStore";
+import { requireRole } from "@/lib/sessions";
+import { filterByState } from "@/lib/stateAccess";
 
-const SURVEYS_DIR = path.join(process.cwd(), "data", "surveys");
-const INDEX_FILE = path.join(SURVEYS_DIR, "index.json");
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "analyst");
+  if (user instanceof NextResponse) return user;
 
-async function readIndex(): Promise<
-  { id: string; title: string; state: string; uploadedAt: string; numInstances: number; numVariables: number }[]
-> {
   try {
-    const content = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return [];
-  }
-}
-
-export async function GET() {
-  try {
-    const index = await readIndex();
+    const index = filterByState(
+      user.allowedStates,
+      await listSurveys(),
+      (e) => e.state
+    );
 
     const surveysList = index.map((entry) => ({
       id: entry.id,
       name: entry.title,
       description: `Survey with ${entry.numVariables} variables and ${entry.numInstances} instances`,
       state: entry.state,
+      notes: entry.notes ?? "",
+      revision: entry.revision ?? 1,
       responses: entry.numInstances,
       updatedAt: new Date(entry.uploadedAt).toLocaleDateString(),
       uploadedAt: entry.uploadedAt,
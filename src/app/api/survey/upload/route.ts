@@ -1,61 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
-import { promises as fs } from "fs";
-import path from "path";
-
-const DATA_DIR = path.join(process.cwd(), "data");
-const SURVEYS_DIR = path.join(DATA_DIR, "surveys");
-const INDEX_FILE = path.join(SURVEYS_DIR, "index.json");
-
-type SurveyIndexEntry = {
-  id: string;
-  title: string;
-  state: string;
-  uploadedAt: string;
-  numInstances: number;
-  numVariables: number;
-};
-
-// Ensure surveys directory exists
-async function ensureSurveysDir() {
-  try {
-    await fs.access(SURVEYS_DIR);
-  } catch {
-    await fs.mkdir(SURVEYS_DIR, { recursive: true });
-  }
-}
-
-// Read survey index
-async function readIndex(): Promise<SurveyIndexEntry[]> {
-  try {
-    await ensureSurveysDir();
-    const content = await fs.readFile(INDEX_FILE, "utf-8");
-    return JSON.parse(content);
-  } catch {
-    return [];
-  }
-}
+import {
+  isSupportedSurveyFile,
+  MAX_SURVEY_FILE_BYTES,
+  parseSurveyFile,
+  type ParsedSheet,
+  SurveyParseError,
+} from "@/lib/surveyParser";
+import {
+  applyColumnMappings,
+  buildSurveySchema,
+  compareSurveyColumns,
+  defaultDedupeKeys,
+  inferColumnMappings,
+  inferSurveySchema,
+  mappingsFromSchema,
+  mergeSurveyRows,
+  normalizeSurveyRows,
+  parseColumnMappingsBySheet,
+  validateColumnMappings,
+  type ColumnMapping,
+  type SurveySchema,
+} from "@/lib/surveyColumns";
+import {
+  addSurveyRevision,
+  createSurveys,
+  generateId,
+  readSurvey,
+  sanitizeId,
+  SurveyNotFoundError,
+  type SurveyRecord,
+  type SurveyRevisionUpload,
+} from "@/lib/surveyStore";
+import { recordAudit } from "@/lib/auditLog";
+import { requireRole } from "@/lib/sessions";
+import { canAccessState } from "@/lib/stateAccess";
 
-// Write survey index
-async function writeIndex(entries: SurveyIndexEntry[]) {
-  await ensureSurveysDir();
-  await fs.writeFile(
-    INDEX_FILE,
-    JSON.stringify(entries, null, 2),
-    "utf-8"
-  );
-}
+const DEFAULT_PREVIEW_ROWS = 10;
+const MAX_PREVIEW_ROWS = 100;
 
-// Generate unique ID
-function generateId(): string {
-  return `survey-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
+// Appended rows that do not fit the survey; answered with 400
+class AppendError extends Error {}
 
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
     const title = formData.get("title") as string;
     const state = (formData.get("state") as string)?.trim() || "";
+    const mode = formData.get("mode");
+    // Uploading against an existing survey id stores a new revision of it;
+    // in append mode the new revision holds the old rows plus the new ones
+    const reviseId = String(formData.get("surveyId") ?? "").trim();
+    const isAppend =
+      mode === "append" || (mode === "preview" && formData.get("target") === "append");
 
     if (!file) {
       return NextResponse.json(
@@ -64,83 +64,319 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!title || !title.trim()) {
+    if (!isSupportedSurveyFile(file.name)) {
+      return NextResponse.json(
+        { error: "Please upload an Excel or CSV file (.xlsx, .xls or .csv)" },
+        { status: 400 }
+      );
+    }
+
+    // Checked before the file is read into memory
+    if (file.size > MAX_SURVEY_FILE_BYTES) {
+      return NextResponse.json(
+        {
+          error: `The file is too large; the limit is ${
+            MAX_SURVEY_FILE_BYTES / (1024 * 1024)
+          } MB`,
+        },
+        { status: 413 }
+      );
+    }
+
+    const workbook = parseSurveyFile(await file.arrayBuffer(), file.name);
+    if (workbook.sheets.length === 0) {
+      return NextResponse.json(
+        { error: "The uploaded file has no sheets" },
+        { status: 400 }
+      );
+    }
+
+    if (reviseId && sanitizeId(reviseId) !== reviseId) {
+      return NextResponse.json({ error: "Invalid survey id" }, { status: 400 });
+    }
+    const existing = reviseId ? await readSurvey(reviseId) : null;
+    // Surveys of other states look the same as missing ones
+    if (existing && !canAccessState(user.allowedStates, existing.state)) {
+      throw new SurveyNotFoundError(reviseId);
+    }
+    if (state && !canAccessState(user.allowedStates, state)) {
+      return NextResponse.json(
+        { error: "You do not have access to this state" },
+        { status: 403 }
+      );
+    }
+    const existingSchema = existing
+      ? existing.schema ??
+        inferSurveySchema(existing.variablesList, existing.data)
+      : null;
+    // New revisions and appended rows start from the survey's own columns
+    const defaultMappings = (sheet: ParsedSheet) =>
+      existingSchema
+        ? mappingsFromSchema(sheet, existingSchema)
+        : inferColumnMappings(sheet);
+
+    // Preview mode: list the sheets with their first rows and inferred
+    // column types so the user can pick sheets and adjust columns
+    if (mode === "preview") {
+      const requestedRows = parseInt(String(formData.get("previewRows")), 10);
+      const previewRows = Math.min(
+        requestedRows > 0 ? requestedRows : DEFAULT_PREVIEW_ROWS,
+        MAX_PREVIEW_ROWS
+      );
+      return NextResponse.json({
+        fileName: workbook.fileName,
+        sheets: workbook.sheets.map((s) => ({
+          name: s.name,
+          numInstances: s.numInstances,
+          numVariables: s.numVariables,
+          columns: defaultMappings(s),
+          rows: s.data.slice(0, previewRows),
+        })),
+      });
+    }
+
+    if (isAppend && !reviseId) {
+      return NextResponse.json(
+        { error: "Choose the survey to append to" },
+        { status: 400 }
+      );
+    }
+
+    if (!reviseId && (!title || !title.trim())) {
       return NextResponse.json(
         { error: "Survey title is required" },
         { status: 400 }
       );
     }
 
-    if (!state) {
+    if (!reviseId && !state) {
       return NextResponse.json(
         { error: "State is required" },
         { status: 400 }
       );
     }
 
-    // Create FormData for backend API
-    const backendFormData = new FormData();
-    backendFormData.append("file", file);
+    // Default to the first sheet with data when no sheets were chosen
+    const requestedSheets = Array.from(
+      new Set(formData.getAll("sheets").map((v) => String(v)).filter(Boolean))
+    );
+    const sheets: ParsedSheet[] = [];
+    if (requestedSheets.length === 0) {
+      sheets.push(
+        workbook.sheets.find((s) => s.numInstances > 0) ?? workbook.sheets[0]
+      );
+    }
+    for (const name of requestedSheets) {
+      const found = workbook.sheets.find((s) => s.name === name);
+      if (!found) {
+        return NextResponse.json(
+          { error: `Sheet not found: ${name}` },
+          { status: 400 }
+        );
+      }
+      sheets.push(found);
+    }
 
-    // Upload to backend API
-    const backendResponse = await fetch(
-      "http://localhost:5000/api/survey/upload",
-      {
-        method: "POST",
-        body: backendFormData,
+    let columnsBySheet: Record<string, ColumnMapping[]> = {};
+    const columnsField = formData.get("columns");
+    if (typeof columnsField === "string" && columnsField.trim()) {
+      let parsed: Record<string, ColumnMapping[]> | null = null;
+      try {
+        parsed = parseColumnMappingsBySheet(JSON.parse(columnsField));
+      } catch {
+        // reported below
       }
-    );
+      if (!parsed) {
+        return NextResponse.json(
+          { error: "Invalid column mapping" },
+          { status: 400 }
+        );
+      }
+      columnsBySheet = parsed;
+    }
 
-    if (!backendResponse.ok) {
-      const errorText = await backendResponse.text();
-      return NextResponse.json(
-        { error: `Backend API error: ${errorText}` },
-        { status: backendResponse.status }
+    // Fix column names and types once at ingest; sheets without an explicit
+    // mapping use the inferred types (or the existing survey's)
+    const mappedSheets: { sheet: ParsedSheet; schema: SurveySchema }[] = [];
+    for (const sheet of sheets) {
+      const mappings = Array.isArray(columnsBySheet[sheet.name])
+        ? columnsBySheet[sheet.name]
+        : defaultMappings(sheet);
+      const mappingError = validateColumnMappings(sheet, mappings);
+      if (mappingError) {
+        return NextResponse.json(
+          { error: `${sheet.name}: ${mappingError}` },
+          { status: 400 }
+        );
+      }
+      mappedSheets.push({
+        sheet: applyColumnMappings(sheet, mappings),
+        schema: buildSurveySchema(mappings),
+      });
+    }
+
+    const uploadedAt = new Date().toISOString();
+
+    if (reviseId) {
+      if (mappedSheets.length !== 1) {
+        return NextResponse.json(
+          {
+            error: isAppend
+              ? "Choose a single sheet to append"
+              : "Choose a single sheet for a new revision",
+          },
+          { status: 400 }
+        );
+      }
+      const { sheet, schema } = mappedSheets[0];
+      const revisionUpload: SurveyRevisionUpload = {
+        fileName: workbook.fileName,
+        sheetName: sheet.name,
+        uploadedAt,
+        numVariables: sheet.numVariables,
+        variablesList: sheet.variablesList,
+        schema,
+        numInstances: sheet.numInstances,
+        data: sheet.data,
+      };
+      let upload:
+        | SurveyRevisionUpload
+        | ((previous: SurveyRecord) => SurveyRevisionUpload) = revisionUpload;
+      let appendMessage = "";
+
+      if (isAppend) {
+        const requestedKeys = formData
+          .getAll("dedupeKeys")
+          .map((v) => String(v))
+          .filter(Boolean);
+        // Merged against the survey as stored when the lock is held, so
+        // rows appended meanwhile by someone else are kept
+        upload = (previous) => {
+          const previousSchema =
+            previous.schema ??
+            inferSurveySchema(previous.variablesList, previous.data);
+          const current = normalizeSurveyRows(
+            previous.variablesList,
+            previous.data,
+            previousSchema
+          );
+          const columnError = compareSurveyColumns(
+            current.variablesList,
+            sheet.variablesList
+          );
+          if (columnError) throw new AppendError(columnError);
+          const unknownKey = requestedKeys.find(
+            (k) => !current.variablesList.includes(k)
+          );
+          if (unknownKey) {
+            throw new AppendError(`Unknown de-duplication column "${unknownKey}"`);
+          }
+          const keys =
+            requestedKeys.length > 0
+              ? requestedKeys
+              : defaultDedupeKeys(previousSchema);
+          const merged = mergeSurveyRows(current.data, sheet.data, keys);
+          appendMessage = `${merged.added} rows added, ${merged.replaced} existing rows replaced`;
+          if (merged.duplicates > 0) {
+            appendMessage += `, ${merged.duplicates} repeated rows in the file skipped`;
+          }
+          return {
+            ...revisionUpload,
+            // Keep the survey's column order and schema for the combined rows
+            variablesList: current.variablesList,
+            numVariables: current.variablesList.length,
+            schema: previousSchema,
+            numInstances: merged.data.length,
+            data: merged.data,
+          };
+        };
+      }
+
+      const survey = await addSurveyRevision(
+        reviseId,
+        upload,
+        {
+          ...(title?.trim() ? { title: title.trim() } : {}),
+          ...(state ? { state } : {}),
+        }
       );
+      await recordAudit(
+        user,
+        isAppend ? "survey.append" : "survey.revision",
+        survey.id,
+        {
+          title: survey.title,
+          revision: survey.revision,
+          fileName: survey.fileName,
+          sheetName: survey.sheetName,
+          numInstances: survey.numInstances,
+          ...(appendMessage ? { result: appendMessage } : {}),
+        }
+      );
+      return NextResponse.json({
+        success: true,
+        surveyId: survey.id,
+        surveyIds: [survey.id],
+        revision: survey.revision,
+        numInstances: survey.numInstances,
+        message: appendMessage
+          ? `Appended to revision ${survey.revision}: ${appendMessage}`
+          : `Revision ${survey.revision} uploaded successfully`,
+      });
     }
 
-    const backendData = await backendResponse.json();
-    const surveyId = generateId();
-
-    const surveyRecord = {
-      id: surveyId,
-      title: title.trim(),
-      state,
-      fileName: backendData.fileName,
-      uploadedAt: new Date().toISOString(),
-      numVariables: backendData.numVariables ?? 0,
-      variablesList: backendData.variablesList ?? [],
-      numInstances: backendData.numInstances ?? 0,
-      data: backendData.data ?? [],
-    };
-
-    // Save this upload to its own file
-    await ensureSurveysDir();
-    const surveyPath = path.join(SURVEYS_DIR, `${surveyId}.json`);
-    await fs.writeFile(
-      surveyPath,
-      JSON.stringify(surveyRecord, null, 2),
-      "utf-8"
-    );
+    const records: SurveyRecord[] = [];
+    for (const { sheet, schema } of mappedSheets) {
+      const surveyId = generateId();
+      const surveyRecord: SurveyRecord = {
+        id: surveyId,
+        // Each imported sheet becomes its own survey, so name it after the sheet
+        title:
+          mappedSheets.length > 1
+            ? `${title.trim()} - ${sheet.name}`
+            : title.trim(),
+        state,
+        fileName: workbook.fileName,
+        sheetName: sheet.name,
+        uploadedAt,
+        numVariables: sheet.numVariables,
+        variablesList: sheet.variablesList,
+        schema,
+        numInstances: sheet.numInstances,
+        data: sheet.data,
+      };
 
-    // Update index
-    const index = await readIndex();
-    index.unshift({
-      id: surveyId,
-      title: surveyRecord.title,
-      state: surveyRecord.state,
-      uploadedAt: surveyRecord.uploadedAt,
-      numInstances: surveyRecord.numInstances,
-      numVariables: surveyRecord.numVariables,
-    });
-    await writeIndex(index);
+      records.push(surveyRecord);
+    }
 
+    await createSurveys(records);
+    for (const record of records) {
+      await recordAudit(user, "survey.upload", record.id, {
+        title: record.title,
+        state: record.state,
+        fileName: record.fileName,
+        sheetName: record.sheetName,
+        numInstances: record.numInstances,
+      });
+    }
+
+    const surveyIds = records.map((r) => r.id);
     return NextResponse.json({
       success: true,
-      surveyId,
-      message: "Survey uploaded successfully",
+      surveyId: surveyIds[0],
+      surveyIds,
+      message:
+        surveyIds.length > 1
+          ? `${surveyIds.length} surveys uploaded successfully`
+          : "Survey uploaded successfully",
     });
   } catch (error) {
+    if (error instanceof SurveyParseError || error instanceof AppendError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SurveyNotFoundError) {
+      return NextResponse.json({ error: "Survey not found" }, { status: 404 });
+    }
     console.error("Upload error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeApiToken } from "@/lib/apiTokens";
+import { requireRole } from "@/lib/sessions";
+
+type RouteContext = {
+  params: Promise<{ id: string }> | { id: string };
+};
+
+/** Revoke one of the signed-in user's tokens. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { id } = await Promise.resolve(params);
+    if (!(await revokeApiToken(user.id, id))) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Revoke API token error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ApiTokenError,
+  createApiToken,
+  listApiTokens,
+  toPublicApiToken,
+} from "@/lib/apiTokens";
+import { requireRole } from "@/lib/sessions";
+
+/** The signed-in user's API tokens. */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const tokens = await listApiTokens(user.id);
+    return NextResponse.json({ tokens: tokens.map(toPublicApiToken) });
+  } catch (error) {
+    console.error("List API tokens error:", error);
+    return NextResponse.json(
+      { error: "Failed to list API tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Create a token; the secret is only returned in this response. */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const { token, record } = await createApiToken(user, {
+      name: body.name,
+      scope: body.scope,
+    });
+    return NextResponse.json(
+      { token, apiToken: toPublicApiToken(record) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ApiTokenError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Create API token error:", error);
+    return NextResponse.json(
+      { error: "Failed to create API token" },
+      { status: 500 }
+    );
+  }
+}
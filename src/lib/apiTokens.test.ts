@@ -0,0 +1,62 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  apiTokenAllows,
+  ApiTokenError,
+  createApiToken,
+  toPublicApiToken,
+  type ApiToken,
+} from "./apiTokens";
+import type { StoredUser } from "./users";
+
+describe("apiTokenAllows", () => {
+  test("lets read tokens fetch report, survey and geo data", () => {
+    for (const path of ["/api/reports/by-state", "/api/survey", "/api/survey/abc", "/api/geo/search"]) {
+      assert.equal(apiTokenAllows("read", "GET", path), true, path);
+      assert.equal(apiTokenAllows("read", "head", path), true, path);
+    }
+  });
+
+  test("keeps read tokens to GET on those APIs", () => {
+    assert.equal(apiTokenAllows("read", "POST", "/api/survey/upload"), false);
+    assert.equal(apiTokenAllows("read", "PATCH", "/api/survey/abc"), false);
+    assert.equal(apiTokenAllows("read", "DELETE", "/api/survey/abc"), false);
+    assert.equal(apiTokenAllows("read", "GET", "/api/users"), false);
+    assert.equal(apiTokenAllows("read", "GET", "/api/tokens"), false);
+    assert.equal(apiTokenAllows("read", "GET", "/api/reportsx"), false);
+  });
+
+  test("lets upload tokens upload surveys and nothing else that writes", () => {
+    assert.equal(apiTokenAllows("upload", "POST", "/api/survey/upload"), true);
+    assert.equal(apiTokenAllows("upload", "GET", "/api/survey/abc"), true);
+    assert.equal(apiTokenAllows("upload", "PATCH", "/api/survey/abc"), false);
+    assert.equal(apiTokenAllows("upload", "POST", "/api/reports/views"), false);
+  });
+});
+
+describe("api tokens", () => {
+  test("are shown without their hash", () => {
+    const token: ApiToken = {
+      id: "t1",
+      userId: "u1",
+      name: "Notebook",
+      scope: "read",
+      tokenHash: "abc",
+      prefix: "rpa_abcdef",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    };
+    const shown = toPublicApiToken(token);
+    assert.equal("tokenHash" in shown, false);
+    assert.deepEqual({ ...shown, tokenHash: token.tokenHash }, token);
+  });
+
+  test("need a name, a known scope and an admin for uploads", async () => {
+    const analyst = { id: "u1", role: "analyst" } as StoredUser;
+    await assert.rejects(createApiToken(analyst, { name: " ", scope: "read" }), ApiTokenError);
+    await assert.rejects(createApiToken(analyst, { name: "x", scope: "write" }), /Scope/);
+    await assert.rejects(
+      createApiToken(analyst, { name: "x", scope: "upload" }),
+      /Only admins can create upload tokens/
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import path from "path";
+import type { NextRequest } from "next/server";
+import { clientIp } from "./authEvents";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+import { appendJsonLine } from "./jsonLines";
+import { getUser, type StoredUser } from "./users";
+
+const TOKENS_FILE = path.join(process.cwd(), "data", "api-tokens.json");
+const USAGE_FILE = path.join(process.cwd(), "data", "api-token-usage.jsonl");
+
+const TOKEN_PREFIX = "rpa_";
+// lastUsedAt is only rewritten when it is older than this
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const API_TOKEN_SCOPES = ["read", "upload"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/** A stored token. Only a hash of the secret is kept. */
+export type ApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  scope: ApiTokenScope;
+  /** sha256 of the full token, hex */
+  tokenHash: string;
+  /** First characters of the token, to tell tokens apart */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+/** A token as shown to its owner, without the hash. */
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
+
+export class ApiTokenError extends Error {}
+
+// Report data a read token may fetch; upload tokens may also upload surveys
+const READ_PATHS = ["/api/reports", "/api/survey", "/api/geo"];
+const UPLOAD_PATHS = ["/api/survey/upload"];
+
+function underAny(pathname: string, paths: string[]) {
+  return paths.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+}
+
+/** Whether a token with this scope may make the request at all. */
+export function apiTokenAllows(
+  scope: ApiTokenScope,
+  method: string,
+  pathname: string
+): boolean {
+  const m = method.toUpperCase();
+  if (m === "GET" || m === "HEAD") {
+    return underAny(pathname, READ_PATHS) && !underAny(pathname, UPLOAD_PATHS);
+  }
+  return scope === "upload" && m === "POST" && underAny(pathname, UPLOAD_PATHS);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Listed field by field so that nothing added to ApiToken later leaks
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  return {
+    id: token.id,
+    userId: token.userId,
+    name: token.name,
+    scope: token.scope,
+    prefix: token.prefix,
+    createdAt: token.createdAt,
+    ...(token.lastUsedAt ? { lastUsedAt: token.lastUsedAt } : {}),
+  };
+}
+
+async function readTokens(): Promise<ApiToken[]> {
+  return (await readJsonFile<ApiToken[]>(TOKENS_FILE)) ?? [];
+}
+
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  return (await readTokens()).filter((t) => t.userId === userId);
+}
+
+/**
+ * Create a token for a user. The returned secret is shown once; only its
+ * hash is stored.
+ */
+export async function createApiToken(
+  user: StoredUser,
+  input: { name: unknown; scope: unknown }
+): Promise<{ token: string; record: ApiToken }> {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 100) {
+    throw new ApiTokenError("Token name must be 1-100 characters");
+  }
+  if (!API_TOKEN_SCOPES.includes(input.scope as ApiTokenScope)) {
+    throw new ApiTokenError("Scope must be read or upload");
+  }
+  const scope = input.scope as ApiTokenScope;
+  if (scope === "upload" && user.role !== "admin") {
+    throw new ApiTokenError("Only admins can create upload tokens");
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const record: ApiToken = {
+    id: randomUUID(),
+    userId: user.id,
+    name,
+    scope,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+  };
+  await updateJsonFile<ApiToken[]>(TOKENS_FILE, [], (tokens) => ({
+    value: [...tokens, record],
+    result: undefined,
+  }));
+  return { token, record };
+}
+
+/** Revoke one of a user's tokens. Returns false when there was no such token. */
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  return updateJsonFile<ApiToken[], boolean>(TOKENS_FILE, [], (tokens) => {
+    const kept = tokens.filter((t) => !(t.id === id && t.userId === userId));
+    return { value: kept, result: kept.length < tokens.length };
+  });
+}
+
+/** Remove every token of a user, e.g. after disabling the account. */
+export async function revokeUserApiTokens(userId: string) {
+  await updateJsonFile<ApiToken[]>(TOKENS_FILE, [], (tokens) => ({
+    value: tokens.filter((t) => t.userId !== userId),
+    result: undefined,
+  }));
+}
+
+/** The token and its active owner for a presented secret. */
+export async function verifyApiToken(
+  secret: string
+): Promise<{ token: ApiToken; user: StoredUser } | null> {
+  if (!secret.startsWith(TOKEN_PREFIX)) return null;
+  const hash = hashToken(secret);
+  const token = (await readTokens()).find((t) => t.tokenHash === hash);
+  if (!token) return null;
+  const user = await getUser(token.userId);
+  return user && !user.disabled ? { token, user } : null;
+}
+
+/** Log a request made with a token and note when the token was last used. */
+export async function recordApiTokenUsage(
+  token: ApiToken,
+  user: StoredUser,
+  request: NextRequest,
+  inScope: boolean
+) {
+  const now = new Date();
+  try {
+    await appendJsonLine(USAGE_FILE, {
+      at: now.toISOString(),
+      tokenId: token.id,
+      tokenName: token.name,
+      userId: user.id,
+      username: user.username,
+      method: request.method,
+      path: request.nextUrl.pathname,
+      query: request.nextUrl.search,
+      ip: clientIp(request),
+      inScope,
+    });
+    const lastUsed = token.lastUsedAt ? Date.parse(token.lastUsedAt) : 0;
+    if (now.getTime() - lastUsed > LAST_USED_RESOLUTION_MS) {
+      await updateJsonFile<ApiToken[]>(TOKENS_FILE, [], (tokens) => ({
+        value: tokens.map((t) =>
+          t.id === token.id ? { ...t, lastUsedAt: now.toISOString() } : t
+        ),
+        result: undefined,
+      }));
+    }
+  } catch (err) {
+    console.error("Record API token usage error:", err);
+  }
+}
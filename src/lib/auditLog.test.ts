@@ -0,0 +1,75 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+type AuditModule = typeof import("./auditLog");
+
+const asha = { id: "u1", username: "Asha" };
+
+// audit-log.jsonl lives under data/ in the working directory, so the module
+// is loaded from inside a scratch directory
+describe("audit log", () => {
+  const previousCwd = process.cwd();
+  let dir: string;
+  let auditFile: string;
+  let audit: AuditModule;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "audit-log-"));
+    auditFile = path.join(dir, "data", "audit-log.jsonl");
+    process.chdir(dir);
+    audit = await import("./auditLog");
+  });
+
+  after(async () => {
+    process.chdir(previousCwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("records who changed what", async () => {
+    await audit.recordAudit(asha, "survey.edit", "survey-1", { title: "Wave 2" });
+    const [{ at, ...entry }] = await audit.listAudit();
+    assert.deepEqual(entry, {
+      action: "survey.edit",
+      userId: "u1",
+      username: "Asha",
+      target: "survey-1",
+      details: { title: "Wave 2" },
+    });
+    assert.ok(Date.now() - Date.parse(at) < 60_000);
+  });
+
+  test("filters by user, action and inclusive dates, newest first", async () => {
+    await fs.writeFile(auditFile, "");
+    const entries = [
+      ["2024-03-01T10:00:00.000Z", "survey.upload", "Asha"],
+      ["2024-03-02T23:30:00.000Z", "survey.delete", "Ravi"],
+      ["2024-03-03T08:00:00.000Z", "survey.upload", "ravi"],
+    ];
+    for (const [at, action, username] of entries) {
+      await fs.appendFile(
+        auditFile,
+        JSON.stringify({ at, action, userId: username, username, target: "s" }) + "\n"
+      );
+    }
+    await fs.appendFile(auditFile, "not json\n");
+
+    const ats = (list: { at: string }[]) => list.map((e) => e.at.slice(0, 10));
+    assert.deepEqual(ats(await audit.listAudit()), ["2024-03-03", "2024-03-02", "2024-03-01"]);
+    assert.deepEqual(ats(await audit.listAudit({ username: "RAVI" })), ["2024-03-03", "2024-03-02"]);
+    assert.deepEqual(ats(await audit.listAudit({ action: "survey.upload" })), ["2024-03-03", "2024-03-01"]);
+    // A bare date as the upper bound covers that whole day
+    assert.deepEqual(
+      ats(await audit.listAudit({ from: "2024-03-02", to: "2024-03-02" })),
+      ["2024-03-02"]
+    );
+    assert.deepEqual(ats(await audit.listAudit({ limit: 1 })), ["2024-03-03"]);
+  });
+
+  test("knows its actions", () => {
+    assert.equal(audit.isAuditAction("survey.append"), true);
+    assert.equal(audit.isAuditAction("survey.read"), false);
+  });
+});
@@ -0,0 +1,92 @@
+import path from "path";
+import { appendJsonLine, readJsonLines } from "./jsonLines";
+import type { StoredUser } from "./users";
+
+// One JSON object per line, oldest first
+const AUDIT_FILE = path.join(process.cwd(), "data", "audit-log.jsonl");
+
+export const AUDIT_ACTIONS = [
+  "survey.upload",
+  "survey.revision",
+  "survey.append",
+  "survey.edit",
+  "survey.delete",
+  "reports.field_colors",
+  "parties.update",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditEntry = {
+  at: string;
+  action: AuditAction;
+  userId: string;
+  username: string;
+  /** Survey id, or the name of the changed setting */
+  target: string;
+  /** What changed, e.g. the new title or the uploaded file name */
+  details?: Record<string, unknown>;
+};
+
+export type AuditFilter = {
+  username?: string;
+  action?: AuditAction;
+  /** Inclusive bounds, as ISO dates or timestamps */
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction);
+}
+
+/** Record a change made by a user. Failures are logged, not thrown. */
+export async function recordAudit(
+  user: Pick<StoredUser, "id" | "username">,
+  action: AuditAction,
+  target: string,
+  details?: Record<string, unknown>
+) {
+  const entry: AuditEntry = {
+    at: new Date().toISOString(),
+    action,
+    userId: user.id,
+    username: user.username,
+    target,
+    ...(details ? { details } : {}),
+  };
+  try {
+    await appendJsonLine(AUDIT_FILE, entry);
+  } catch (err) {
+    // The change itself has already been saved
+    console.error("Record audit entry error:", err);
+  }
+}
+
+// A bare date as the upper bound covers that whole day
+function upperBound(to: string): number {
+  return /^\d{4}-\d{2}-\d{2}$/.test(to)
+    ? Date.parse(`${to}T23:59:59.999Z`)
+    : Date.parse(to);
+}
+
+/** Matching entries, newest first. */
+export async function listAudit(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const username = filter.username?.trim().toLowerCase();
+  const from = filter.from ? Date.parse(filter.from) : null;
+  const to = filter.to ? upperBound(filter.to) : null;
+  return readJsonLines<AuditEntry>(
+    AUDIT_FILE,
+    (entry) => {
+      const at = Date.parse(entry.at);
+      return (
+        (!username || entry.username.toLowerCase() === username) &&
+        (!filter.action || entry.action === filter.action) &&
+        (from === null || at >= from) &&
+        (to === null || at <= to)
+      );
+    },
+    filter.limit
+  );
+}
@@ -0,0 +1,34 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { NextRequest } from "next/server";
+import { clientIp, UNKNOWN_IP } from "./authEvents";
+
+function ipOf(forwardedFor?: string): string {
+  const headers = forwardedFor === undefined ? undefined : { "x-forwarded-for": forwardedFor };
+  return clientIp(new NextRequest("http://localhost/api/auth/login", { headers }));
+}
+
+describe("clientIp", () => {
+  const previousProxies = process.env.TRUSTED_PROXIES;
+
+  after(() => {
+    if (previousProxies === undefined) delete process.env.TRUSTED_PROXIES;
+    else process.env.TRUSTED_PROXIES = previousProxies;
+  });
+
+  test("ignores X-Forwarded-For without trusted proxies", () => {
+    delete process.env.TRUSTED_PROXIES;
+    // With no proxy in front, the client wrote the header itself
+    assert.equal(ipOf("203.0.113.9"), UNKNOWN_IP);
+    assert.equal(ipOf("1.2.3.4, 203.0.113.9"), UNKNOWN_IP);
+    assert.equal(ipOf(), UNKNOWN_IP);
+  });
+
+  test("takes the right-most hop that is not a trusted proxy", () => {
+    process.env.TRUSTED_PROXIES = "10.0.0.1, ::ffff:10.0.0.2";
+    assert.equal(ipOf("1.2.3.4, 203.0.113.9, 10.0.0.2, 10.0.0.1"), "203.0.113.9");
+    assert.equal(ipOf("::ffff:203.0.113.9, 10.0.0.1"), "203.0.113.9");
+    assert.equal(ipOf("10.0.0.2, 10.0.0.1"), "10.0.0.2");
+    assert.equal(ipOf(), UNKNOWN_IP);
+  });
+});
@@ -0,0 +1,103 @@
+import path from "path";
+import type { NextRequest } from "next/server";
+import { appendJsonLine, readJsonLines } from "./jsonLines";
+
+// One JSON object per line, oldest first
+const AUTH_EVENTS_FILE = path.join(process.cwd(), "data", "auth-events.jsonl");
+
+export const AUTH_EVENT_TYPES = [
+  "login_success",
+  "login_failure",
+  "login_locked",
+  "logout",
+] as const;
+
+export type AuthEventType = (typeof AUTH_EVENT_TYPES)[number];
+
+/**
+ * A sign-in or sign-out. Only the username that was typed is kept; the
+ * password never is.
+ */
+export type AuthEvent = {
+  at: string;
+  type: AuthEventType;
+  ip: string;
+  username?: string;
+  userId?: string;
+  /** Why a login failed or was refused */
+  reason?: string;
+};
+
+export type AuthEventFilter = {
+  type?: AuthEventType;
+  username?: string;
+  limit?: number;
+};
+
+// "::ffff:10.0.0.1" is how Node reports an IPv4 peer on a dual-stack socket
+function normalizeIp(ip: string): string {
+  const trimmed = ip.trim().toLowerCase();
+  return trimmed.startsWith("::ffff:") && trimmed.includes(".")
+    ? trimmed.slice("::ffff:".length)
+    : trimmed;
+}
+
+/** Addresses of the reverse proxies in front of the app, from TRUSTED_PROXIES. */
+function trustedProxies(): Set<string> {
+  return new Set(
+    (process.env.TRUSTED_PROXIES ?? "")
+      .split(",")
+      .map(normalizeIp)
+      .filter(Boolean)
+  );
+}
+
+/** Recorded as the IP when the client address cannot be trusted. */
+export const UNKNOWN_IP = "unknown";
+
+/**
+ * The client address, or UNKNOWN_IP when TRUSTED_PROXIES is not set. Next.js
+ * only records the connection's address in X-Forwarded-For when a request
+ * arrives without one, so without a proxy the header is whatever the client
+ * sent. Behind proxies, each appends the address it was connected from, so
+ * only the right-hand end of the list can be trusted: the right-most hop
+ * that is not one of TRUSTED_PROXIES. Entries further left were sent by the
+ * client and are ignored.
+ */
+export function clientIp(request: NextRequest): string {
+  const trusted = trustedProxies();
+  if (trusted.size === 0) return UNKNOWN_IP;
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(normalizeIp)
+    .filter(Boolean);
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted.has(hops[i])) return hops[i];
+  }
+  // Every hop is a trusted proxy; the first one saw the client
+  return hops[0] ?? UNKNOWN_IP;
+}
+
+export async function recordAuthEvent(event: Omit<AuthEvent, "at">) {
+  const entry: AuthEvent = { at: new Date().toISOString(), ...event };
+  try {
+    await appendJsonLine(AUTH_EVENTS_FILE, entry);
+  } catch (err) {
+    // Losing a log line must not block signing in or out
+    console.error("Record auth event error:", err);
+  }
+}
+
+/** Matching events, newest first. */
+export async function listAuthEvents(
+  filter: AuthEventFilter = {}
+): Promise<AuthEvent[]> {
+  const username = filter.username?.trim().toLowerCase();
+  return readJsonLines<AuthEvent>(
+    AUTH_EVENTS_FILE,
+    (event) =>
+      (!filter.type || event.type === filter.type) &&
+      (!username || event.username?.toLowerCase() === username),
+    filter.limit
+  );
+}
@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { FormulaError, parseFormula } from "./formula";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+import { canAccessState } from "./stateAccess";
+import { listSurveysByState } from "./surveyStore";
+import type { StoredUser } from "./users";
+
+const FIELDS_FILE = path.join(process.cwd(), "data", "calculated-fields.json");
+
+/**
+ * A named formula column (see formula.ts) for every survey of a state, or
+ * for one survey when surveyId is set. Columns are computed where the rows
+ * are shown, never stored in the survey.
+ */
+export type CalculatedField = {
+  id: string;
+  name: string;
+  formula: string;
+  state: string;
+  surveyId: string | null;
+  createdById: string;
+  createdByUsername: string;
+  createdAt: string;
+};
+
+export class CalculatedFieldError extends Error {}
+
+function sameState(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+async function readFields(): Promise<CalculatedField[]> {
+  return (await readJsonFile<CalculatedField[]>(FIELDS_FILE)) ?? [];
+}
+
+/**
+ * The fields that apply to a state, or to one of its surveys, oldest first
+ * so that a field may use the columns of earlier ones.
+ */
+export async function listCalculatedFields(
+  state: string,
+  surveyId: string | null
+): Promise<CalculatedField[]> {
+  return (await readFields())
+    .filter(
+      (f) =>
+        sameState(f.state, state) &&
+        (f.surveyId === null || f.surveyId === surveyId)
+    )
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function createCalculatedField(
+  user: StoredUser,
+  input: { name: unknown; formula: unknown; state: unknown; surveyId: unknown }
+): Promise<CalculatedField> {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 100) {
+    throw new CalculatedFieldError("Field name must be 1-100 characters");
+  }
+  const formula = typeof input.formula === "string" ? input.formula.trim() : "";
+  try {
+    parseFormula(formula);
+  } catch (err) {
+    if (err instanceof FormulaError) throw new CalculatedFieldError(err.message);
+    throw err;
+  }
+  const state = typeof input.state === "string" ? input.state.trim() : "";
+  if (!state) {
+    throw new CalculatedFieldError("State is required");
+  }
+  if (!canAccessState(user.allowedStates, state)) {
+    throw new CalculatedFieldError("You do not have access to this state");
+  }
+  let surveyId: string | null = null;
+  if (input.surveyId !== undefined && input.surveyId !== null && input.surveyId !== "") {
+    surveyId = String(input.surveyId);
+    const surveys = await listSurveysByState(state);
+    if (!surveys.some((s) => String(s.id) === surveyId)) {
+      throw new CalculatedFieldError("No such survey in this state");
+    }
+  }
+
+  const record: CalculatedField = {
+    id: randomUUID(),
+    name,
+    formula,
+    state,
+    surveyId,
+    createdById: user.id,
+    createdByUsername: user.username,
+    createdAt: new Date().toISOString(),
+  };
+  await updateJsonFile<CalculatedField[]>(FIELDS_FILE, [], (fields) => {
+    // Two fields of one name could both apply to a survey
+    const clash = fields.some(
+      (f) =>
+        sameState(f.state, state) &&
+        f.name.toLowerCase() === name.toLowerCase() &&
+        (f.surveyId === null || surveyId === null || f.surveyId === surveyId)
+    );
+    if (clash) {
+      throw new CalculatedFieldError(`A calculated field named ${name} already exists`);
+    }
+    return { value: [...fields, record], result: undefined };
+  });
+  return record;
+}
+
+/**
+ * Delete a field. Only its creator or an admin may do so; returns false
+ * when there was no such field the user could delete.
+ */
+export async function deleteCalculatedField(user: StoredUser, id: string): Promise<boolean> {
+  return updateJsonFile<CalculatedField[], boolean>(FIELDS_FILE, [], (fields) => {
+    const kept = fields.filter(
+      (f) =>
+        !(
+          f.id === id &&
+          canAccessState(user.allowedStates, f.state) &&
+          (f.createdById === user.id || user.role === "admin")
+        )
+    );
+    return { value: kept, result: kept.length < fields.length };
+  });
+}
@@ -0,0 +1,110 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyDerivedMetric,
+  applyDerivedMetrics,
+  DerivedMetricError,
+  derivedMetricName,
+  formatDerivedMetric,
+  parseDerivedMetric,
+} from "./derivedMetrics";
+import type { SurveySchema } from "./surveyColumns";
+
+const schema: SurveySchema = {
+  Date: { type: "date", unit: null, label: "Date", role: "time" },
+  TDP1: { type: "percent", unit: "%", label: "TDP1", role: "party_share" },
+  YSRCP1: { type: "percent", unit: "%", label: "YSRCP1", role: "party_share" },
+  Sample: { type: "numeric", unit: null, label: "Sample", role: "sample_size" },
+  Zone: { type: "category", unit: null, label: "Zone", role: "zone" },
+};
+
+const rows = [
+  { Date: "2024-05-06", TDP1: 0.4, YSRCP1: 0.5, Sample: 100 },
+  { Date: "2024-05-20", TDP1: 0.44, YSRCP1: 0.46, Sample: 100 },
+  { Date: 45474, TDP1: 0.48, YSRCP1: 0.42, Sample: 100 }, // 2024-07-01
+  { Date: "2024-08-01", TDP1: 0.5 },
+];
+
+const close = (actual: unknown, expected: number) =>
+  assert.ok(
+    typeof actual === "number" && Math.abs(actual - expected) < 1e-9,
+    `${actual} is not ${expected}`
+  );
+
+describe("parseDerivedMetric", () => {
+  test("reads every kind of spec and writes it back", () => {
+    for (const spec of [
+      "swing:TDP1@2024-05",
+      "swing:TDP1=45.3%",
+      "lead:TDP1:YSRCP1",
+      "tpp:TDP1:YSRCP1",
+      "lead:TDP+JSP:YSRCP",
+    ]) {
+      assert.equal(formatDerivedMetric(parseDerivedMetric(spec)), spec);
+    }
+    assert.deepEqual(parseDerivedMetric("swing:a@b@2024"), {
+      kind: "swing",
+      field: "a@b",
+      baseline: { period: "2024" },
+    });
+  });
+
+  test("rejects malformed specs", () => {
+    for (const spec of [
+      "TDP1",
+      "swing:",
+      "swing:TDP1",
+      "swing:TDP1@May",
+      "swing:TDP1=lots",
+      "lead:TDP1",
+      "lead:TDP1:",
+      "share:TDP1:YSRCP1",
+    ]) {
+      assert.throws(() => parseDerivedMetric(spec), DerivedMetricError, spec);
+    }
+  });
+});
+
+describe("applyDerivedMetric", () => {
+  test("swings from the mean of a period", () => {
+    const metric = parseDerivedMetric("swing:TDP1@2024-05");
+    const name = derivedMetricName(metric);
+    const result = applyDerivedMetric(rows, schema, metric);
+    close(result.rows[0][name], -0.02);
+    close(result.rows[2][name], 0.06);
+    assert.equal(result.schema[name].role, "swing");
+    assert.equal(result.schema[name].type, "percent");
+  });
+
+  test("reads a typed result for a percentage column as whole percents", () => {
+    const metric = parseDerivedMetric("swing:TDP1=45%");
+    close(applyDerivedMetric(rows, schema, metric).rows[3][derivedMetricName(metric)], 0.05);
+    const plain = parseDerivedMetric("swing:TDP1=0.45");
+    close(applyDerivedMetric(rows, schema, plain).rows[3][derivedMetricName(plain)], 0.05);
+  });
+
+  test("computes leads and two-party shares where both values are there", () => {
+    const lead = parseDerivedMetric("lead:TDP1:YSRCP1");
+    const tpp = parseDerivedMetric("tpp:TDP1:YSRCP1");
+    const result = applyDerivedMetrics(rows, schema, [lead, tpp]);
+    close(result.rows[0][derivedMetricName(lead)], -0.1);
+    close(result.rows[2][derivedMetricName(tpp)], 0.48 / 0.9);
+    assert.ok(!(derivedMetricName(lead) in result.rows[3]));
+    assert.equal(result.schema[derivedMetricName(tpp)].role, "party_share");
+  });
+
+  test("rejects columns and periods it cannot use", () => {
+    const cases: [string, RegExp][] = [
+      ["lead:TDP1:INC1", /INC1 is not a numeric column/],
+      ["lead:Zone:TDP1", /Zone is not a numeric column/],
+      ["lead:TDP1:Sample", /both be percentages or both numbers/],
+      ["swing:TDP1@2023", /No TDP1 values in 2023/],
+    ];
+    for (const [spec, message] of cases) {
+      assert.throws(
+        () => applyDerivedMetric(rows, schema, parseDerivedMetric(spec)),
+        message
+      );
+    }
+  });
+});
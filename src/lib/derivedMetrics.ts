@@ -0,0 +1,243 @@
+import {
+  excelSerialToTs,
+  isNumericColumn,
+  parseDateText,
+  toNumber,
+  type ColumnSchema,
+  type SurveySchema,
+} from "./surveyColumns";
+
+/**
+ * Columns computed from party share columns on the fly, instead of being
+ * worked out in Excel before upload: swing against a baseline, the lead of
+ * one party over another, and the two-party-preferred share. Safe to use in
+ * the browser; the reports API applies the same metrics.
+ *
+ * A metric is written as a short spec, used in the URL and the API:
+ *
+ *   swing:TDP1@2024-05   swing of TDP1 since its mean in May 2024
+ *   swing:TDP1=45.3%     swing of TDP1 against a previous result
+ *   lead:TDP1:YSRCP1     TDP1 minus YSRCP1
+ *   tpp:TDP1:YSRCP1      TDP1 / (TDP1 + YSRCP1)
+ */
+export type SwingBaseline =
+  /** A year, month or day ("2024", "2024-05", "2024-05-13") */
+  | { period: string }
+  /** A previous election result as typed: "45.3%", "45.3" or "0.453" */
+  | { result: string };
+
+export type DerivedMetric =
+  | { kind: "swing"; field: string; baseline: SwingBaseline }
+  | { kind: "lead"; field: string; other: string }
+  | { kind: "tpp"; field: string; other: string };
+
+export type DerivedMetricKind = DerivedMetric["kind"];
+
+export const DERIVED_METRIC_LABELS: Record<DerivedMetricKind, string> = {
+  swing: "Swing",
+  lead: "Lead",
+  tpp: "Two-party share",
+};
+
+export class DerivedMetricError extends Error {}
+
+const PERIOD_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+// A result typed as 45.3 for a percentage column is in whole percents
+function baselineValue(result: string, column: ColumnSchema): number {
+  const value = toNumber(result);
+  if (value === null) {
+    throw new DerivedMetricError(`Invalid swing baseline: ${result}`);
+  }
+  return column.type === "percent" && Math.abs(value) > 1 ? value / 100 : value;
+}
+
+/** Read a metric spec. Throws DerivedMetricError when it is malformed. */
+export function parseDerivedMetric(spec: string): DerivedMetric {
+  const colon = spec.indexOf(":");
+  const kind = spec.slice(0, colon);
+  const rest = spec.slice(colon + 1);
+  if (colon < 0 || !rest) {
+    throw new DerivedMetricError(`Invalid derived metric: ${spec}`);
+  }
+
+  if (kind === "swing") {
+    const at = rest.lastIndexOf("@");
+    if (at > 0) {
+      const period = rest.slice(at + 1);
+      if (!PERIOD_PATTERN.test(period)) {
+        throw new DerivedMetricError(`Invalid swing period: ${period}`);
+      }
+      return { kind, field: rest.slice(0, at), baseline: { period } };
+    }
+    const eq = rest.lastIndexOf("=");
+    if (eq > 0) {
+      const result = rest.slice(eq + 1);
+      if (toNumber(result) === null) {
+        throw new DerivedMetricError(`Invalid swing baseline: ${result}`);
+      }
+      return { kind, field: rest.slice(0, eq), baseline: { result } };
+    }
+    throw new DerivedMetricError(`Swing needs @period or =result: ${spec}`);
+  }
+
+  if (kind === "lead" || kind === "tpp") {
+    const sep = rest.lastIndexOf(":");
+    if (sep <= 0 || sep === rest.length - 1) {
+      throw new DerivedMetricError(`${kind} needs two columns: ${spec}`);
+    }
+    return { kind, field: rest.slice(0, sep), other: rest.slice(sep + 1) };
+  }
+
+  throw new DerivedMetricError(`Unknown derived metric: ${kind}`);
+}
+
+/** The spec a metric is read back from. */
+export function formatDerivedMetric(metric: DerivedMetric): string {
+  switch (metric.kind) {
+    case "swing":
+      return "period" in metric.baseline
+        ? `swing:${metric.field}@${metric.baseline.period}`
+        : `swing:${metric.field}=${metric.baseline.result}`;
+    case "lead":
+    case "tpp":
+      return `${metric.kind}:${metric.field}:${metric.other}`;
+  }
+}
+
+/** The name of the column a metric adds. */
+export function derivedMetricName(metric: DerivedMetric): string {
+  switch (metric.kind) {
+    case "swing":
+      return "period" in metric.baseline
+        ? `Swing ${metric.field} since ${metric.baseline.period}`
+        : `Swing ${metric.field} vs ${metric.baseline.result}`;
+    case "lead":
+      return `Lead ${metric.field} over ${metric.other}`;
+    case "tpp":
+      return `Two-party ${metric.field} vs ${metric.other}`;
+  }
+}
+
+// The first column holding dates, used to find a swing's baseline period
+function timeFieldOf(schema: SurveySchema): string | null {
+  const fields = Object.keys(schema);
+  return (
+    fields.find((f) => schema[f].role === "time") ??
+    fields.find((f) => schema[f].type === "date") ??
+    null
+  );
+}
+
+// Date cells as "YYYY-MM-DD": uploads store ISO text, older ones Excel serials
+function isoDateOf(value: unknown): string | null {
+  let ts: number | null = null;
+  if (typeof value === "number" && Number.isFinite(value)) ts = excelSerialToTs(value);
+  else if (typeof value === "string") ts = parseDateText(value);
+  return ts === null ? null : new Date(ts).toISOString().slice(0, 10);
+}
+
+function numericColumn(schema: SurveySchema, field: string): ColumnSchema {
+  const column = schema[field];
+  if (!isNumericColumn(column)) {
+    throw new DerivedMetricError(`${field} is not a numeric column`);
+  }
+  return column;
+}
+
+function periodMean(
+  rows: Record<string, unknown>[],
+  field: string,
+  timeField: string,
+  period: string
+): number {
+  let sum = 0;
+  let count = 0;
+  for (const row of rows) {
+    if (!isoDateOf(row[timeField])?.startsWith(period)) continue;
+    const value = toNumber(row[field]);
+    if (value === null) continue;
+    sum += value;
+    count += 1;
+  }
+  if (count === 0) {
+    throw new DerivedMetricError(`No ${field} values in ${period} to swing from`);
+  }
+  return sum / count;
+}
+
+/**
+ * Add the metric's column to every row that has the values it needs, and
+ * its description to the schema. Throws DerivedMetricError when a column is
+ * missing or not numeric, or a baseline period has no data.
+ */
+export function applyDerivedMetric(
+  rows: Record<string, unknown>[],
+  schema: SurveySchema,
+  metric: DerivedMetric
+): { rows: Record<string, unknown>[]; schema: SurveySchema } {
+  const name = derivedMetricName(metric);
+  const base = numericColumn(schema, metric.field);
+  let compute: (row: Record<string, unknown>) => number | null;
+  let column: ColumnSchema;
+
+  if (metric.kind === "swing") {
+    let baseline: number;
+    if ("period" in metric.baseline) {
+      const timeField = timeFieldOf(schema);
+      if (!timeField) {
+        throw new DerivedMetricError("Swing from a period needs a date column");
+      }
+      baseline = periodMean(rows, metric.field, timeField, metric.baseline.period);
+    } else {
+      baseline = baselineValue(metric.baseline.result, base);
+    }
+    compute = (row) => {
+      const a = toNumber(row[metric.field]);
+      return a === null ? null : a - baseline;
+    };
+    column = { ...base, label: name, role: "swing" };
+  } else {
+    const other = numericColumn(schema, metric.other);
+    if (other.type !== base.type) {
+      throw new DerivedMetricError(
+        `${metric.field} and ${metric.other} must both be percentages or both numbers`
+      );
+    }
+    if (metric.kind === "lead") {
+      compute = (row) => {
+        const a = toNumber(row[metric.field]);
+        const b = toNumber(row[metric.other]);
+        return a === null || b === null ? null : a - b;
+      };
+      column = { ...base, label: name, role: null };
+    } else {
+      compute = (row) => {
+        const a = toNumber(row[metric.field]);
+        const b = toNumber(row[metric.other]);
+        return a === null || b === null || a + b <= 0 ? null : a / (a + b);
+      };
+      column = { type: "percent", unit: "%", label: name, role: "party_share" };
+    }
+  }
+
+  return {
+    rows: rows.map((row) => {
+      const value = compute(row);
+      return value === null ? row : { ...row, [name]: value };
+    }),
+    schema: { ...schema, [name]: column },
+  };
+}
+
+/** Apply metrics in order; a later one may build on an earlier one's column. */
+export function applyDerivedMetrics(
+  rows: Record<string, unknown>[],
+  schema: SurveySchema,
+  metrics: DerivedMetric[]
+): { rows: Record<string, unknown>[]; schema: SurveySchema } {
+  return metrics.reduce(
+    (acc, metric) => applyDerivedMetric(acc.rows, acc.schema, metric),
+    { rows, schema }
+  );
+}
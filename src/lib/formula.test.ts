@@ -0,0 +1,106 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { applyFormula, applyFormulas, FormulaError, parseFormula } from "./formula";
+import type { SurveySchema } from "./surveyColumns";
+
+const schema: SurveySchema = {
+  TDP: { type: "percent", unit: "%", label: "TDP", role: "party_share" },
+  YSRCP: { type: "percent", unit: "%", label: "YSRCP", role: "party_share" },
+  "swing _TDP": { type: "percent", unit: "%", label: "swing _TDP", role: "swing" },
+  Sample: { type: "numeric", unit: null, label: "Sample", role: "sample_size" },
+  Zone: { type: "category", unit: null, label: "Zone", role: "zone" },
+};
+
+function valueOf(formula: string, row: Record<string, unknown>): unknown {
+  return applyFormula([row], schema, "out", parseFormula(formula)).rows[0].out;
+}
+
+describe("parseFormula", () => {
+  test("lists the columns in order of first use", () => {
+    assert.deepEqual(parseFormula("max(TDP, [swing _TDP]) - TDP / Sample").columns, [
+      "TDP",
+      "swing _TDP",
+      "Sample",
+    ]);
+  });
+
+  test("reports where a formula stops parsing", () => {
+    const cases: [string, RegExp][] = [
+      ["", /empty/],
+      ["TDP +", /ends too early at position 6/],
+      ["(TDP", /Expected "\)" at position 5/],
+      ["TDP $ 1", /Unexpected "\$" at position 5/],
+      ["foo(TDP)", /Unknown function foo at position 1/],
+      ["abs(TDP, YSRCP)", /Wrong number of arguments to abs/],
+      ["[TDP", /Missing \]/],
+    ];
+    for (const [text, message] of cases) {
+      assert.throws(() => parseFormula(text), (err) => {
+        assert.ok(err instanceof FormulaError);
+        assert.match(err.message, message);
+        return true;
+      });
+    }
+  });
+
+  test("never evaluates JavaScript", () => {
+    assert.throws(() => parseFormula("constructor.constructor('return 1')()"), FormulaError);
+    assert.throws(() => parseFormula("toString(TDP)"), /Unknown function/);
+  });
+});
+
+describe("applyFormula", () => {
+  const row = { TDP: 0.45, YSRCP: 0.4, "swing _TDP": 0.02, Sample: 200, Zone: "North" };
+
+  test("follows operator precedence", () => {
+    assert.equal(valueOf("TDP - YSRCP * 2 + 1", row), 0.45 - 0.8 + 1);
+    assert.equal(valueOf("(TDP - YSRCP) * 2", row), (0.45 - 0.4) * 2);
+    assert.equal(valueOf("-TDP + 45%", row), 0);
+    assert.equal(valueOf("round(Sample / 3)", row), 67);
+    assert.equal(valueOf("min(TDP, YSRCP, [swing _TDP])", row), 0.02);
+  });
+
+  test("keeps sums of percentages as percentages", () => {
+    const type = (formula: string) =>
+      applyFormula([row], schema, "out", parseFormula(formula)).schema.out.type;
+    assert.equal(type("TDP + [swing _TDP]"), "percent");
+    assert.equal(type("TDP - 5%"), "percent");
+    assert.equal(type("TDP * 100"), "numeric");
+    assert.equal(type("TDP / Sample"), "numeric");
+  });
+
+  test("leaves out rows it cannot compute and says why", () => {
+    const result = applyFormula(
+      [{ TDP: 0.4, YSRCP: 0 }, { TDP: 0.4 }, { TDP: "n/a", YSRCP: 0.1 }],
+      schema,
+      "ratio",
+      parseFormula("TDP / YSRCP")
+    );
+    assert.deepEqual(result.errors, [
+      { row: 1, message: "Division by zero" },
+      { row: 2, message: "YSRCP is empty" },
+      { row: 3, message: "TDP is not a number" },
+    ]);
+    assert.ok(result.rows.every((r) => !("ratio" in r)));
+  });
+
+  test("rejects unknown and non-numeric columns", () => {
+    assert.throws(() => valueOf("INC + 1", row), /Unknown column INC/);
+    assert.throws(() => valueOf("Zone + 1", row), /Zone is not a numeric column/);
+  });
+});
+
+describe("applyFormulas", () => {
+  test("lets a formula use an earlier one and skips those that fail", () => {
+    const result = applyFormulas([{ TDP: 0.45, YSRCP: 0.4 }], schema, [
+      { name: "lead", formula: "TDP - YSRCP" },
+      { name: "lead2", formula: "lead * 2" },
+      { name: "broken", formula: "TDP +" },
+      { name: "TDP", formula: "1" },
+    ]);
+    assert.ok(Math.abs((result.rows[0].lead2 as number) - 0.1) < 1e-12);
+    assert.deepEqual(Object.keys(result.errors), ["broken", "TDP"]);
+    assert.match(result.errors.TDP.formula ?? "", /already exists/);
+    assert.equal(result.schema.broken, undefined);
+  });
+});
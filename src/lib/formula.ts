@@ -0,0 +1,345 @@
+import {
+  isNumericColumn,
+  toNumber,
+  type ColumnSchema,
+  type SurveySchema,
+} from "./surveyColumns";
+
+/**
+ * A small arithmetic language for calculated fields, such as
+ * `TDP + JSP + BJP` or `(YSRCP - TDP) * 100`. Formulas are parsed into a
+ * tree and evaluated by walking it; nothing is ever passed to eval.
+ *
+ *   formula  := sum
+ *   sum      := product (("+" | "-") product)*
+ *   product  := unary (("*" | "/") unary)*
+ *   unary    := ("-" | "+") unary | primary
+ *   primary  := number "%"? | column | function "(" sum ("," sum)* ")" | "(" sum ")"
+ *   column   := name | "[" any text but "]" "]"
+ *
+ * Names start with a letter or "_" and go on with letters, digits and "_";
+ * other column names ("swing _TDP") are written in brackets. Percentages
+ * are fractions, as they are stored, so `45%` is 0.45.
+ */
+export type FormulaNode =
+  | { kind: "number"; value: number; percent?: true }
+  | { kind: "column"; name: string }
+  | { kind: "negate"; arg: FormulaNode }
+  | { kind: "binary"; op: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; fn: FormulaFunction; args: FormulaNode[] };
+
+export type Formula = {
+  root: FormulaNode;
+  /** Columns the formula reads, in order of first use */
+  columns: string[];
+};
+
+const FUNCTIONS = {
+  abs: { arity: [1, 1], apply: (a: number[]) => Math.abs(a[0]) },
+  round: { arity: [1, 1], apply: (a: number[]) => Math.round(a[0]) },
+  min: { arity: [1, Infinity], apply: (a: number[]) => Math.min(...a) },
+  max: { arity: [1, Infinity], apply: (a: number[]) => Math.max(...a) },
+} as const;
+
+export type FormulaFunction = keyof typeof FUNCTIONS;
+
+/** A formula that does not parse, or names a column that cannot be used. */
+export class FormulaError extends Error {
+  constructor(
+    message: string,
+    /** 0-based character offset, when the error is at a place in the text */
+    readonly position: number | null = null
+  ) {
+    super(position === null ? message : `${message} at position ${position + 1}`);
+  }
+}
+
+/** Why one row has no value. `row` is 1-based, as in the sheet. */
+export type FormulaRowError = { row: number; message: string };
+
+const MAX_FORMULA_LENGTH = 500;
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "name"; value: string; pos: number }
+  | { type: "column"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if (/[0-9.]/.test(ch)) {
+      const m = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(i));
+      if (!m) throw new FormulaError("Invalid number", i);
+      tokens.push({ type: "number", value: Number(m[0]), pos: i });
+      i += m[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i))!;
+      tokens.push({ type: "name", value: m[0], pos: i });
+      i += m[0].length;
+    } else if (ch === "[") {
+      const close = text.indexOf("]", i + 1);
+      if (close < 0) throw new FormulaError("Missing ]", i);
+      const name = text.slice(i + 1, close).trim();
+      if (!name) throw new FormulaError("Empty column name", i);
+      tokens.push({ type: "column", value: name, pos: i });
+      i = close + 1;
+    } else if ("+-*/(),%".includes(ch)) {
+      tokens.push({ type: "op", value: ch, pos: i });
+      i += 1;
+    } else {
+      throw new FormulaError(`Unexpected "${ch}"`, i);
+    }
+  }
+  tokens.push({ type: "end", pos: text.length });
+  return tokens;
+}
+
+function isFunction(name: string): name is FormulaFunction {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name);
+}
+
+/** Parse a formula. Throws FormulaError with the position of the problem. */
+export function parseFormula(text: string): Formula {
+  if (!text.trim()) throw new FormulaError("Formula is empty");
+  if (text.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula must be at most ${MAX_FORMULA_LENGTH} characters`);
+  }
+  const tokens = tokenize(text);
+  const columns: string[] = [];
+  let at = 0;
+
+  const peek = () => tokens[at];
+  const isOp = (value: string) => {
+    const t = tokens[at];
+    return t.type === "op" && t.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new FormulaError(`Expected "${value}"`, peek().pos);
+    at += 1;
+  };
+  const column = (name: string): FormulaNode => {
+    if (!columns.includes(name)) columns.push(name);
+    return { kind: "column", name };
+  };
+
+  const sum = (): FormulaNode => {
+    let node = product();
+    while (isOp("+") || isOp("-")) {
+      const op = (tokens[at++] as { value: "+" | "-" }).value;
+      node = { kind: "binary", op, left: node, right: product() };
+    }
+    return node;
+  };
+
+  const product = (): FormulaNode => {
+    let node = unary();
+    while (isOp("*") || isOp("/")) {
+      const op = (tokens[at++] as { value: "*" | "/" }).value;
+      node = { kind: "binary", op, left: node, right: unary() };
+    }
+    return node;
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOp("-")) {
+      at += 1;
+      return { kind: "negate", arg: unary() };
+    }
+    if (isOp("+")) {
+      at += 1;
+      return unary();
+    }
+    return primary();
+  };
+
+  const primary = (): FormulaNode => {
+    const token = peek();
+    if (token.type === "number") {
+      at += 1;
+      if (isOp("%")) {
+        at += 1;
+        return { kind: "number", value: token.value / 100, percent: true };
+      }
+      return { kind: "number", value: token.value };
+    }
+    if (token.type === "column") {
+      at += 1;
+      return column(token.value);
+    }
+    if (token.type === "name") {
+      at += 1;
+      if (!isOp("(")) return column(token.value);
+      const fn = token.value.toLowerCase();
+      if (!isFunction(fn)) {
+        throw new FormulaError(`Unknown function ${token.value}`, token.pos);
+      }
+      at += 1;
+      const args = [sum()];
+      while (isOp(",")) {
+        at += 1;
+        args.push(sum());
+      }
+      expect(")");
+      const [least, most] = FUNCTIONS[fn].arity;
+      if (args.length < least || args.length > most) {
+        throw new FormulaError(`Wrong number of arguments to ${fn}`, token.pos);
+      }
+      return { kind: "call", fn, args };
+    }
+    if (isOp("(")) {
+      at += 1;
+      const node = sum();
+      expect(")");
+      return node;
+    }
+    throw new FormulaError(
+      token.type === "end" ? "Formula ends too early" : `Unexpected "${token.value}"`,
+      token.pos
+    );
+  };
+
+  const root = sum();
+  if (peek().type !== "end") {
+    const token = peek() as Exclude<Token, { type: "end" }>;
+    throw new FormulaError(`Unexpected "${token.value}"`, token.pos);
+  }
+  return { root, columns };
+}
+
+// Thrown while evaluating one row; becomes a FormulaRowError
+class RowValueError extends Error {}
+
+function evaluate(node: FormulaNode, row: Record<string, unknown>): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "column": {
+      const raw = row[node.name];
+      if (raw === undefined || raw === null || raw === "") {
+        throw new RowValueError(`${node.name} is empty`);
+      }
+      const value = toNumber(raw);
+      if (value === null) throw new RowValueError(`${node.name} is not a number`);
+      return value;
+    }
+    case "negate":
+      return -evaluate(node.arg, row);
+    case "binary": {
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (node.op === "+") return left + right;
+      if (node.op === "-") return left - right;
+      if (node.op === "*") return left * right;
+      if (right === 0) throw new RowValueError("Division by zero");
+      return left / right;
+    }
+    case "call":
+      return FUNCTIONS[node.fn].apply(node.args.map((arg) => evaluate(arg, row)));
+  }
+}
+
+// Sums and differences of percentages are percentages; anything scaled,
+// multiplied or divided is a plain number
+function isShareArithmetic(node: FormulaNode): boolean {
+  switch (node.kind) {
+    case "column":
+      return true;
+    case "number":
+      return node.percent === true;
+    case "negate":
+      return isShareArithmetic(node.arg);
+    case "binary":
+      return (
+        (node.op === "+" || node.op === "-") &&
+        isShareArithmetic(node.left) &&
+        isShareArithmetic(node.right)
+      );
+    case "call":
+      return node.fn !== "round" && node.args.every(isShareArithmetic);
+  }
+}
+
+/**
+ * Add a formula's column, called `name`, to the rows and its description
+ * to the schema. Rows the formula cannot be evaluated for are left without
+ * the column and reported. Throws FormulaError when the formula names a
+ * column that is missing or not numeric.
+ */
+export function applyFormula(
+  rows: Record<string, unknown>[],
+  schema: SurveySchema,
+  name: string,
+  formula: Formula
+): { rows: Record<string, unknown>[]; schema: SurveySchema; errors: FormulaRowError[] } {
+  for (const column of formula.columns) {
+    if (!schema[column]) throw new FormulaError(`Unknown column ${column}`);
+    if (!isNumericColumn(schema[column])) {
+      throw new FormulaError(`${column} is not a numeric column`);
+    }
+  }
+  const isPercent =
+    formula.columns.length > 0 &&
+    formula.columns.every((c) => schema[c].type === "percent") &&
+    isShareArithmetic(formula.root);
+  const column: ColumnSchema = {
+    type: isPercent ? "percent" : "numeric",
+    unit: isPercent ? "%" : null,
+    label: name,
+    role: null,
+  };
+
+  const errors: FormulaRowError[] = [];
+  const out = rows.map((row, i) => {
+    try {
+      const value = evaluate(formula.root, row);
+      if (!Number.isFinite(value)) throw new RowValueError("Result is not a finite number");
+      return { ...row, [name]: value };
+    } catch (err) {
+      if (!(err instanceof RowValueError)) throw err;
+      errors.push({ row: i + 1, message: err.message });
+      return row;
+    }
+  });
+  return { rows: out, schema: { ...schema, [name]: column }, errors };
+}
+
+/** A named formula, as stored for a state or survey. */
+export type NamedFormula = { name: string; formula: string };
+
+/**
+ * Apply formulas in order, so one may use the column of an earlier one.
+ * A formula that fails as a whole is skipped; failures are keyed by name.
+ */
+export function applyFormulas(
+  rows: Record<string, unknown>[],
+  schema: SurveySchema,
+  formulas: NamedFormula[]
+): {
+  rows: Record<string, unknown>[];
+  schema: SurveySchema;
+  errors: Record<string, { formula: string | null; rows: FormulaRowError[] }>;
+} {
+  const errors: Record<string, { formula: string | null; rows: FormulaRowError[] }> = {};
+  for (const { name, formula } of formulas) {
+    if (schema[name]) {
+      errors[name] = { formula: `A column named ${name} already exists`, rows: [] };
+      continue;
+    }
+    try {
+      const result = applyFormula(rows, schema, name, parseFormula(formula));
+      rows = result.rows;
+      schema = result.schema;
+      if (result.errors.length > 0) errors[name] = { formula: null, rows: result.errors };
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      errors[name] = { formula: err.message, rows: [] };
+    }
+  }
+  return { rows, schema, errors };
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "./sessions";
+import { canAccessState, filterByState } from "./stateAccess";
+
+const GEO_BACKEND = process.env.GEO_API_BACKEND ?? "http://localhost:5000/api/geo";
+
+/**
+ * Forward a geo request to the Express geo backend. The backend does not
+ * know about users, so points of states outside the user's allow-list are
+ * dropped here before anything reaches the browser.
+ */
+export async function proxyGeoRequest(req: NextRequest, endpoint: "" | "/search") {
+  const user = await requireRole(req, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const state = searchParams.get("state");
+    if (state && !canAccessState(user.allowedStates, state)) {
+      return NextResponse.json(
+        { error: "You do not have access to this state" },
+        { status: 403 }
+      );
+    }
+    const queryString = searchParams.toString();
+    const base = `${GEO_BACKEND}${endpoint}`;
+    const url = queryString ? `${base}?${queryString}` : base;
+    const res = await fetch(url, { headers: { Accept: "application/json" } });
+    const data = await res.json();
+    if (!res.ok) {
+      return NextResponse.json(
+        { error: "Geo backend unavailable", detail: data },
+        { status: res.status }
+      );
+    }
+    return NextResponse.json(
+      Array.isArray(data)
+        ? filterByState(user.allowedStates, data, (row) => row?.state)
+        : data
+    );
+  } catch {
+    return NextResponse.json(
+      { error: "Geo backend unavailable. Is the Express server running on port 5000?" },
+      { status: 503 }
+    );
+  }
+}
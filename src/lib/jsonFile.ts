@@ -0,0 +1,65 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Like readJsonFile, but only a missing file reads as null. A file that
+ * cannot be read or parsed throws, so it is never mistaken for an empty one
+ * and overwritten.
+ */
+export async function readJsonFileStrict<T>(file: string): Promise<T | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw err;
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`${path.relative(process.cwd(), file)} is not valid JSON`);
+  }
+}
+
+// Write to a temp file first so readers never see a half-written file
+export async function writeJsonFileAtomic(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const suffix = `${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2, 8)}`;
+  const tmp = `${file}.${suffix}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf-8");
+  await fs.rename(tmp, file);
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, change and write back a JSON file. Updates to the same file from
+ * this process run one after another so none of them is lost. A missing
+ * file starts from `fallback`; an unreadable or corrupt one is left alone
+ * and the update fails.
+ */
+export function updateJsonFile<T, R = void>(
+  file: string,
+  fallback: T,
+  update: (current: T) => Promise<{ value: T; result: R }> | { value: T; result: R }
+): Promise<R> {
+  const run = (queues.get(file) ?? Promise.resolve()).then(async () => {
+    const current = (await readJsonFileStrict<T>(file)) ?? fallback;
+    const { value, result } = await update(current);
+    await writeJsonFileAtomic(file, value);
+    return result;
+  });
+  queues.set(
+    file,
+    run.catch(() => undefined)
+  );
+  return run;
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Append one JSON value as a line to a log file. */
+export async function appendJsonLine(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, `${JSON.stringify(value)}\n`, "utf-8");
+}
+
+/**
+ * The entries of a JSON lines file, newest (last) first, that pass `keep`.
+ * Unparseable lines are skipped; a missing file has no entries.
+ */
+export async function readJsonLines<T>(
+  file: string,
+  keep: (entry: T) => boolean = () => true,
+  limit?: number
+): Promise<T[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw err;
+  }
+  const entries: T[] = [];
+  for (const line of content.split("\n").reverse()) {
+    if (!line.trim()) continue;
+    let entry: T;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!keep(entry)) continue;
+    entries.push(entry);
+    if (limit && entries.length >= limit) break;
+  }
+  return entries;
+}
@@ -0,0 +1,91 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+type LegacyModule = typeof import("./legacySurveys");
+type StoreModule = typeof import("./surveyStore");
+
+// The store and the legacy file live under data/ in the working directory,
+// so the modules are loaded from inside a scratch directory
+describe("migrateLegacySurveys", () => {
+  const previousCwd = process.cwd();
+  const previousStorage = process.env.SURVEY_STORAGE;
+  let dir: string;
+  let legacy: LegacyModule;
+  let store: StoreModule;
+
+  const rows = (n: number, zone = "North") =>
+    Array.from({ length: n }, (_, i) => ({ Zone: zone, TDP: i }));
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "legacy-surveys-"));
+    process.chdir(dir);
+    delete process.env.SURVEY_STORAGE;
+    legacy = await import("./legacySurveys");
+    store = await import("./surveyStore");
+
+    await store.createSurveys([
+      {
+        id: "survey-existing",
+        title: "Existing",
+        state: "Bihar",
+        uploadedAt: "2024-01-01T00:00:00.000Z",
+        numVariables: 2,
+        variablesList: ["Zone", "TDP"],
+        numInstances: 3,
+        data: rows(3),
+      },
+    ]);
+    await fs.writeFile(
+      path.join(dir, "data", "surveys.json"),
+      JSON.stringify({
+        "survey-existing": { title: "Existing", state: "Bihar", data: rows(3) },
+        copy: { id: "survey-copy", title: "Copy", state: "Bihar", data: rows(3) },
+        similar: { id: "survey-similar", title: "Similar", state: "Bihar", data: rows(3, "South") },
+        other: { id: "survey-other", title: "Other", state: "Tamilnadu", data: rows(3) },
+        broken: { id: "survey-broken", title: "Broken" },
+      })
+    );
+  });
+
+  after(async () => {
+    process.chdir(previousCwd);
+    if (previousStorage !== undefined) process.env.SURVEY_STORAGE = previousStorage;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("a dry run reports without writing", async () => {
+    const result = await legacy.migrateLegacySurveys({ dryRun: true });
+    assert.deepEqual(result.migrated, ["survey-similar", "survey-other"]);
+    assert.deepEqual((await store.listSurveys()).map((e) => e.id), ["survey-existing"]);
+  });
+
+  test("skips exact copies and flags likely duplicates", async () => {
+    const result = await legacy.migrateLegacySurveys();
+    assert.deepEqual(result, {
+      migrated: ["survey-similar", "survey-other"],
+      alreadyMigrated: ["survey-existing"],
+      duplicates: [
+        { id: "survey-copy", title: "Copy", duplicateOf: "survey-existing", exact: true },
+        { id: "survey-similar", title: "Similar", duplicateOf: "survey-existing", exact: false },
+      ],
+      invalid: ["broken"],
+    });
+    const similar = await store.readSurvey("survey-similar");
+    assert.match(similar.notes ?? "", /Possible duplicate of "Existing"/);
+    assert.equal((await store.readSurvey("survey-other")).notes, undefined);
+  });
+
+  test("does nothing more when run again", async () => {
+    const result = await legacy.migrateLegacySurveys();
+    assert.deepEqual(result.migrated, []);
+    assert.deepEqual(result.alreadyMigrated, [
+      "survey-existing",
+      "survey-similar",
+      "survey-other",
+    ]);
+    assert.equal((await store.listSurveys()).length, 3);
+  });
+});
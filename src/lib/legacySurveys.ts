@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { SurveyRow } from "./surveyParser";
+import {
+  importSurveys,
+  listSurveys,
+  readSurvey,
+  sanitizeId,
+  SurveyNotFoundError,
+  type SurveyIndexEntry,
+  type SurveyRecord,
+} from "./surveyStore";
+
+// Surveys uploaded through the old Express backend, keyed by survey id
+const LEGACY_FILE = path.join(process.cwd(), "data", "surveys.json");
+
+type LegacySurvey = Partial<SurveyRecord> & { response?: unknown };
+
+export type LegacyDuplicate = {
+  id: string;
+  title: string;
+  duplicateOf: string;
+  /** Exact duplicates have identical rows and are not migrated. */
+  exact: boolean;
+};
+
+export type LegacyMigrationResult = {
+  migrated: string[];
+  alreadyMigrated: string[];
+  duplicates: LegacyDuplicate[];
+  invalid: string[];
+};
+
+function sortKeys(row: SurveyRow): SurveyRow {
+  return Object.fromEntries(
+    Object.keys(row)
+      .sort()
+      .map((k) => [k, row[k]])
+  );
+}
+
+function fingerprint(rows: SurveyRow[]): string {
+  return createHash("sha1")
+    .update(JSON.stringify(rows.map(sortKeys)))
+    .digest("hex");
+}
+
+async function readLegacyFile(): Promise<Record<string, LegacySurvey>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(LEGACY_FILE, "utf-8"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+function toRecord(key: string, legacy: LegacySurvey): SurveyRecord | null {
+  const id = sanitizeId(String(legacy.id ?? key));
+  if (!id || !Array.isArray(legacy.data)) return null;
+  const data = legacy.data as SurveyRow[];
+  const variablesList = Array.isArray(legacy.variablesList)
+    ? legacy.variablesList
+    : Array.from(new Set(data.flatMap((row) => Object.keys(row))));
+  return {
+    id,
+    title: String(legacy.title ?? "").trim() || id,
+    state: String(legacy.state ?? "").trim(),
+    ...(legacy.fileName ? { fileName: legacy.fileName } : {}),
+    uploadedAt: legacy.uploadedAt ?? new Date(0).toISOString(),
+    numVariables: variablesList.length,
+    variablesList,
+    numInstances: data.length,
+    data,
+  };
+}
+
+/**
+ * Move the surveys in data/surveys.json into the survey store. Safe to run
+ * repeatedly: surveys already in the store are left alone. A survey whose
+ * rows match an existing survey is skipped; one with the same state and row
+ * count as an existing survey is migrated with a note flagging it as a
+ * possible duplicate.
+ */
+export async function migrateLegacySurveys(
+  options: { dryRun?: boolean } = {}
+): Promise<LegacyMigrationResult> {
+  const result: LegacyMigrationResult = {
+    migrated: [],
+    alreadyMigrated: [],
+    duplicates: [],
+    invalid: [],
+  };
+  const legacy = await readLegacyFile();
+  const existing = await listSurveys();
+  const existingIds = new Set(existing.map((e) => e.id));
+
+  // Fingerprints of surveys in the store, read only when a state matches
+  const fingerprints = new Map<string, string>();
+  const fingerprintOf = async (entry: SurveyIndexEntry) => {
+    if (!fingerprints.has(entry.id)) {
+      try {
+        fingerprints.set(entry.id, fingerprint((await readSurvey(entry.id)).data));
+      } catch (err) {
+        if (!(err instanceof SurveyNotFoundError)) throw err;
+        fingerprints.set(entry.id, "");
+      }
+    }
+    return fingerprints.get(entry.id);
+  };
+
+  const candidates: SurveyIndexEntry[] = [...existing];
+  const toImport: SurveyRecord[] = [];
+  for (const [key, survey] of Object.entries(legacy)) {
+    const record = toRecord(key, survey);
+    if (!record) {
+      result.invalid.push(key);
+      continue;
+    }
+    if (existingIds.has(record.id)) {
+      result.alreadyMigrated.push(record.id);
+      continue;
+    }
+
+    const sameState = candidates.filter(
+      (e) => String(e.state).trim() === record.state
+    );
+    const print = fingerprint(record.data);
+    let exactMatch: SurveyIndexEntry | undefined;
+    for (const entry of sameState) {
+      if ((await fingerprintOf(entry)) === print) {
+        exactMatch = entry;
+        break;
+      }
+    }
+    if (exactMatch) {
+      result.duplicates.push({
+        id: record.id,
+        title: record.title,
+        duplicateOf: exactMatch.id,
+        exact: true,
+      });
+      continue;
+    }
+
+    const likely = sameState.find((e) => e.numInstances === record.numInstances);
+    if (likely) {
+      record.notes = `Possible duplicate of "${likely.title}" (${likely.id}); migrated from data/surveys.json`;
+      result.duplicates.push({
+        id: record.id,
+        title: record.title,
+        duplicateOf: likely.id,
+        exact: false,
+      });
+    }
+
+    toImport.push(record);
+    fingerprints.set(record.id, print);
+    candidates.push({
+      id: record.id,
+      title: record.title,
+      state: record.state,
+      uploadedAt: record.uploadedAt,
+      numInstances: record.numInstances,
+      numVariables: record.numVariables,
+    });
+    result.migrated.push(record.id);
+  }
+
+  if (!options.dryRun && toImport.length > 0) {
+    await importSurveys(toImport);
+  }
+  return result;
+}
@@ -0,0 +1,101 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  abandonLoginAttempt,
+  recordLoginFailure,
+  recordLoginSuccess,
+  startLoginAttempt,
+  type LoginAttempt,
+} from "./loginThrottle";
+
+const MINUTE = 60 * 1000;
+
+function start(ip: string, username: string, now: number): LoginAttempt {
+  const gate = startLoginAttempt(ip, username, now);
+  assert.ok(gate.allowed, `${ip} ${username} was refused`);
+  return gate.attempt;
+}
+
+function fail(ip: string, username: string | null, now: number) {
+  return recordLoginFailure(start(ip, username ?? "nobody", now), username !== null, now);
+}
+
+// The counts are module state, so each test uses its own IPs and usernames
+describe("login throttle", () => {
+  test("locks a username after 5 failures for 15 minutes", () => {
+    const now = Date.UTC(2024, 0, 1);
+    for (let i = 0; i < 4; i++) {
+      assert.equal(fail(`192.0.2.${i}`, "Asha", now).usernameLocked, false);
+    }
+    assert.equal(fail("192.0.2.4", "asha", now).usernameLocked, true);
+    assert.deepEqual(startLoginAttempt("192.0.2.99", "ASHA", now + MINUTE), {
+      allowed: false,
+      reason: "username",
+      retryAfterSeconds: 14 * 60,
+    });
+    assert.equal(startLoginAttempt("192.0.2.99", "asha", now + 15 * MINUTE).allowed, true);
+  });
+
+  test("counts unknown usernames only against the IP", () => {
+    const now = Date.UTC(2024, 0, 2);
+    for (let i = 0; i < 19; i++) {
+      assert.equal(fail("198.51.100.1", null, now + i).ipLocked, false);
+    }
+    assert.equal(fail("198.51.100.1", null, now + 19).ipLocked, true);
+    assert.equal(startLoginAttempt("198.51.100.1", "anyone", now + 20).allowed, false);
+    assert.equal(startLoginAttempt("198.51.100.2", "nobody", now + 20).allowed, true);
+  });
+
+  test("counts attempts still being checked, so parallel guesses are refused", () => {
+    const now = Date.UTC(2024, 0, 3);
+    const inFlight = Array.from({ length: 5 }, (_, i) => start(`192.0.2.${10 + i}`, "kiran", now));
+    const refused = startLoginAttempt("192.0.2.20", "kiran", now);
+    assert.equal(refused.allowed, false);
+    assert.equal(!refused.allowed && refused.reason, "username");
+
+    const ipInFlight = Array.from({ length: 20 }, (_, i) => start("192.0.2.30", `user${i}`, now));
+    assert.equal(startLoginAttempt("192.0.2.30", "user99", now).allowed, false);
+
+    // Attempts that turn out right, or could not be checked, give their place back
+    inFlight.forEach(recordLoginSuccess);
+    ipInFlight.forEach(abandonLoginAttempt);
+    assert.equal(startLoginAttempt("192.0.2.20", "kiran", now).allowed, true);
+    assert.equal(startLoginAttempt("192.0.2.30", "user99", now).allowed, true);
+  });
+
+  test("counts only the username when the IP is not known", () => {
+    const now = Date.UTC(2024, 0, 6);
+    for (let i = 0; i < 30; i++) {
+      const attempt = startLoginAttempt(null, `guess${i}`, now);
+      assert.ok(attempt.allowed);
+      assert.deepEqual(recordLoginFailure(attempt.attempt, true, now), {
+        usernameLocked: false,
+        ipLocked: false,
+      });
+    }
+    assert.equal(startLoginAttempt(null, "guess99", now).allowed, true);
+  });
+
+  test("settles an attempt only once", () => {
+    const now = Date.UTC(2024, 0, 4);
+    const attempt = start("203.0.113.5", "devi", now);
+    recordLoginFailure(attempt, true, now);
+    abandonLoginAttempt(attempt);
+    assert.deepEqual(recordLoginFailure(attempt, true, now), {
+      usernameLocked: false,
+      ipLocked: false,
+    });
+    for (let i = 0; i < 3; i++) fail("203.0.113.5", "devi", now);
+    assert.equal(fail("203.0.113.5", "devi", now).usernameLocked, true);
+  });
+
+  test("forgets failures outside the window and after a success", () => {
+    const now = Date.UTC(2024, 0, 5);
+    for (let i = 0; i < 4; i++) fail("203.0.113.1", "ravi", now);
+    assert.equal(fail("203.0.113.1", "ravi", now + 16 * MINUTE).usernameLocked, false);
+
+    for (let i = 0; i < 4; i++) fail("203.0.113.2", "meena", now);
+    recordLoginSuccess(start("203.0.113.2", "Meena", now));
+    assert.equal(fail("203.0.113.2", "meena", now).usernameLocked, false);
+  });
+});
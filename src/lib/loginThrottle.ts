@@ -0,0 +1,163 @@
+// Failed sign-ins are counted in memory per existing username and, when
+// the client's address is known, per IP. Too many failures within the
+// window lock that username or IP out for a while. Counts reset when the
+// server restarts.
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_USERNAME_FAILURES = 5;
+const MAX_IP_FAILURES = 20;
+// Each map holds at most this many keys; the oldest go first
+const MAX_TRACKED_KEYS = 10_000;
+// How long a client refused only because of attempts still being checked
+// is asked to wait
+const IN_PROGRESS_RETRY_SECONDS = 5;
+
+type Bucket = {
+  failures: number[];
+  /** Attempts let through whose password is still being checked */
+  pending: number;
+  lockedUntil: number;
+};
+
+const byUsername = new Map<string, Bucket>();
+const byIp = new Map<string, Bucket>();
+
+/**
+ * A sign-in attempt let through by startLoginAttempt. It holds a place in
+ * the username's and the IP's counts until it is recorded as a failure or
+ * a success, or abandoned.
+ */
+export type LoginAttempt = {
+  /** null when the client's address is not known; only the username counts */
+  ip: string | null;
+  username: string;
+  settled: boolean;
+};
+
+export type LoginGate =
+  | { allowed: true; attempt: LoginAttempt }
+  | { allowed: false; reason: "username" | "ip"; retryAfterSeconds: number };
+
+function usernameKey(username: string) {
+  return username.trim().toLowerCase();
+}
+
+function prune(buckets: Map<string, Bucket>, now: number) {
+  for (const [key, bucket] of buckets) {
+    bucket.failures = bucket.failures.filter((t) => t > now - WINDOW_MS);
+    if (bucket.failures.length === 0 && bucket.pending === 0 && bucket.lockedUntil <= now) {
+      buckets.delete(key);
+    }
+  }
+}
+
+// Seconds until another attempt may be made; attempts in progress count as
+// failures until they are settled, so parallel guesses cannot all get in
+function retryAfter(bucket: Bucket | undefined, limit: number, now: number): number {
+  if (!bucket) return 0;
+  if (bucket.lockedUntil > now) return Math.ceil((bucket.lockedUntil - now) / 1000);
+  return bucket.failures.length + bucket.pending >= limit ? IN_PROGRESS_RETRY_SECONDS : 0;
+}
+
+function bucketFor(buckets: Map<string, Bucket>, key: string, now: number): Bucket {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    if (buckets.size >= MAX_TRACKED_KEYS) {
+      prune(buckets, now);
+      // Maps keep insertion order, so the first key is the oldest
+      while (buckets.size >= MAX_TRACKED_KEYS) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+    }
+    bucket = { failures: [], pending: 0, lockedUntil: 0 };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Decide whether a sign-in attempt may be checked at all and, if so,
+ * count it before the password is: call this before anything async, and
+ * settle the attempt with recordLoginFailure, recordLoginSuccess or
+ * abandonLoginAttempt.
+ */
+export function startLoginAttempt(
+  ip: string | null,
+  username: string,
+  now = Date.now()
+): LoginGate {
+  prune(byUsername, now);
+  prune(byIp, now);
+  const key = usernameKey(username);
+  const ipWait = ip === null ? 0 : retryAfter(byIp.get(ip), MAX_IP_FAILURES, now);
+  if (ipWait > 0) return { allowed: false, reason: "ip", retryAfterSeconds: ipWait };
+  const userWait = retryAfter(byUsername.get(key), MAX_USERNAME_FAILURES, now);
+  if (userWait > 0) {
+    return { allowed: false, reason: "username", retryAfterSeconds: userWait };
+  }
+  if (ip !== null) bucketFor(byIp, ip, now).pending += 1;
+  bucketFor(byUsername, key, now).pending += 1;
+  return { allowed: true, attempt: { ip, username: key, settled: false } };
+}
+
+// Give back the attempt's place; false when it was already settled
+function settle(attempt: LoginAttempt): boolean {
+  if (attempt.settled) return false;
+  attempt.settled = true;
+  for (const [buckets, key] of [
+    [byIp, attempt.ip],
+    [byUsername, attempt.username],
+  ] as const) {
+    const bucket = key === null ? undefined : buckets.get(key);
+    if (bucket && bucket.pending > 0) bucket.pending -= 1;
+  }
+  return true;
+}
+
+function addFailure(
+  buckets: Map<string, Bucket>,
+  key: string,
+  limit: number,
+  now: number
+): boolean {
+  const bucket = bucketFor(buckets, key, now);
+  bucket.failures.push(now);
+  if (bucket.failures.length >= limit) {
+    bucket.failures = [];
+    bucket.lockedUntil = now + LOCKOUT_MS;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Count a failed sign-in. `knownUsername` is false when no such account
+ * exists, so made-up names are only counted against the IP. Returns which
+ * keys, if any, this failure locked out.
+ */
+export function recordLoginFailure(
+  attempt: LoginAttempt,
+  knownUsername: boolean,
+  now = Date.now()
+): { usernameLocked: boolean; ipLocked: boolean } {
+  if (!settle(attempt)) return { usernameLocked: false, ipLocked: false };
+  return {
+    usernameLocked:
+      knownUsername &&
+      addFailure(byUsername, attempt.username, MAX_USERNAME_FAILURES, now),
+    ipLocked:
+      attempt.ip !== null && addFailure(byIp, attempt.ip, MAX_IP_FAILURES, now),
+  };
+}
+
+/** A successful sign-in clears the failures counted against the username. */
+export function recordLoginSuccess(attempt: LoginAttempt) {
+  if (!settle(attempt)) return;
+  const bucket = byUsername.get(attempt.username);
+  if (bucket) bucket.failures = [];
+}
+
+/** Let an attempt go uncounted, e.g. when checking it failed. No-op once settled. */
+export function abandonLoginAttempt(attempt: LoginAttempt) {
+  settle(attempt);
+}
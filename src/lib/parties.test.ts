@@ -0,0 +1,89 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parsePartyRegistry, PartyRegistryError } from "./parties";
+
+const party = (id: string, name: string, aliases: string[] = []) => ({
+  id,
+  name,
+  color: "#AABBCC",
+  aliases,
+});
+
+function rejects(registry: unknown, message: RegExp) {
+  assert.throws(() => parsePartyRegistry(registry), (err) => {
+    assert.ok(err instanceof PartyRegistryError);
+    assert.match(err.message, message);
+    return true;
+  });
+}
+
+describe("parsePartyRegistry", () => {
+  test("accepts a registry and tidies it", () => {
+    const registry = parsePartyRegistry({
+      parties: [
+        party("tdp", " TDP ", ["Telugu Desam", "Telugu Desam"]),
+        { name: "JSP", color: "#ff0000" },
+      ],
+      alliances: [
+        { name: "NDA", color: "#00ff00", state: "Andhra Pradesh", year: "2024", members: ["tdp"] },
+      ],
+    });
+    assert.deepEqual(registry.parties[0], {
+      id: "tdp",
+      name: "TDP",
+      fullName: undefined,
+      color: "#aabbcc",
+      aliases: ["Telugu Desam"],
+    });
+    assert.ok(registry.parties[1].id);
+    assert.equal(registry.alliances[0].year, "2024");
+  });
+
+  test("rejects two parties with the same name", () => {
+    rejects(
+      { parties: [party("a", "TDP"), party("b", "tdp ")], alliances: [] },
+      /Two parties are named tdp/
+    );
+    // Names are compared without the trailing question number
+    rejects(
+      { parties: [party("a", "TDP"), party("b", "TDP2")], alliances: [] },
+      /Two parties are named TDP2/
+    );
+  });
+
+  test("rejects a name or alias used by another party", () => {
+    rejects(
+      { parties: [party("a", "INC", ["Congress"]), party("b", "Congress")], alliances: [] },
+      /"Congress" is used by both INC and Congress/
+    );
+    rejects(
+      { parties: [party("a", "TDP"), party("b", "YSRCP", ["tdp"])], alliances: [] },
+      /"tdp" is used by both TDP and YSRCP/
+    );
+  });
+
+  test("lets a party list its own name as an alias", () => {
+    assert.doesNotThrow(() =>
+      parsePartyRegistry({ parties: [party("a", "INC", ["inc", "INC1"])], alliances: [] })
+    );
+  });
+
+  test("rejects malformed entries", () => {
+    rejects(null, /Invalid registry/);
+    rejects({ parties: [] }, /needs parties and alliances lists/);
+    rejects({ parties: [party("a", "")], alliances: [] }, /Party name must be/);
+    rejects({ parties: [{ ...party("a", "TDP"), color: "red" }], alliances: [] }, /colour/);
+    rejects({ parties: [party("a", "TDP"), party("a", "JSP")], alliances: [] }, /ids must be unique/);
+    rejects(
+      { parties: [party("a", "TDP")], alliances: [{ name: "NDA", color: "#000000", members: ["b"] }] },
+      /Unknown party in NDA: b/
+    );
+    rejects(
+      {
+        parties: [party("a", "TDP")],
+        alliances: [{ name: "NDA", color: "#000000", year: "24", members: ["a"] }],
+      },
+      /Year of NDA must be like 2024/
+    );
+  });
+});
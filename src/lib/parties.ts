@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+import {
+  normalizePartyLabel,
+  type Alliance,
+  type Party,
+  type PartyRegistry,
+} from "./partyRegistry";
+
+const PARTIES_FILE = path.join(process.cwd(), "data", "parties.json");
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const YEAR_PATTERN = /^\d{4}$/;
+
+export class PartyRegistryError extends Error {}
+
+function party(name: string, color: string, fullName?: string, aliases: string[] = []): Party {
+  return { id: name.toLowerCase().replace(/[^a-z0-9]+/g, "-"), name, fullName, color, aliases };
+}
+
+// Used until an admin saves a registry; these are the colours the geo map
+// had hard-coded
+const DEFAULT_REGISTRY: PartyRegistry = {
+  parties: [
+    party("TDP", "#d9ff00", "Telugu Desam Party"),
+    party("YSRCP", "#2563eb", "YSR Congress Party", ["YSRC"]),
+    party("JSP", "#ff0000", "Janasena Party"),
+    party("INC", "#00ff26", "Indian National Congress", ["Congress"]),
+    party("BJP", "#ff4d00", "Bharatiya Janata Party"),
+    party("AIADMK", "#00ff26", "All India Anna Dravida Munnetra Kazhagam"),
+    party("DMK", "#ff0000", "Dravida Munnetra Kazhagam"),
+    party("TVK", "#ff4d00", "Tamilaga Vettri Kazhagam"),
+    party("NTK", "#2563eb", "Naam Tamilar Katchi"),
+    party("PMK", "#fbbf24", "Pattali Makkal Katchi"),
+    party("JDU", "#16a34a", "Janata Dal (United)", ["JD(U)"]),
+    party("VIP", "#0891b2", "Vikassheel Insaan Party"),
+    party("RJD", "#2563eb", "Rashtriya Janata Dal"),
+    party("CPI", "#dc2626", "Communist Party of India"),
+    party("AIMIM", "#00ff26", "All India Majlis-e-Ittehadul Muslimeen"),
+    party("BSP", "#1e3a8a", "Bahujan Samaj Party"),
+    party("Jan Suraaj", "#d9ff00", "Jan Suraaj Party", ["JSUP"]),
+  ],
+  alliances: [
+    {
+      id: "nda-andhra-pradesh",
+      name: "TDP+BJP+JSP",
+      color: "#d9ff00",
+      state: "Andhra Pradesh",
+      members: ["tdp", "bjp", "jsp"],
+      aliases: ["TDP+JSP+BJP", "TDP+JSP", "NDA"],
+    },
+    {
+      id: "aiadmk-tamilnadu",
+      name: "AIADMK+",
+      color: "#00ff26",
+      state: "Tamilnadu",
+      members: ["aiadmk", "bjp", "pmk"],
+      aliases: ["AIADMK+BJP+", "AIADMK+BJP+PMK"],
+    },
+    {
+      id: "dmk-tamilnadu",
+      name: "DMK+",
+      color: "#ff0000",
+      state: "Tamilnadu",
+      members: ["dmk", "inc"],
+      aliases: ["DMK+INC+"],
+    },
+    {
+      id: "nda-bihar",
+      name: "NDA",
+      color: "#ff4d00",
+      state: "Bihar",
+      members: ["bjp", "jdu", "vip"],
+      aliases: ["BJP+JDU+VIP+"],
+    },
+    {
+      id: "mgb-bihar",
+      name: "Mahagathbandhan",
+      color: "#2563eb",
+      state: "Bihar",
+      members: ["rjd", "inc", "cpi"],
+      aliases: ["RJD+INC+CPI", "MGB"],
+    },
+    {
+      id: "aimim-bihar",
+      name: "AIMIM+BSP+",
+      color: "#00ff26",
+      state: "Bihar",
+      members: ["aimim", "bsp"],
+      aliases: [],
+    },
+  ],
+};
+
+export async function readPartyRegistry(): Promise<PartyRegistry> {
+  return (await readJsonFile<PartyRegistry>(PARTIES_FILE)) ?? DEFAULT_REGISTRY;
+}
+
+function text(value: unknown, what: string, max = 100): string {
+  const s = typeof value === "string" ? value.trim() : "";
+  if (!s || s.length > max) {
+    throw new PartyRegistryError(`${what} must be 1-${max} characters`);
+  }
+  return s;
+}
+
+function optionalText(value: unknown, what: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return text(value, what);
+}
+
+function color(value: unknown, what: string): string {
+  if (typeof value !== "string" || !COLOR_PATTERN.test(value)) {
+    throw new PartyRegistryError(`${what} must be a colour like #1a2b3c`);
+  }
+  return value.toLowerCase();
+}
+
+function aliasList(value: unknown, what: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new PartyRegistryError(`${what} must be a list`);
+  return [...new Set(value.map((a) => text(a, what)))];
+}
+
+function objectAt(value: unknown, what: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new PartyRegistryError(`Invalid ${what}`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Validate a registry sent by a client. Missing ids are generated; every
+ * name and alias must be unique among parties, and alliance members must
+ * be known parties.
+ */
+export function parsePartyRegistry(value: unknown): PartyRegistry {
+  const input = objectAt(value, "registry");
+  if (!Array.isArray(input.parties) || !Array.isArray(input.alliances)) {
+    throw new PartyRegistryError("The registry needs parties and alliances lists");
+  }
+
+  // Which party each normalised name and alias belongs to, by position, so
+  // two parties with the same name are caught as well
+  const seen = new Map<string, { index: number; name: string }>();
+  const parties: Party[] = input.parties.map((raw, i) => {
+    const p = objectAt(raw, `party ${i + 1}`);
+    const name = text(p.name, "Party name");
+    const parsed: Party = {
+      id: typeof p.id === "string" && p.id ? p.id : randomUUID(),
+      name,
+      fullName: optionalText(p.fullName, `Full name of ${name}`),
+      color: color(p.color, `Colour of ${name}`),
+      aliases: aliasList(p.aliases, `Aliases of ${name}`),
+    };
+    for (const label of [parsed.name, ...parsed.aliases]) {
+      const key = normalizePartyLabel(label);
+      const other = seen.get(key);
+      if (other && other.index !== i) {
+        throw new PartyRegistryError(
+          normalizePartyLabel(other.name) === normalizePartyLabel(name)
+            ? `Two parties are named ${name}`
+            : `"${label}" is used by both ${other.name} and ${name}`
+        );
+      }
+      seen.set(key, { index: i, name });
+    }
+    return parsed;
+  });
+  const partyIds = new Set(parties.map((p) => p.id));
+  if (partyIds.size < parties.length) {
+    throw new PartyRegistryError("Party ids must be unique");
+  }
+
+  const alliances: Alliance[] = input.alliances.map((raw, i) => {
+    const a = objectAt(raw, `alliance ${i + 1}`);
+    const name = text(a.name, "Alliance name");
+    const year = optionalText(a.year, `Year of ${name}`);
+    if (year && !YEAR_PATTERN.test(year)) {
+      throw new PartyRegistryError(`Year of ${name} must be like 2024`);
+    }
+    const members = aliasList(a.members, `Members of ${name}`);
+    const unknown = members.find((m) => !partyIds.has(m));
+    if (unknown) {
+      throw new PartyRegistryError(`Unknown party in ${name}: ${unknown}`);
+    }
+    return {
+      id: typeof a.id === "string" && a.id ? a.id : randomUUID(),
+      name,
+      color: color(a.color, `Colour of ${name}`),
+      state: optionalText(a.state, `State of ${name}`),
+      year,
+      members,
+      aliases: aliasList(a.aliases, `Aliases of ${name}`),
+    };
+  });
+
+  return { parties, alliances };
+}
+
+/** Replace the registry. Returns the previous one. */
+export async function savePartyRegistry(registry: PartyRegistry): Promise<PartyRegistry> {
+  return updateJsonFile<PartyRegistry | null, PartyRegistry>(PARTIES_FILE, null, (current) => ({
+    value: registry,
+    result: current ?? DEFAULT_REGISTRY,
+  }));
+}
@@ -0,0 +1,126 @@
+/**
+ * Parties and alliances with their official colours, used by every chart,
+ * legend and map to turn a column name or value ("TDP1", "INC4",
+ * "TDP+BJP+JSP6") into a canonical label and colour. Safe to use in the
+ * browser; storage lives in parties.ts.
+ */
+export type Party = {
+  id: string;
+  /** Canonical short name, e.g. "TDP" */
+  name: string;
+  fullName?: string;
+  /** "#rrggbb" */
+  color: string;
+  /** Other spellings found in uploads */
+  aliases: string[];
+};
+
+export type Alliance = {
+  id: string;
+  name: string;
+  color: string;
+  /** Where the alliance applies; any state or year when absent */
+  state?: string;
+  year?: string;
+  /** Party ids */
+  members: string[];
+  aliases: string[];
+};
+
+export type PartyRegistry = {
+  parties: Party[];
+  alliances: Alliance[];
+};
+
+export const EMPTY_PARTY_REGISTRY: PartyRegistry = { parties: [], alliances: [] };
+
+/** The state and election year a label is shown for. */
+export type PartyContext = { state?: string | null; year?: string | null };
+
+export type ResolvedParty = {
+  kind: "party" | "alliance";
+  id: string;
+  label: string;
+  color: string;
+};
+
+/**
+ * The form labels are matched in: upper case, single spaces and without
+ * the question number uploads append ("INC4"). A trailing "+" ("DMK+",
+ * the DMK and its allies) is kept.
+ */
+export function normalizePartyLabel(label: string): string {
+  return label
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, " ")
+    .replace(/\s*\+\s*/g, "+")
+    .replace(/\d+$/, "")
+    .trim();
+}
+
+function sameState(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function namesOf(item: { name: string; aliases: string[] }): string[] {
+  return [item.name, ...item.aliases].map(normalizePartyLabel);
+}
+
+// Alliances that apply in the context, most specific first. Without a year
+// in the context, alliances for any year of the state apply, latest first.
+function alliancesFor(registry: PartyRegistry, context: PartyContext): Alliance[] {
+  const score = (a: Alliance) => (a.state ? 2 : 0) + (a.year ? 1 : 0);
+  return registry.alliances
+    .filter(
+      (a) =>
+        (!a.state || (!!context.state && sameState(a.state, context.state))) &&
+        (!a.year || !context.year || a.year === context.year)
+    )
+    .sort((a, b) => score(b) - score(a) || (b.year ?? "").localeCompare(a.year ?? ""));
+}
+
+function findParty(registry: PartyRegistry, key: string): Party | undefined {
+  return registry.parties.find((p) => namesOf(p).includes(key));
+}
+
+function fromParty(party: Party): ResolvedParty {
+  return { kind: "party", id: party.id, label: party.name, color: party.color };
+}
+
+function fromAlliance(alliance: Alliance): ResolvedParty {
+  return { kind: "alliance", id: alliance.id, label: alliance.name, color: alliance.color };
+}
+
+/**
+ * The party or alliance a label stands for. A combination such as
+ * "TDP+BJP+JSP" or "TVK+" without its own alias resolves to the alliance
+ * of those parties in the context, or else to its first party.
+ */
+export function resolveParty(
+  registry: PartyRegistry,
+  label: string,
+  context: PartyContext = {}
+): ResolvedParty | null {
+  const key = normalizePartyLabel(label);
+  if (!key) return null;
+
+  const alliances = alliancesFor(registry, context);
+  const alliance = alliances.find((a) => namesOf(a).includes(key));
+  if (alliance) return fromAlliance(alliance);
+
+  const party = findParty(registry, key);
+  if (party) return fromParty(party);
+
+  if (!key.includes("+")) return null;
+  const members = key
+    .split("+")
+    .filter(Boolean)
+    .map((p) => findParty(registry, p));
+  if (members.length === 0 || members.some((m) => !m)) return null;
+  const ids = members.map((m) => m!.id);
+  const grouped = alliances.find((a) => ids.every((id) => a.members.includes(id)));
+  if (grouped) return fromAlliance(grouped);
+  const names = members.map((m) => m!.name).join("+");
+  return { ...fromParty(members[0]!), label: key.endsWith("+") ? `${names}+` : names };
+}
@@ -0,0 +1,108 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+type ReportPrefsModule = typeof import("./reportPrefs");
+
+const RED = "#ff0000";
+const GREEN = "#00ff00";
+const BLUE = "#0000ff";
+
+// The preference files live under data/ in the working directory, so the
+// module is loaded from inside a scratch directory
+describe("report preferences", () => {
+  const previousCwd = process.cwd();
+  let dir: string;
+  let prefs: ReportPrefsModule;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "report-prefs-"));
+    process.chdir(dir);
+    prefs = await import("./reportPrefs");
+  });
+
+  after(async () => {
+    process.chdir(previousCwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("reads a legacy bare colour map as the team's all-surveys layer", async () => {
+    await fs.mkdir(path.join(dir, "data"), { recursive: true });
+    await fs.writeFile(
+      path.join(dir, "data", "reports-field-colors.json"),
+      JSON.stringify({ BJP: RED })
+    );
+    assert.deepEqual(await prefs.resolvePrefs("u1", { state: "Bihar" }), {
+      fieldColors: { BJP: RED },
+      vizShowCurve: {},
+    });
+  });
+
+  test("layers the user over the team, each from all surveys to the survey", async () => {
+    const bihar = { state: "Bihar", surveyId: "s1" };
+    await prefs.saveUserPrefs("u1", { scope: "state", state: "Bihar" }, bihar, {
+      fieldColors: { BJP: GREEN },
+    });
+    await prefs.saveUserPrefs("u1", { scope: "survey", surveyId: "s1" }, bihar, {
+      fieldColors: { BJP: BLUE },
+      vizShowCurve: { BJP: true },
+    });
+
+    assert.deepEqual(await prefs.resolvePrefs("u1", bihar), {
+      fieldColors: { BJP: BLUE },
+      vizShowCurve: { BJP: true },
+    });
+    // State names match whatever their case
+    assert.equal(
+      (await prefs.resolvePrefs("u1", { state: "bihar ", surveyId: "s2" })).fieldColors.BJP,
+      GREEN
+    );
+    assert.equal((await prefs.resolvePrefs("u1", { state: "Assam" })).fieldColors.BJP, RED);
+    // Nobody else sees them
+    assert.equal((await prefs.resolvePrefs("u2", bihar)).fieldColors.BJP, RED);
+  });
+
+  test("stores only what differs from the layers below", async () => {
+    const context = { state: "Bihar", surveyId: "s1" };
+    const { after } = await prefs.saveUserPrefs(
+      "u1",
+      { scope: "survey", surveyId: "s1" },
+      context,
+      { fieldColors: { BJP: GREEN } }
+    );
+    // Green already shows from the state layer, so the override goes
+    assert.deepEqual(after.fieldColors, {});
+    assert.equal((await prefs.resolvePrefs("u1", context)).fieldColors.BJP, GREEN);
+  });
+
+  test("publishing moves the user's layer into the team default", async () => {
+    const target = { scope: "state", state: "Bihar" } as const;
+    const { before: was, after: now } = await prefs.publishUserPrefs("u1", target);
+    assert.deepEqual(was.fieldColors, {});
+    assert.deepEqual(now.fieldColors, { BJP: GREEN });
+    assert.equal((await prefs.resolvePrefs("u2", { state: "Bihar" })).fieldColors.BJP, GREEN);
+
+    await prefs.saveUserPrefs("u1", target, { state: "Bihar" }, { fieldColors: { BJP: BLUE } });
+    await prefs.resetUserPrefs("u1", target);
+    assert.equal((await prefs.resolvePrefs("u1", { state: "Bihar" })).fieldColors.BJP, GREEN);
+  });
+
+  test("describes added, changed and removed entries", () => {
+    assert.deepEqual(
+      prefs.describePrefChanges(
+        { fieldColors: { BJP: RED, INC: GREEN }, vizShowCurve: {} },
+        { fieldColors: { BJP: BLUE, JDU: RED }, vizShowCurve: {} }
+      ),
+      { fieldColors: { BJP: [RED, BLUE], INC: [GREEN, null], JDU: [null, RED] } }
+    );
+  });
+
+  test("a target needs the state or survey it names", () => {
+    assert.deepEqual(prefs.parsePrefTarget(undefined, {}), { scope: "all" });
+    assert.throws(() => prefs.parsePrefTarget("state", { state: " " }), prefs.ReportPrefsError);
+    assert.throws(() => prefs.parsePrefTarget("survey", { state: "Bihar" }), /A survey is required/);
+    assert.throws(() => prefs.parsePrefTarget("team", {}), /Scope must be/);
+  });
+});
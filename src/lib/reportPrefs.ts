@@ -0,0 +1,299 @@
+import path from "path";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+
+// The team default. Older installs kept everyone's colours here, so the
+// plain { fieldColors, vizShowCurve } shape (or a bare colour map) is read
+// as the all-surveys layer.
+const TEAM_PREFS_FILE = path.join(process.cwd(), "data", "reports-field-colors.json");
+// Everyone's own preferences, keyed by user id
+const USER_PREFS_FILE = path.join(process.cwd(), "data", "report-prefs.json");
+
+export type ChartPrefs = {
+  fieldColors: Record<string, string>;
+  vizShowCurve: Record<string, boolean>;
+};
+
+/**
+ * Preferences for all surveys, overridden per state and then per survey, so
+ * the same column name can mean different things in different surveys.
+ */
+export type ScopedPrefs = ChartPrefs & {
+  states?: Record<string, ChartPrefs>;
+  surveys?: Record<string, ChartPrefs>;
+};
+
+export const PREF_SCOPES = ["all", "state", "survey"] as const;
+
+export type PrefScope = (typeof PREF_SCOPES)[number];
+
+/** Where a change applies: every survey, one state or one survey. */
+export type PrefTarget =
+  | { scope: "all" }
+  | { scope: "state"; state: string }
+  | { scope: "survey"; surveyId: string };
+
+/** The state and survey a chart is showing. */
+export type PrefContext = { state?: string | null; surveyId?: string | null };
+
+export class ReportPrefsError extends Error {}
+
+export function isValidFieldColors(obj: unknown): obj is Record<string, string> {
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return false;
+  return Object.values(obj).every(
+    (v) => typeof v === "string" && /^#[0-9a-fA-F]{6}$/.test(v)
+  );
+}
+
+export function isValidShowCurve(obj: unknown): obj is Record<string, boolean> {
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return false;
+  return Object.values(obj).every((v) => typeof v === "boolean");
+}
+
+function emptyPrefs(): ChartPrefs {
+  return { fieldColors: {}, vizShowCurve: {} };
+}
+
+function stateKey(state: string): string {
+  return state.trim().toLowerCase();
+}
+
+function toChartPrefs(value: unknown): ChartPrefs {
+  const obj = (value ?? {}) as Record<string, unknown>;
+  return {
+    fieldColors: isValidFieldColors(obj.fieldColors) ? obj.fieldColors : {},
+    vizShowCurve: isValidShowCurve(obj.vizShowCurve) ? obj.vizShowCurve : {},
+  };
+}
+
+function toPrefsMap(value: unknown): Record<string, ChartPrefs> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).map(([key, prefs]) => [key, toChartPrefs(prefs)])
+  );
+}
+
+function toScopedPrefs(value: unknown): ScopedPrefs {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return emptyPrefs();
+  }
+  const obj = value as Record<string, unknown>;
+  const known = ["fieldColors", "vizShowCurve", "states", "surveys"];
+  // Legacy format: the file is directly the colour map
+  if (!known.some((k) => obj[k] !== undefined)) {
+    return isValidFieldColors(obj) ? { fieldColors: obj, vizShowCurve: {} } : emptyPrefs();
+  }
+  return {
+    ...toChartPrefs(obj),
+    states: toPrefsMap(obj.states),
+    surveys: toPrefsMap(obj.surveys),
+  };
+}
+
+function layerAt(prefs: ScopedPrefs, target: PrefTarget): ChartPrefs | undefined {
+  if (target.scope === "all") return prefs;
+  if (target.scope === "state") return prefs.states?.[stateKey(target.state)];
+  return prefs.surveys?.[target.surveyId];
+}
+
+function withLayer(prefs: ScopedPrefs, target: PrefTarget, layer: ChartPrefs): ScopedPrefs {
+  if (target.scope === "all") return { ...prefs, ...layer };
+  if (target.scope === "state") {
+    return { ...prefs, states: { ...prefs.states, [stateKey(target.state)]: layer } };
+  }
+  return { ...prefs, surveys: { ...prefs.surveys, [target.surveyId]: layer } };
+}
+
+// Least to most specific layers of one set of preferences for a chart
+function layersFor(prefs: ScopedPrefs, context: PrefContext): ChartPrefs[] {
+  const layers: ChartPrefs[] = [prefs];
+  if (context.state) {
+    const layer = layerAt(prefs, { scope: "state", state: context.state });
+    if (layer) layers.push(layer);
+  }
+  if (context.surveyId) {
+    const layer = layerAt(prefs, { scope: "survey", surveyId: context.surveyId });
+    if (layer) layers.push(layer);
+  }
+  return layers;
+}
+
+function merge(layers: ChartPrefs[]): ChartPrefs {
+  return layers.reduce<ChartPrefs>(
+    (acc, layer) => ({
+      fieldColors: { ...acc.fieldColors, ...layer.fieldColors },
+      vizShowCurve: { ...acc.vizShowCurve, ...layer.vizShowCurve },
+    }),
+    emptyPrefs()
+  );
+}
+
+export async function readTeamPrefs(): Promise<ScopedPrefs> {
+  return toScopedPrefs(await readJsonFile<unknown>(TEAM_PREFS_FILE));
+}
+
+export async function readUserPrefs(userId: string): Promise<ScopedPrefs> {
+  const all = await readJsonFile<Record<string, unknown>>(USER_PREFS_FILE);
+  return toScopedPrefs(all?.[userId]);
+}
+
+/**
+ * The preferences a user sees for a chart: the team default, then their
+ * own, each from all surveys to the state to the survey.
+ */
+export async function resolvePrefs(userId: string, context: PrefContext): Promise<ChartPrefs> {
+  const [team, user] = await Promise.all([readTeamPrefs(), readUserPrefs(userId)]);
+  return merge([...layersFor(team, context), ...layersFor(user, context)]);
+}
+
+// What a chart in `context` would show without the user's layer at `target`
+// and the ones above it
+function prefsBelow(
+  team: ScopedPrefs,
+  user: ScopedPrefs,
+  target: PrefTarget,
+  context: PrefContext
+): ChartPrefs {
+  const userLayers: ChartPrefs[] = [];
+  if (target.scope !== "all") userLayers.push(user);
+  if (target.scope === "survey" && context.state) {
+    const layer = layerAt(user, { scope: "state", state: context.state });
+    if (layer) userLayers.push(layer);
+  }
+  return merge([...layersFor(team, context), ...userLayers]);
+}
+
+function applyChanges<T>(
+  layer: Record<string, T>,
+  sent: Record<string, T>,
+  shown: Record<string, T>,
+  below: Record<string, T>
+): Record<string, T> {
+  const next = { ...layer };
+  for (const [key, value] of Object.entries(sent)) {
+    if (shown[key] === value) continue;
+    // Matching what would show anyway needs no override
+    if (below[key] === value) delete next[key];
+    else next[key] = value;
+  }
+  return next;
+}
+
+/**
+ * Save a user's preferences for a chart. `sent` is what the chart now shows
+ * for `context`; only values that differ from what it showed before are
+ * stored, in the user's layer for `target`.
+ */
+export async function saveUserPrefs(
+  userId: string,
+  target: PrefTarget,
+  context: PrefContext,
+  sent: Partial<ChartPrefs>
+): Promise<{ before: ChartPrefs; after: ChartPrefs }> {
+  const team = await readTeamPrefs();
+  return updateJsonFile<
+    Record<string, unknown>,
+    { before: ChartPrefs; after: ChartPrefs }
+  >(USER_PREFS_FILE, {}, (all) => {
+    const user = toScopedPrefs(all[userId]);
+    const shown = merge([...layersFor(team, context), ...layersFor(user, context)]);
+    const below = prefsBelow(team, user, target, context);
+    const layer = layerAt(user, target) ?? emptyPrefs();
+    const next: ChartPrefs = {
+      fieldColors: applyChanges(
+        layer.fieldColors,
+        sent.fieldColors ?? {},
+        shown.fieldColors,
+        below.fieldColors
+      ),
+      vizShowCurve: applyChanges(
+        layer.vizShowCurve,
+        sent.vizShowCurve ?? {},
+        shown.vizShowCurve,
+        below.vizShowCurve
+      ),
+    };
+    return {
+      value: { ...all, [userId]: withLayer(user, target, next) },
+      result: { before: layer, after: next },
+    };
+  });
+}
+
+/** Drop a user's own preferences at one scope, falling back to the team default. */
+export async function resetUserPrefs(userId: string, target: PrefTarget): Promise<void> {
+  await updateJsonFile<Record<string, unknown>>(USER_PREFS_FILE, {}, (all) => {
+    const user = toScopedPrefs(all[userId]);
+    return {
+      value: { ...all, [userId]: withLayer(user, target, emptyPrefs()) },
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Make a user's preferences at one scope the team default there, and clear
+ * them from the user's own layer. Returns the team layer before and after.
+ */
+export async function publishUserPrefs(
+  userId: string,
+  target: PrefTarget
+): Promise<{ before: ChartPrefs; after: ChartPrefs }> {
+  const own = layerAt(await readUserPrefs(userId), target) ?? emptyPrefs();
+  const result = await updateJsonFile<unknown, { before: ChartPrefs; after: ChartPrefs }>(
+    TEAM_PREFS_FILE,
+    {},
+    (raw) => {
+      const team = toScopedPrefs(raw);
+      const before = layerAt(team, target) ?? emptyPrefs();
+      const after = merge([before, own]);
+      return { value: withLayer(team, target, after), result: { before, after } };
+    }
+  );
+  await resetUserPrefs(userId, target);
+  return result;
+}
+
+// Entries that were added, changed or removed, as [before, after]
+function changedEntries<T>(
+  before: Record<string, T> = {},
+  after: Record<string, T> = {}
+): Record<string, [T | null, T | null]> {
+  const changes: Record<string, [T | null, T | null]> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (before[key] !== after[key]) {
+      changes[key] = [before[key] ?? null, after[key] ?? null];
+    }
+  }
+  return changes;
+}
+
+/** What changed between two versions of a layer, for the audit trail. */
+export function describePrefChanges(before: ChartPrefs, after: ChartPrefs) {
+  const fieldColors = changedEntries(before.fieldColors, after.fieldColors);
+  const vizShowCurve = changedEntries(before.vizShowCurve, after.vizShowCurve);
+  return {
+    ...(Object.keys(fieldColors).length ? { fieldColors } : {}),
+    ...(Object.keys(vizShowCurve).length ? { vizShowCurve } : {}),
+  };
+}
+
+/** Audit target naming the layer at `target`. */
+export function describePrefTarget(target: PrefTarget): string {
+  if (target.scope === "state") return `field-colors/state/${target.state}`;
+  if (target.scope === "survey") return `field-colors/survey/${target.surveyId}`;
+  return "field-colors";
+}
+
+/** Read a target from request input; `context` supplies the state or survey. */
+export function parsePrefTarget(scope: unknown, context: PrefContext): PrefTarget {
+  if (scope === undefined || scope === null || scope === "all") return { scope: "all" };
+  if (scope === "state") {
+    if (!context.state?.trim()) throw new ReportPrefsError("A state is required");
+    return { scope: "state", state: context.state };
+  }
+  if (scope === "survey") {
+    if (!context.surveyId?.trim()) throw new ReportPrefsError("A survey is required");
+    return { scope: "survey", surveyId: context.surveyId };
+  }
+  throw new ReportPrefsError("Scope must be all, state or survey");
+}
@@ -0,0 +1,105 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  EMPTY_REPORT_VIEW,
+  parseReportView,
+  reportViewFromQuery,
+  reportViewToQuery,
+  type ReportView,
+} from "./reportView";
+
+const view: ReportView = {
+  ...EMPTY_REPORT_VIEW,
+  state: "Andhra Pradesh",
+  reportId: "survey-1",
+  tab: "visualizations",
+  avgFields: ["TDP1", "YSRCP1"],
+  seriesFields: ["TDP1"],
+  filterFields: ["Gender", "Age group"],
+  derived: ["lead:TDP1:YSRCP1"],
+  filters: { Gender: ["Male", "Female"], "Age group": ["18-25"] },
+  xAxisField: "Date",
+  weightField: "Sample",
+  grain: "week",
+  rollingWindow: 7,
+  rollingOnly: true,
+  confidenceBands: true,
+  sampleSizeField: "Sample",
+  year: "2024",
+  month: "5",
+  rangeStart: "2024-05-01",
+  rangeEnd: "2024-05-31",
+};
+
+const fromQuery = (query: string) => reportViewFromQuery(new URLSearchParams(query));
+
+describe("report view query strings", () => {
+  test("round-trip every setting", () => {
+    const parsed = fromQuery(reportViewToQuery(view));
+    assert.deepEqual({ ...parsed, filters: { ...parsed.filters } }, view);
+  });
+
+  test("leave defaults out", () => {
+    assert.equal(reportViewToQuery(EMPTY_REPORT_VIEW), "");
+    assert.equal(reportViewToQuery({ ...EMPTY_REPORT_VIEW, rollingOnly: true }), "");
+  });
+
+  test("fall back to defaults for unknown values", () => {
+    const parsed = fromQuery("tab=sql&grain=hour&rolling=1000&rollingOnly=yes");
+    assert.equal(parsed.tab, "trends");
+    assert.equal(parsed.grain, "raw");
+    assert.equal(parsed.rollingWindow, 0);
+    assert.equal(parsed.rollingOnly, false);
+  });
+
+  test("keep filters on prototype property names", () => {
+    const parsed = fromQuery("f.__proto__=a&f.constructor=b&f.constructor=c&f.toString=d");
+    assert.deepEqual(Object.keys(parsed.filters), ["__proto__", "constructor", "toString"]);
+    assert.deepEqual(parsed.filters.constructor, ["b", "c"]);
+    assert.equal(Object.getPrototypeOf(parsed.filters), null);
+    assert.match(reportViewToQuery(parsed), /f.__proto__=a/);
+  });
+});
+
+describe("parseReportView", () => {
+  test("accepts a saved view", () => {
+    const parsed = parseReportView(JSON.parse(JSON.stringify(view)));
+    assert.ok(parsed);
+    assert.deepEqual({ ...parsed, filters: { ...parsed.filters } }, view);
+  });
+
+  test("fills in what older views leave out", () => {
+    const parsed = parseReportView({ state: "Bihar" });
+    assert.ok(parsed);
+    assert.deepEqual({ ...parsed, filters: { ...parsed.filters } }, {
+      ...EMPTY_REPORT_VIEW,
+      state: "Bihar",
+    });
+  });
+
+  test("keeps a __proto__ filter as data", () => {
+    const parsed = parseReportView(
+      JSON.parse('{"state":"Bihar","filters":{"__proto__":["x"],"hasOwnProperty":["y"]}}')
+    );
+    assert.ok(parsed);
+    assert.deepEqual(Object.keys(parsed.filters), ["__proto__", "hasOwnProperty"]);
+    assert.deepEqual(parsed.filters["__proto__"], ["x"]);
+    assert.equal(Object.getPrototypeOf(parsed.filters), null);
+  });
+
+  test("rejects malformed views", () => {
+    for (const value of [
+      null,
+      [],
+      {},
+      { state: " " },
+      { state: "Bihar", filters: [] },
+      { state: "Bihar", filters: { Gender: "Male" } },
+      { state: "Bihar", avgFields: [1] },
+      { state: "Bihar", year: 2024 },
+      { state: "Bihar", xAxisField: 3 },
+    ]) {
+      assert.equal(parseReportView(value), null, JSON.stringify(value));
+    }
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * The reports page selection, serialised to and from the URL query string so
+ * a link reproduces the same chart. Saved views store the same shape.
+ */
+export const REPORT_TABS = ["trends", "visualizations", "geo"] as const;
+
+export type ReportTab = (typeof REPORT_TABS)[number];
+
+/** How trend points are bucketed: by the raw x value, or by calendar period. */
+export const TIME_GRAINS = ["raw", "day", "week", "month", "quarter"] as const;
+
+export type TimeGrain = (typeof TIME_GRAINS)[number];
+
+/** Longest rolling average, in periods */
+export const MAX_ROLLING_WINDOW = 60;
+
+export type ReportView = {
+  state: string;
+  /** Empty for all reports of the state */
+  reportId: string;
+  tab: ReportTab;
+  avgFields: string[];
+  seriesFields: string[];
+  filterFields: string[];
+  /** Derived metric specs, e.g. "lead:TDP1:YSRCP1" (see derivedMetrics.ts) */
+  derived: string[];
+  /** Selected values per filter field */
+  filters: Record<string, string[]>;
+  /** null for the automatic x-axis */
+  xAxisField: string | null;
+  /** Numeric column averages are weighted by; null for plain means */
+  weightField: string | null;
+  grain: TimeGrain;
+  /** Periods in the rolling average; 0 for none */
+  rollingWindow: number;
+  /** Draw only the rolling average, without the raw series */
+  rollingOnly: boolean;
+  /** Shade 95% confidence bands around proportion series */
+  confidenceBands: boolean;
+  /** Column holding each row's sample size; null when every row is one respondent */
+  sampleSizeField: string | null;
+  year: string;
+  month: string;
+  rangeStart: string | null;
+  rangeEnd: string | null;
+};
+
+export const EMPTY_REPORT_VIEW: ReportView = {
+  state: "",
+  reportId: "",
+  tab: "trends",
+  avgFields: [],
+  seriesFields: [],
+  filterFields: [],
+  derived: [],
+  filters: {},
+  xAxisField: null,
+  weightField: null,
+  grain: "raw",
+  rollingWindow: 0,
+  rollingOnly: false,
+  confidenceBands: false,
+  sampleSizeField: null,
+  year: "",
+  month: "",
+  rangeStart: null,
+  rangeEnd: null,
+};
+
+// Filter values go in one parameter per field, e.g. f.Gender=Male&f.Gender=Female
+const FILTER_PREFIX = "f.";
+
+function isReportTab(value: unknown): value is ReportTab {
+  return REPORT_TABS.includes(value as ReportTab);
+}
+
+function isTimeGrain(value: unknown): value is TimeGrain {
+  return TIME_GRAINS.includes(value as TimeGrain);
+}
+
+// A window of 1 is the raw series, so anything below 2 means none
+function rollingWindowOf(value: unknown): number {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isInteger(n) && n >= 2 && n <= MAX_ROLLING_WINDOW
+    ? n
+    : 0;
+}
+
+// Filters are keyed by column names taken from links and request bodies, so
+// they have no prototype: "__proto__" or "constructor" is just another key
+function filterMap(): Record<string, string[]> {
+  return Object.create(null);
+}
+
+/** The query string for a view, without the leading "?". Defaults are left out. */
+export function reportViewToQuery(view: ReportView): string {
+  const params = new URLSearchParams();
+  if (view.state) params.set("state", view.state);
+  if (view.reportId) params.set("report", view.reportId);
+  if (view.tab !== "trends") params.set("tab", view.tab);
+  view.avgFields.forEach((f) => params.append("avg", f));
+  view.seriesFields.forEach((f) => params.append("series", f));
+  view.filterFields.forEach((f) => params.append("filter", f));
+  view.derived.forEach((d) => params.append("derived", d));
+  for (const [field, values] of Object.entries(view.filters)) {
+    values.forEach((v) => params.append(`${FILTER_PREFIX}${field}`, v));
+  }
+  if (view.xAxisField) params.set("x", view.xAxisField);
+  if (view.weightField) params.set("weight", view.weightField);
+  if (view.grain !== "raw") params.set("grain", view.grain);
+  if (view.rollingWindow) {
+    params.set("rolling", String(view.rollingWindow));
+    if (view.rollingOnly) params.set("rollingOnly", "1");
+  }
+  if (view.confidenceBands) params.set("bands", "1");
+  if (view.sampleSizeField) params.set("n", view.sampleSizeField);
+  if (view.year) params.set("year", view.year);
+  if (view.month) params.set("month", view.month);
+  if (view.rangeStart) params.set("from", view.rangeStart);
+  if (view.rangeEnd) params.set("to", view.rangeEnd);
+  return params.toString();
+}
+
+/** Read a view from the query string; missing parameters take their defaults. */
+export function reportViewFromQuery(params: URLSearchParams): ReportView {
+  const filters = filterMap();
+  params.forEach((value, key) => {
+    if (key.startsWith(FILTER_PREFIX)) {
+      const field = key.slice(FILTER_PREFIX.length);
+      if (!Object.hasOwn(filters, field)) filters[field] = [];
+      filters[field].push(value);
+    }
+  });
+  const tab = params.get("tab");
+  const grain = params.get("grain");
+  return {
+    state: params.get("state") ?? "",
+    reportId: params.get("report") ?? "",
+    tab: isReportTab(tab) ? tab : "trends",
+    avgFields: params.getAll("avg"),
+    seriesFields: params.getAll("series"),
+    filterFields: params.getAll("filter"),
+    derived: params.getAll("derived"),
+    filters,
+    xAxisField: params.get("x") || null,
+    weightField: params.get("weight") || null,
+    grain: isTimeGrain(grain) ? grain : "raw",
+    rollingWindow: rollingWindowOf(params.get("rolling")),
+    rollingOnly: params.get("rollingOnly") === "1",
+    confidenceBands: params.get("bands") === "1",
+    sampleSizeField: params.get("n") || null,
+    year: params.get("year") ?? "",
+    month: params.get("month") ?? "",
+    rangeStart: params.get("from") || null,
+    rangeEnd: params.get("to") || null,
+  };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function optionalString(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Validate a view sent by a client. Returns null when it is malformed. */
+export function parseReportView(value: unknown): ReportView | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const v = value as Record<string, unknown>;
+  if (typeof v.state !== "string" || !v.state.trim()) return null;
+
+  const filters = v.filters ?? {};
+  if (
+    typeof filters !== "object" ||
+    Array.isArray(filters) ||
+    !Object.values(filters).every(isStringList)
+  ) {
+    return null;
+  }
+  const lists = [
+    v.avgFields ?? [],
+    v.seriesFields ?? [],
+    v.filterFields ?? [],
+    v.derived ?? [],
+  ];
+  if (!lists.every(isStringList)) return null;
+
+  const reportId = v.reportId ?? "";
+  const year = v.year ?? "";
+  const month = v.month ?? "";
+  const xAxisField = optionalString(v.xAxisField);
+  const weightField = optionalString(v.weightField);
+  const sampleSizeField = optionalString(v.sampleSizeField);
+  const rangeStart = optionalString(v.rangeStart);
+  const rangeEnd = optionalString(v.rangeEnd);
+  if (
+    typeof reportId !== "string" ||
+    typeof year !== "string" ||
+    typeof month !== "string" ||
+    xAxisField === undefined ||
+    weightField === undefined ||
+    sampleSizeField === undefined ||
+    rangeStart === undefined ||
+    rangeEnd === undefined
+  ) {
+    return null;
+  }
+
+  const [avgFields, seriesFields, filterFields, derived] = lists as string[][];
+  return {
+    state: v.state,
+    reportId,
+    tab: isReportTab(v.tab) ? v.tab : "trends",
+    avgFields,
+    seriesFields,
+    filterFields,
+    derived,
+    filters: Object.assign(filterMap(), filters),
+    xAxisField: xAxisField || null,
+    weightField: weightField || null,
+    grain: isTimeGrain(v.grain) ? v.grain : "raw",
+    rollingWindow: rollingWindowOf(v.rollingWindow),
+    rollingOnly: v.rollingOnly === true,
+    confidenceBands: v.confidenceBands === true,
+    sampleSizeField: sampleSizeField || null,
+    year,
+    month,
+    rangeStart: rangeStart || null,
+    rangeEnd: rangeEnd || null,
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { hasRole, isRole, requiredRole, type Role } from "./roles";
+
+describe("roles", () => {
+  test("rank viewer below analyst below admin", () => {
+    assert.equal(hasRole("admin", "analyst"), true);
+    assert.equal(hasRole("analyst", "analyst"), true);
+    assert.equal(hasRole("viewer", "analyst"), false);
+    assert.equal(hasRole(undefined, "viewer"), false);
+    assert.equal(isRole("owner"), false);
+  });
+
+  test("require the role each page and API needs", () => {
+    const matrix: [string, string, Role | null][] = [
+      ["/reports", "GET", "viewer"],
+      ["/geo", "GET", "viewer"],
+      ["/api/geo/search", "GET", "viewer"],
+      ["/api/reports/by-state", "GET", "viewer"],
+      ["/api/reports/field-colors", "GET", "viewer"],
+      ["/api/reports/field-colors", "PUT", "analyst"],
+      ["/api/reports/field-colors", "DELETE", "analyst"],
+      ["/api/reports/field-colors/publish", "POST", "admin"],
+      ["/api/reports/calculated-fields", "GET", "viewer"],
+      ["/api/reports/calculated-fields", "POST", "analyst"],
+      ["/servey-lists", "GET", "analyst"],
+      ["/analysis", "GET", "analyst"],
+      ["/api/survey/list", "GET", "analyst"],
+      ["/api/survey/abc", "GET", "analyst"],
+      ["/api/survey/abc", "patch", "admin"],
+      ["/api/survey/abc", "DELETE", "admin"],
+      ["/api/survey/upload", "POST", "admin"],
+      ["/api/survey/geo", "GET", "viewer"],
+      ["/api/parties", "GET", "viewer"],
+      ["/api/parties", "PUT", "admin"],
+      ["/admin/users", "GET", "admin"],
+      ["/api/admin/users", "POST", "admin"],
+      ["/api/audit", "GET", "admin"],
+      ["/settings/tokens", "GET", null],
+      ["/api/auth/me", "GET", null],
+    ];
+    for (const [path, method, role] of matrix) {
+      assert.equal(requiredRole(path, method), role, `${method} ${path}`);
+    }
+  });
+
+  test("match whole path segments only", () => {
+    assert.equal(requiredRole("/administrator", "GET"), null);
+    assert.equal(requiredRole("/api/surveys", "GET"), null);
+  });
+});
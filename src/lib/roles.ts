@@ -0,0 +1,54 @@
+/** User roles, from least to most access. */
+export const ROLES = ["viewer", "analyst", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/** Whether a role grants at least the access of `required`. */
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  return role !== undefined && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+type AccessRule = {
+  /** Matches the path itself and everything below it */
+  path: string;
+  /** Only these methods; all methods when omitted */
+  methods?: string[];
+  role: Role;
+};
+
+// The first matching rule wins, so more specific rules come first. Paths
+// without a rule are open to every signed-in user.
+const ACCESS_RULES: AccessRule[] = [
+  { path: "/admin", role: "admin" },
+  { path: "/api/admin", role: "admin" },
+  { path: "/api/audit", role: "admin" },
+  { path: "/api/survey/upload", role: "admin" },
+  { path: "/api/survey/geo", role: "viewer" },
+  { path: "/api/survey", methods: ["PATCH", "DELETE"], role: "admin" },
+  { path: "/api/survey", role: "analyst" },
+  { path: "/servey-lists", role: "analyst" },
+  { path: "/analysis", role: "analyst" },
+  { path: "/api/reports/field-colors/publish", role: "admin" },
+  { path: "/api/reports/field-colors", methods: ["PUT", "DELETE"], role: "analyst" },
+  { path: "/api/reports/calculated-fields", methods: ["POST", "DELETE"], role: "analyst" },
+  { path: "/api/parties", methods: ["PUT"], role: "admin" },
+  { path: "/api/parties", role: "viewer" },
+  { path: "/reports", role: "viewer" },
+  { path: "/api/reports", role: "viewer" },
+  { path: "/geo", role: "viewer" },
+  { path: "/api/geo", role: "viewer" },
+];
+
+/** The role needed for a request, as enforced by the middleware. */
+export function requiredRole(pathname: string, method: string): Role | null {
+  const rule = ACCESS_RULES.find(
+    (r) =>
+      (pathname === r.path || pathname.startsWith(`${r.path}/`)) &&
+      (!r.methods || r.methods.includes(method.toUpperCase()))
+  );
+  return rule?.role ?? null;
+}
@@ -0,0 +1,74 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+import { parseReportView, type ReportView } from "./reportView";
+import { canAccessState, filterByState, type StateAllowList } from "./stateAccess";
+import type { StoredUser } from "./users";
+
+const VIEWS_FILE = path.join(process.cwd(), "data", "saved-views.json");
+
+/** A named reports page view, shared with everyone who may see its state. */
+export type SavedView = {
+  id: string;
+  name: string;
+  view: ReportView;
+  ownerId: string;
+  ownerUsername: string;
+  createdAt: string;
+};
+
+export class SavedViewError extends Error {}
+
+async function readViews(): Promise<SavedView[]> {
+  return (await readJsonFile<SavedView[]>(VIEWS_FILE)) ?? [];
+}
+
+/** Views whose state the user may see, newest first. */
+export async function listSavedViews(allowed: StateAllowList): Promise<SavedView[]> {
+  const views = filterByState(allowed, await readViews(), (v) => v.view.state);
+  return views.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createSavedView(
+  user: StoredUser,
+  input: { name: unknown; view: unknown }
+): Promise<SavedView> {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 100) {
+    throw new SavedViewError("View name must be 1-100 characters");
+  }
+  const view = parseReportView(input.view);
+  if (!view) {
+    throw new SavedViewError("Invalid view");
+  }
+  if (!canAccessState(user.allowedStates, view.state)) {
+    throw new SavedViewError("You do not have access to this state");
+  }
+
+  const record: SavedView = {
+    id: randomUUID(),
+    name,
+    view,
+    ownerId: user.id,
+    ownerUsername: user.username,
+    createdAt: new Date().toISOString(),
+  };
+  await updateJsonFile<SavedView[]>(VIEWS_FILE, [], (views) => ({
+    value: [...views, record],
+    result: undefined,
+  }));
+  return record;
+}
+
+/**
+ * Delete a view. Only its owner or an admin may do so; returns false when
+ * there was no such view the user could delete.
+ */
+export async function deleteSavedView(user: StoredUser, id: string): Promise<boolean> {
+  return updateJsonFile<SavedView[], boolean>(VIEWS_FILE, [], (views) => {
+    const kept = views.filter(
+      (v) => !(v.id === id && (v.ownerId === user.id || user.role === "admin"))
+    );
+    return { value: kept, result: kept.length < views.length };
+  });
+}
@@ -0,0 +1,68 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { signSessionToken, verifySessionToken } from "./sessionToken";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("session tokens", () => {
+  const previousSecret = process.env.AUTH_SECRET;
+
+  before(() => {
+    process.env.AUTH_SECRET = "test-secret";
+  });
+
+  after(() => {
+    if (previousSecret === undefined) delete process.env.AUTH_SECRET;
+    else process.env.AUTH_SECRET = previousSecret;
+  });
+
+  test("verify until they expire", () => {
+    const now = Date.UTC(2024, 0, 1);
+    const { token, claims } = signSessionToken("user-1", HOUR, now);
+    assert.equal(claims.sub, "user-1");
+    assert.equal(claims.exp, now + HOUR);
+    assert.deepEqual(verifySessionToken(token, now + HOUR - 1), claims);
+    assert.equal(verifySessionToken(token, now + HOUR), null);
+  });
+
+  test("get a new id each time", () => {
+    const a = signSessionToken("user-1", HOUR).claims.jti;
+    const b = signSessionToken("user-1", HOUR).claims.jti;
+    assert.notEqual(a, b);
+  });
+
+  test("reject changed claims and signatures", () => {
+    const { token } = signSessionToken("user-1", HOUR);
+    const [payload, signature] = token.split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: "admin" })).toString(
+      "base64url"
+    );
+    assert.equal(verifySessionToken(`${forged}.${signature}`), null);
+    assert.equal(verifySessionToken(`${payload}.${signature.slice(1)}`), null);
+    assert.equal(verifySessionToken(`${payload}.${signature}.x`), null);
+    assert.equal(verifySessionToken(payload), null);
+    assert.equal(verifySessionToken(""), null);
+  });
+
+  test("reject tokens signed with another secret", () => {
+    const { token } = signSessionToken("user-1", HOUR);
+    process.env.AUTH_SECRET = "rotated";
+    try {
+      assert.equal(verifySessionToken(token), null);
+    } finally {
+      process.env.AUTH_SECRET = "test-secret";
+    }
+  });
+
+  test("are never valid without AUTH_SECRET", () => {
+    const { token } = signSessionToken("user-1", HOUR);
+    delete process.env.AUTH_SECRET;
+    try {
+      assert.equal(verifySessionToken(token), null);
+      assert.throws(() => signSessionToken("user-1", HOUR), /AUTH_SECRET/);
+    } finally {
+      process.env.AUTH_SECRET = "test-secret";
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** Claims carried by a session token. Times are epoch milliseconds. */
+export type SessionClaims = {
+  /** User id */
+  sub: string;
+  iat: number;
+  exp: number;
+  /** Token id, used to revoke a single token */
+  jti: string;
+};
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) throw new Error("AUTH_SECRET must be set to sign sessions");
+  return secret;
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(payload).digest();
+}
+
+/** Issue a token of the form `<base64url claims>.<base64url HMAC-SHA256>`. */
+export function signSessionToken(
+  userId: string,
+  maxAgeMs: number,
+  now = Date.now()
+): { token: string; claims: SessionClaims } {
+  const claims: SessionClaims = {
+    sub: userId,
+    iat: now,
+    exp: now + maxAgeMs,
+    jti: randomBytes(16).toString("base64url"),
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const signature = sign(payload, authSecret()).toString("base64url");
+  return { token: `${payload}.${signature}`, claims };
+}
+
+/**
+ * Check a token's signature and expiry. Returns null for anything that is
+ * malformed, tampered with or expired, or when AUTH_SECRET is not set.
+ */
+export function verifySessionToken(
+  token: string,
+  now = Date.now()
+): SessionClaims | null {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) return null;
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  let claims: Partial<SessionClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    return null;
+  }
+  if (
+    typeof claims?.sub !== "string" ||
+    typeof claims.iat !== "number" ||
+    typeof claims.exp !== "number" ||
+    typeof claims.jti !== "string" ||
+    claims.exp <= now
+  ) {
+    return null;
+  }
+  return claims as SessionClaims;
+}
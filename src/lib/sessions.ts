@@ -0,0 +1,183 @@
+import path from "path";
+import { cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+import { apiTokenAllows, verifyApiToken, type ApiToken } from "./apiTokens";
+import { readJsonFile, updateJsonFile } from "./jsonFile";
+import { hasRole, type Role } from "./roles";
+import {
+  signSessionToken,
+  verifySessionToken,
+  type SessionClaims,
+} from "./sessionToken";
+import { getUser, type StoredUser } from "./users";
+
+// Tokens are self-contained; only revocations are kept on the server
+const REVOCATIONS_FILE = path.join(process.cwd(), "data", "revoked-sessions.json");
+
+export const SESSION_COOKIE = "auth_session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days
+
+type Revocations = {
+  /** Revoked token ids with their expiry, dropped once expired */
+  tokens: Record<string, number>;
+  /** Tokens issued to a user before this time are no longer valid */
+  users: Record<string, number>;
+};
+
+const NO_REVOCATIONS: Revocations = { tokens: {}, users: {} };
+
+export function sessionCookieOptions(maxAge = SESSION_MAX_AGE) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    maxAge,
+    path: "/",
+  };
+}
+
+async function readRevocations(): Promise<Revocations> {
+  const stored = await readJsonFile<Partial<Revocations>>(REVOCATIONS_FILE);
+  return {
+    tokens: stored?.tokens ?? {},
+    users: stored?.users ?? {},
+  };
+}
+
+function updateRevocations(update: (current: Revocations) => Revocations) {
+  return updateJsonFile<Revocations>(REVOCATIONS_FILE, NO_REVOCATIONS, (current) => {
+    const now = Date.now();
+    const next = update({
+      tokens: current.tokens ?? {},
+      users: current.users ?? {},
+    });
+    // Expired tokens fail verification anyway, so forget them
+    next.tokens = Object.fromEntries(
+      Object.entries(next.tokens).filter(([, exp]) => exp > now)
+    );
+    next.users = Object.fromEntries(
+      Object.entries(next.users).filter(
+        ([, cutoff]) => cutoff > now - SESSION_MAX_AGE * 1000
+      )
+    );
+    return { value: next, result: undefined };
+  });
+}
+
+function isRevoked(claims: SessionClaims, revocations: Revocations) {
+  const { tokens, users } = revocations;
+  if (Object.prototype.hasOwnProperty.call(tokens, claims.jti)) return true;
+  const cutoff = Object.prototype.hasOwnProperty.call(users, claims.sub)
+    ? users[claims.sub]
+    : undefined;
+  return cutoff !== undefined && claims.iat < cutoff;
+}
+
+/** Issue a signed session token for a user. */
+export function createSession(userId: string): string {
+  return signSessionToken(userId, SESSION_MAX_AGE * 1000).token;
+}
+
+/** The active user behind a session token, if the token is still valid. */
+export async function getSessionUser(
+  token: string | undefined
+): Promise<StoredUser | null> {
+  const claims = token ? verifySessionToken(token) : null;
+  if (!claims) return null;
+  if (isRevoked(claims, await readRevocations())) return null;
+  const user = await getUser(claims.sub);
+  return user && !user.disabled ? user : null;
+}
+
+/** Invalidate a single token, e.g. on sign out. */
+export async function revokeSession(token: string) {
+  const claims = verifySessionToken(token);
+  if (!claims) return;
+  await updateRevocations((r) => ({
+    ...r,
+    tokens: { ...r.tokens, [claims.jti]: claims.exp },
+  }));
+}
+
+/** Sign a user out everywhere, e.g. after disabling the account. */
+export async function revokeUserSessions(userId: string) {
+  const now = Date.now();
+  await updateRevocations((r) => ({
+    ...r,
+    users: { ...r.users, [userId]: now },
+  }));
+}
+
+/** Who made a request, and with which API token if it was not a browser. */
+export type RequestAuth = {
+  user: StoredUser;
+  apiToken?: ApiToken;
+};
+
+function bearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Authenticate a request by its `Authorization: Bearer` API token, or else
+ * by its session cookie. A request that sends a bearer token is never
+ * authenticated by cookie.
+ */
+export async function getRequestAuth(
+  request: NextRequest
+): Promise<RequestAuth | null> {
+  const bearer = bearerToken(request);
+  if (bearer !== null) {
+    const verified = await verifyApiToken(bearer);
+    return verified ? { user: verified.user, apiToken: verified.token } : null;
+  }
+  const user = await getSessionUser(request.cookies.get(SESSION_COOKIE)?.value);
+  return user ? { user } : null;
+}
+
+/** Whether the request stays within the scope of the API token it used. */
+export function withinTokenScope(auth: RequestAuth, request: NextRequest) {
+  return (
+    !auth.apiToken ||
+    apiTokenAllows(auth.apiToken.scope, request.method, request.nextUrl.pathname)
+  );
+}
+
+export async function getRequestUser(request: NextRequest) {
+  return (await getRequestAuth(request))?.user ?? null;
+}
+
+/** The signed-in user, for server components. */
+export async function getCurrentUser() {
+  const cookieStore = await cookies();
+  return getSessionUser(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * The signed-in user if they have at least the given role, otherwise a 401
+ * or 403 response for the route handler to return.
+ */
+export async function requireRole(
+  request: NextRequest,
+  role: Role
+): Promise<StoredUser | NextResponse> {
+  const auth = await getRequestAuth(request);
+  if (!auth) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  if (!withinTokenScope(auth, request)) {
+    return NextResponse.json(
+      { error: "This API token cannot be used for this request" },
+      { status: 403 }
+    );
+  }
+  if (!hasRole(auth.user.role, role)) {
+    return NextResponse.json(
+      { error: `This requires the ${role} role` },
+      { status: 403 }
+    );
+  }
+  return auth.user;
+}
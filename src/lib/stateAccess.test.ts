@@ -0,0 +1,40 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { canAccessState, cleanStateList, filterByState } from "./stateAccess";
+
+describe("state access", () => {
+  test("users without an allow-list see every state", () => {
+    assert.equal(canAccessState(undefined, "Bihar"), true);
+    assert.equal(canAccessState(null, ""), true);
+  });
+
+  test("an allow-list matches state names ignoring case and spaces", () => {
+    const allowed = ["Andhra Pradesh", "Bihar"];
+    assert.equal(canAccessState(allowed, " andhra pradesh "), true);
+    assert.equal(canAccessState(allowed, "Assam"), false);
+    // A survey without a state belongs to none of them
+    assert.equal(canAccessState(allowed, undefined), false);
+    assert.equal(canAccessState([], "Bihar"), false);
+  });
+
+  test("filters items by their state", () => {
+    const surveys = [
+      { id: "a", state: "Bihar" },
+      { id: "b", state: "Assam" },
+      { id: "c", state: "BIHAR" },
+    ];
+    const byState = (s: { state: string }) => s.state;
+    assert.deepEqual(
+      filterByState(["bihar"], surveys, byState).map((s) => s.id),
+      ["a", "c"]
+    );
+    assert.equal(filterByState(null, surveys, byState), surveys);
+  });
+
+  test("cleans an allow-list from user input", () => {
+    assert.deepEqual(cleanStateList([" Bihar ", "", "bihar", "Assam", "  "]), [
+      "Bihar",
+      "Assam",
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Per-user state scoping. A user without an allow-list sees every state;
+ * otherwise only the listed states. State names are compared ignoring case
+ * and surrounding spaces.
+ */
+export type StateAllowList = string[] | null | undefined;
+
+function normalizeState(state: unknown): string {
+  return String(state ?? "").trim().toLowerCase();
+}
+
+export function canAccessState(allowed: StateAllowList, state: unknown): boolean {
+  if (!allowed) return true;
+  const wanted = normalizeState(state);
+  return allowed.some((s) => normalizeState(s) === wanted);
+}
+
+/** Keep only the items whose state the user may see. */
+export function filterByState<T>(
+  allowed: StateAllowList,
+  items: T[],
+  stateOf: (item: T) => unknown
+): T[] {
+  if (!allowed) return items;
+  return items.filter((item) => canAccessState(allowed, stateOf(item)));
+}
+
+/** Trim, drop blanks and de-duplicate an allow-list from user input. */
+export function cleanStateList(states: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of states) {
+    const state = raw.trim();
+    if (state && !seen.has(normalizeState(state))) {
+      seen.add(normalizeState(state));
+      result.push(state);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,214 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mappingsFromSchema,
+  mergeSurveyRows,
+  normalizeSurveyRows,
+  parseColumnMappingsBySheet,
+  periodStart,
+  surveyColumnsOf,
+  toDateTs,
+  type SurveySchema,
+} from "./surveyColumns";
+
+const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+describe("mergeSurveyRows", () => {
+  const keys = ["Month", "Zone"];
+
+  test("replaces existing rows of an incoming wave", () => {
+    const existing = [
+      { Month: "2024-01-01", Zone: "North", TDP: 0.4 },
+      { Month: "2024-01-01", Zone: "North", TDP: 0.41 },
+      { Month: "2024-02-01", Zone: "North", TDP: 0.42 },
+    ];
+    const incoming = [
+      { Month: "2024-02-01", Zone: "North", TDP: 0.43 },
+      { Month: "2024-03-01", Zone: "North", TDP: 0.45 },
+    ];
+    const merged = mergeSurveyRows(existing, incoming, keys);
+    assert.equal(merged.added, 2);
+    assert.equal(merged.replaced, 1);
+    assert.equal(merged.duplicates, 0);
+    assert.deepEqual(merged.data, [existing[0], existing[1], ...incoming]);
+  });
+
+  test("keeps the last of incoming rows with the same key", () => {
+    const existing = [{ Month: "2024-02-01", Zone: "North", TDP: 0.42 }];
+    const incoming = [
+      { Month: "2024-02-01", Zone: "North", TDP: 0.43 },
+      { Month: "2024-03-01", Zone: "North", TDP: 0.45 },
+      { Month: "2024-02-01", Zone: "North", TDP: 0.44 },
+    ];
+    assert.deepEqual(mergeSurveyRows(existing, incoming, keys), {
+      data: [incoming[1], incoming[2]],
+      added: 2,
+      replaced: 1,
+      duplicates: 1,
+    });
+  });
+
+  test("never matches rows missing a key value", () => {
+    const existing = [{ Month: "2024-01-01", TDP: 0.4 }];
+    const incoming = [{ Month: "2024-01-01", TDP: 0.5 }];
+    const merged = mergeSurveyRows(existing, incoming, keys);
+    assert.equal(merged.replaced, 0);
+    assert.equal(merged.data.length, 2);
+  });
+
+  test("appends everything without keys", () => {
+    const rows = [{ TDP: 0.4 }];
+    assert.deepEqual(mergeSurveyRows(rows, rows, []), {
+      data: [...rows, ...rows],
+      added: 1,
+      replaced: 0,
+      duplicates: 0,
+    });
+  });
+});
+
+describe("mappingsFromSchema", () => {
+  test("keeps the survey's types and every incoming column", () => {
+    const schema: SurveySchema = {
+      Zone: { type: "category", unit: null, label: "Zone", role: "zone" },
+      TDP: { type: "numeric", unit: null, label: "TDP", role: null },
+    };
+    const mappings = mappingsFromSchema(
+      {
+        name: "Sheet1",
+        variablesList: ["Zone ", "TDP", "JSP"],
+        numVariables: 3,
+        numInstances: 1,
+        data: [{ "Zone ": "North", TDP: 0.4, JSP: 0.1 }],
+      },
+      schema
+    );
+    assert.deepEqual(
+      mappings.map((m) => [m.source, m.name, m.type, m.include]),
+      [
+        ["Zone ", "Zone", "category", true],
+        ["TDP", "TDP", "numeric", true],
+        ["JSP", "JSP", "percent", true],
+      ]
+    );
+  });
+});
+
+describe("normalizeSurveyRows", () => {
+  test("converts stored rows with the survey's schema", () => {
+    const schema: SurveySchema = {
+      Month: { type: "date", unit: null, label: "Month", role: "time" },
+      TDP: { type: "percent", unit: "%", label: "TDP", role: "party_share" },
+    };
+    const sheet = normalizeSurveyRows(
+      ["Month", "TDP"],
+      [
+        { Month: 45352, TDP: 43.65 },
+        { Month: " 1 Mar -26", TDP: "41%" },
+      ],
+      schema
+    );
+    assert.deepEqual(sheet.variablesList, ["Month", "TDP"]);
+    assert.deepEqual(sheet.data, [
+      { Month: "2024-03-01", TDP: 0.4365 },
+      { Month: "2026-03-01", TDP: 0.41 },
+    ]);
+  });
+});
+
+describe("surveyColumnsOf", () => {
+  test("converts surveys stored before schemas like a new upload", () => {
+    const legacy = surveyColumnsOf({
+      variablesList: ["Month", "Zone", "TDP"],
+      data: [
+        { Month: 45352, Zone: "North ", TDP: "43.65%" },
+        { Month: 45383, Zone: "South", TDP: 0.41 },
+      ],
+    });
+    assert.deepEqual(legacy.data, [
+      { Month: "2024-03-01", Zone: "North", TDP: 0.4365 },
+      { Month: "2024-04-01", Zone: "South", TDP: 0.41 },
+    ]);
+    assert.equal(legacy.schema.Month.type, "date");
+  });
+
+  test("leaves surveys with a schema as stored", () => {
+    const schema: SurveySchema = {
+      Zone: { type: "category", unit: null, label: "Zone", role: "zone" },
+    };
+    const data = [{ Zone: " North" }];
+    assert.deepEqual(surveyColumnsOf({ variablesList: ["Zone"], data, schema }), {
+      variablesList: ["Zone"],
+      data,
+      schema,
+    });
+  });
+});
+
+describe("toDateTs", () => {
+  test("reads Excel serials and the date text found in surveys as UTC days", () => {
+    assert.equal(toDateTs(45352), day("2024-03-01"));
+    assert.equal(toDateTs("2024-03-24"), day("2024-03-24"));
+    assert.equal(toDateTs("24/03/2026"), day("2026-03-24"));
+    assert.equal(toDateTs(" 1  July-23"), day("2023-07-01"));
+    assert.equal(toDateTs("Jun-25"), day("2025-06-01"));
+  });
+
+  test("rejects labels and impossible dates", () => {
+    assert.equal(toDateTs("Zone 1"), null);
+    assert.equal(toDateTs("31-02-2024"), null);
+    assert.equal(toDateTs(null), null);
+    assert.equal(toDateTs(Number.NaN), null);
+  });
+});
+
+describe("periodStart", () => {
+  const ts = day("2024-05-16"); // a Thursday
+
+  test("buckets by calendar day, Monday week, month and quarter", () => {
+    assert.equal(periodStart(ts, "day"), "2024-05-16");
+    assert.equal(periodStart(ts, "week"), "2024-05-13");
+    assert.equal(periodStart(ts, "month"), "2024-05-01");
+    assert.equal(periodStart(ts, "quarter"), "2024-04-01");
+  });
+
+  test("puts a Sunday in the week that started the Monday before", () => {
+    assert.equal(periodStart(day("2024-05-19"), "week"), "2024-05-13");
+    assert.equal(periodStart(day("2024-01-07"), "week"), "2024-01-01");
+  });
+});
+
+describe("parseColumnMappingsBySheet", () => {
+  const mapping = {
+    source: "TDP",
+    name: "TDP",
+    type: "percent",
+    role: null,
+    include: true,
+  };
+
+  test("accepts an object of mapping lists", () => {
+    const parsed = parseColumnMappingsBySheet({ Sheet1: [mapping] });
+    assert.deepEqual(parsed && { ...parsed }, { Sheet1: [mapping] });
+  });
+
+  test("does not find inherited properties by sheet name", () => {
+    const parsed = parseColumnMappingsBySheet({});
+    assert.ok(parsed);
+    assert.equal(parsed.constructor, undefined);
+    assert.equal(parsed.toString, undefined);
+  });
+
+  test("rejects anything else", () => {
+    for (const value of [
+      null,
+      "Sheet1",
+      [[mapping]],
+      { Sheet1: mapping },
+      { Sheet1: [{ ...mapping, include: "yes" }] },
+      { Sheet1: [null] },
+    ]) {
+      assert.equal(parseColumnMappingsBySheet(value), null);
+    }
+  });
+});
@@ -0,0 +1,551 @@
+import type { ParsedSheet, SurveyRow } from "./surveyParser";
+
+export type ColumnType = "numeric" | "percent" | "date" | "category" | "id";
+
+export const COLUMN_TYPES: ColumnType[] = [
+  "numeric",
+  "percent",
+  "date",
+  "category",
+  "id",
+];
+
+export type ColumnRole =
+  | "party_share"
+  | "swing"
+  | "sample_size"
+  | "zone"
+  | "time";
+
+export const COLUMN_ROLES: ColumnRole[] = [
+  "party_share",
+  "swing",
+  "sample_size",
+  "zone",
+  "time",
+];
+
+export type ColumnMapping = {
+  source: string;
+  name: string;
+  type: ColumnType;
+  role: ColumnRole | null;
+  include: boolean;
+};
+
+/** Persisted description of one survey variable, keyed by variable name. */
+export type ColumnSchema = {
+  type: ColumnType;
+  unit: string | null;
+  label: string;
+  role: ColumnRole | null;
+};
+
+export type SurveySchema = Record<string, ColumnSchema>;
+
+const MONTH_MAP: Record<string, number> = {
+  jan: 0,
+  feb: 1,
+  mar: 2,
+  apr: 3,
+  may: 4,
+  jun: 5,
+  jul: 6,
+  aug: 7,
+  sep: 8,
+  oct: 9,
+  nov: 10,
+  dec: 11,
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Excel serials for 1954-10-03 .. 2119-01-10; wide enough for survey dates
+const EXCEL_SERIAL_MIN = 20000;
+const EXCEL_SERIAL_MAX = 80000;
+const DATE_NAME_HINT = /date|month|day|week|period|time/i;
+const ID_NAME_HINT = /(^|[\s_-])(id|code)$/i;
+const MIN_ROWS_FOR_ID = 10;
+const MAJORITY = 0.7;
+
+function toYear(raw: string): number {
+  const year = parseInt(raw, 10);
+  if (raw.length === 2) return year + (year < 70 ? 2000 : 1900);
+  return year;
+}
+
+function utcDate(year: number, month: number, day: number): number | null {
+  const ts = Date.UTC(year, month, day);
+  const d = new Date(ts);
+  // Reject overflowed dates such as 31-02-2024
+  if (d.getUTCMonth() !== month || d.getUTCDate() !== day) return null;
+  return ts;
+}
+
+function monthIndex(name: string): number | undefined {
+  return MONTH_MAP[name.toLowerCase().slice(0, 3)];
+}
+
+/**
+ * Parse date text found in survey sheets ("2024-03-24", "24-03-26",
+ * "24/03/2026", " 1  July-23", "1 Mar -26", "Jun-25") to a UTC timestamp.
+ * Only these explicit patterns are accepted so that labels like "Zone 1"
+ * are never mistaken for dates.
+ */
+export function parseDateText(value: string): number | null {
+  const s = value.trim().replace(/\s+/g, " ");
+  const iso = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+Z?)?$/);
+  if (iso) {
+    return utcDate(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+  }
+  const dmy = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (dmy) {
+    return utcDate(toYear(dmy[3]), parseInt(dmy[2], 10) - 1, parseInt(dmy[1], 10));
+  }
+  const dayMonYear = s.match(/^(\d{1,2}) ?([A-Za-z]+) ?[- ]? ?(\d{2}|\d{4})$/);
+  if (dayMonYear) {
+    const month = monthIndex(dayMonYear[2]);
+    if (month === undefined) return null;
+    return utcDate(toYear(dayMonYear[3]), month, parseInt(dayMonYear[1], 10));
+  }
+  const monYear = s.match(/^([A-Za-z]+) ?[- ]? ?(\d{2}|\d{4})$/);
+  if (monYear) {
+    const month = monthIndex(monYear[1]);
+    if (month === undefined) return null;
+    return utcDate(toYear(monYear[2]), month, 1);
+  }
+  return null;
+}
+
+export function excelSerialToTs(serial: number): number {
+  return EXCEL_EPOCH + Math.round(serial) * MS_PER_DAY;
+}
+
+function isExcelSerial(value: number): boolean {
+  return value >= EXCEL_SERIAL_MIN && value <= EXCEL_SERIAL_MAX;
+}
+
+// Round away float noise such as 4.19 / 100 = 0.04190000000000001
+function percentToFraction(n: number): number {
+  return Number((n / 100).toPrecision(12));
+}
+
+/** A cell as a number; "43.65%" becomes 0.4365. */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string") {
+    const s = value.trim().replace(/,/g, "");
+    if (s === "" || !/^[-+]?\d*\.?\d+([eE][-+]?\d+)?%?$/.test(s)) return null;
+    const n = parseFloat(s);
+    if (!Number.isFinite(n)) return null;
+    return s.endsWith("%") ? percentToFraction(n) : n;
+  }
+  return null;
+}
+
+/**
+ * A date cell as the UTC midnight of its day: an Excel serial, which surveys
+ * uploaded before dates were normalised still hold, or text parseDateText
+ * reads.
+ */
+export function toDateTs(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return excelSerialToTs(value);
+  }
+  if (typeof value === "string") return parseDateText(value);
+  return null;
+}
+
+/**
+ * First day of the calendar period containing ts, as "YYYY-MM-DD". Weeks
+ * start on Monday.
+ */
+export function periodStart(
+  ts: number,
+  period: "day" | "week" | "month" | "quarter"
+): string {
+  const d = new Date(ts);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  let start = Date.UTC(year, month, d.getUTCDate());
+  if (period === "week") {
+    start = Date.UTC(year, month, d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  } else if (period === "month") {
+    start = Date.UTC(year, month, 1);
+  } else if (period === "quarter") {
+    start = Date.UTC(year, month - (month % 3), 1);
+  }
+  return new Date(start).toISOString().slice(0, 10);
+}
+
+export function inferColumnType(name: string, rows: SurveyRow[]): ColumnType {
+  let seen = 0;
+  let numbers = 0;
+  let fractions = 0;
+  let integers = 0;
+  let serials = 0;
+  let textDates = 0;
+  const distinct = new Set<string>();
+  for (const row of rows) {
+    const value = row[name];
+    if (value == null || (typeof value === "string" && value.trim() === "")) {
+      continue;
+    }
+    seen++;
+    distinct.add(String(value).trim());
+    const n = toNumber(value);
+    if (n !== null) {
+      numbers++;
+      if (Math.abs(n) <= 1) fractions++;
+      if (Number.isInteger(n)) {
+        integers++;
+        if (isExcelSerial(n)) serials++;
+      }
+    } else if (typeof value === "string" && parseDateText(value) !== null) {
+      textDates++;
+    }
+  }
+  if (seen === 0) return "category";
+
+  if (textDates / seen >= MAJORITY) return "date";
+  if (DATE_NAME_HINT.test(name) && (serials + textDates) / seen >= MAJORITY) {
+    return "date";
+  }
+  if (numbers / seen >= MAJORITY) {
+    // Vote shares and swings are stored as fractions of 1
+    if (fractions === numbers && integers < numbers) return "percent";
+    return "numeric";
+  }
+  // Text codes such as "TN001" that are unique per row identify the record
+  if (
+    ID_NAME_HINT.test(name.trim()) ||
+    (seen >= MIN_ROWS_FOR_ID && distinct.size === seen)
+  ) {
+    return "id";
+  }
+  return "category";
+}
+
+export function inferColumnRole(
+  name: string,
+  type: ColumnType
+): ColumnRole | null {
+  if (type === "date") return "time";
+  if (type === "numeric" || type === "percent") {
+    if (/swing/i.test(name)) return "swing";
+    if (/sample|respondent|interview/i.test(name)) return "sample_size";
+    if (type === "percent") return "party_share";
+    return null;
+  }
+  if (type === "category" && /zone|district|region|constituency|area/i.test(name)) {
+    return "zone";
+  }
+  return null;
+}
+
+function unitFor(type: ColumnType, role: ColumnRole | null): string | null {
+  if (type === "percent") return "%";
+  if (role === "sample_size") return "respondents";
+  return null;
+}
+
+export function isNumericColumn(column: ColumnSchema | undefined): boolean {
+  return column?.type === "numeric" || column?.type === "percent";
+}
+
+/** Schema for a stored survey, built from the mapping chosen at upload. */
+export function buildSurveySchema(mappings: ColumnMapping[]): SurveySchema {
+  const schema: SurveySchema = {};
+  for (const m of mappings) {
+    if (!m.include) continue;
+    const label = m.name.trim();
+    schema[label] = {
+      type: m.type,
+      unit: unitFor(m.type, m.role ?? null),
+      label,
+      role: m.role ?? null,
+    };
+  }
+  return schema;
+}
+
+/** Schema for surveys uploaded before schemas were persisted. */
+export function inferSurveySchema(
+  variablesList: string[],
+  rows: SurveyRow[]
+): SurveySchema {
+  return buildSurveySchema(
+    variablesList.map((name) => {
+      const type = inferColumnType(name, rows);
+      return {
+        source: name,
+        name,
+        type,
+        role: inferColumnRole(name, type),
+        include: true,
+      };
+    })
+  );
+}
+
+export function inferColumnMappings(sheet: ParsedSheet): ColumnMapping[] {
+  return sheet.variablesList.map((source) => {
+    const type = inferColumnType(source, sheet.data);
+    return {
+      source,
+      name: source,
+      type,
+      role: inferColumnRole(source, type),
+      include: true,
+    };
+  });
+}
+
+/**
+ * Mappings for a file uploaded into an existing survey: columns the survey
+ * already has keep its type and role, other columns are inferred. Every
+ * column is kept, so an append can report the ones the survey lacks.
+ */
+export function mappingsFromSchema(
+  sheet: ParsedSheet,
+  schema: SurveySchema
+): ColumnMapping[] {
+  return inferColumnMappings(sheet).map((m) => {
+    const known = schema[m.source.trim()];
+    if (!known) return m;
+    return { ...m, name: m.source.trim(), type: known.type, role: known.role };
+  });
+}
+
+function isColumnMappingShape(value: unknown): value is ColumnMapping {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const m = value as Record<string, unknown>;
+  return (
+    typeof m.source === "string" &&
+    typeof m.name === "string" &&
+    typeof m.type === "string" &&
+    (m.role == null || typeof m.role === "string") &&
+    typeof m.include === "boolean"
+  );
+}
+
+/**
+ * Column mappings per sheet name as sent with an upload, or null when the
+ * value is not an object of mapping lists. Types and roles are checked by
+ * validateColumnMappings.
+ */
+export function parseColumnMappingsBySheet(
+  value: unknown
+): Record<string, ColumnMapping[]> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  // No prototype, so a sheet called "constructor" finds nothing inherited
+  const bySheet: Record<string, ColumnMapping[]> = Object.create(null);
+  for (const [sheet, mappings] of Object.entries(value)) {
+    if (!Array.isArray(mappings) || !mappings.every(isColumnMappingShape)) {
+      return null;
+    }
+    bySheet[sheet] = mappings;
+  }
+  return bySheet;
+}
+
+/** Returns an error message when the mappings cannot be applied to the sheet. */
+export function validateColumnMappings(
+  sheet: ParsedSheet,
+  mappings: ColumnMapping[]
+): string | null {
+  const names = new Set<string>();
+  let included = 0;
+  for (const m of mappings) {
+    if (!m || typeof m !== "object") return "Invalid column mapping";
+    if (!sheet.variablesList.includes(m.source)) {
+      return `Unknown column "${m.source}"`;
+    }
+    if (!COLUMN_TYPES.includes(m.type)) {
+      return `Invalid type for column "${m.source}"`;
+    }
+    if (m.role != null && !COLUMN_ROLES.includes(m.role)) {
+      return `Invalid role for column "${m.source}"`;
+    }
+    if (!m.include) continue;
+    included++;
+    const name = typeof m.name === "string" ? m.name.trim() : "";
+    if (!name) return `Column "${m.source}" needs a name`;
+    if (names.has(name)) return `Duplicate column name "${name}"`;
+    names.add(name);
+  }
+  if (included === 0) return "At least one column must be kept";
+  return null;
+}
+
+function convertValue(
+  value: unknown,
+  type: ColumnType,
+  wholePercents: boolean
+): unknown {
+  switch (type) {
+    case "numeric":
+      return toNumber(value);
+    case "percent": {
+      const n = toNumber(value);
+      if (n === null) return null;
+      return wholePercents && !(typeof value === "string" && value.trim().endsWith("%"))
+        ? percentToFraction(n)
+        : n;
+    }
+    case "date": {
+      const ts = toDateTs(value);
+      return ts === null ? null : new Date(ts).toISOString().slice(0, 10);
+    }
+    case "category":
+    case "id":
+      return String(value).trim();
+  }
+}
+
+/**
+ * Rename, drop and type-convert the columns of a parsed sheet. Dates are
+ * stored as ISO "YYYY-MM-DD" strings and percentages as fractions; values
+ * that cannot be converted are left out of the row like an empty cell.
+ */
+export function applyColumnMappings(
+  sheet: ParsedSheet,
+  mappings: ColumnMapping[]
+): ParsedSheet {
+  const kept = mappings.filter((m) => m.include);
+  // A percentage column holding values like 43.65 is in whole percents
+  const wholePercents = new Set(
+    kept
+      .filter((m) => m.type === "percent")
+      .filter((m) =>
+        sheet.data.some((row) => {
+          const n = toNumber(row[m.source]);
+          return n !== null && Math.abs(n) > 1;
+        })
+      )
+      .map((m) => m.source)
+  );
+
+  const data = sheet.data.map((row) => {
+    const out: SurveyRow = {};
+    for (const m of kept) {
+      const value = row[m.source];
+      if (value == null || (typeof value === "string" && value.trim() === "")) {
+        continue;
+      }
+      const converted = convertValue(value, m.type, wholePercents.has(m.source));
+      if (converted !== null) out[m.name.trim()] = converted;
+    }
+    return out;
+  });
+  const variablesList = kept.map((m) => m.name.trim());
+  return {
+    name: sheet.name,
+    variablesList,
+    numVariables: variablesList.length,
+    numInstances: data.length,
+    data,
+  };
+}
+
+/** Returns an error message when appended columns differ from the survey's. */
+export function compareSurveyColumns(
+  existing: string[],
+  incoming: string[]
+): string | null {
+  const missing = existing.filter((c) => !incoming.includes(c));
+  const extra = incoming.filter((c) => !existing.includes(c));
+  if (missing.length === 0 && extra.length === 0) return null;
+  const parts: string[] = [];
+  if (missing.length) parts.push(`missing ${missing.map((c) => `"${c}"`).join(", ")}`);
+  if (extra.length) parts.push(`unexpected ${extra.map((c) => `"${c}"`).join(", ")}`);
+  return `Columns do not match the survey: ${parts.join("; ")}`;
+}
+
+/** Columns used to recognise the same wave row when appending by default. */
+export function defaultDedupeKeys(schema: SurveySchema): string[] {
+  return Object.keys(schema).filter(
+    (name) => schema[name].role === "time" || schema[name].role === "zone"
+  );
+}
+
+function rowKey(row: SurveyRow, keys: string[]): string | null {
+  const values = keys.map((k) => row[k]);
+  if (values.some((v) => v == null || v === "")) return null;
+  return JSON.stringify(values);
+}
+
+/**
+ * Append rows to a survey. Existing rows that share their key values with
+ * an incoming row are dropped, as the new file supplies that wave again,
+ * and of incoming rows sharing their key values only the last is kept.
+ * Rows missing a key value never match. `duplicates` counts the incoming
+ * rows left out for a later one.
+ */
+export function mergeSurveyRows(
+  existing: SurveyRow[],
+  incoming: SurveyRow[],
+  keys: string[]
+): { data: SurveyRow[]; added: number; replaced: number; duplicates: number } {
+  // Index of the last incoming row with each key
+  const lastByKey = new Map<string, number>();
+  if (keys.length > 0) {
+    incoming.forEach((row, i) => {
+      const key = rowKey(row, keys);
+      if (key !== null) lastByKey.set(key, i);
+    });
+  }
+  const added = incoming.filter((row, i) => {
+    const key = keys.length > 0 ? rowKey(row, keys) : null;
+    return key === null || lastByKey.get(key) === i;
+  });
+  const kept = existing.filter((row) => {
+    const key = keys.length > 0 ? rowKey(row, keys) : null;
+    return key === null || !lastByKey.has(key);
+  });
+  return {
+    data: [...kept, ...added],
+    added: added.length,
+    replaced: existing.length - kept.length,
+    duplicates: incoming.length - added.length,
+  };
+}
+
+/**
+ * Stored rows converted as an upload with the survey's schema would be
+ * today, so rows kept from before dates and percentages were normalised
+ * (" 1 Mar -26", serial 45130) compare equal to newly uploaded ones.
+ */
+export function normalizeSurveyRows(
+  variablesList: string[],
+  data: SurveyRow[],
+  schema: SurveySchema
+): ParsedSheet {
+  const sheet: ParsedSheet = {
+    name: "",
+    variablesList,
+    numVariables: variablesList.length,
+    numInstances: data.length,
+    data,
+  };
+  return applyColumnMappings(sheet, mappingsFromSchema(sheet, schema));
+}
+
+/**
+ * A stored survey's columns, rows and schema in the shape uploads store
+ * today. Surveys uploaded before schemas were persisted still hold cells as
+ * their sheet had them (Excel date serials, untrimmed labels), so they are
+ * converted with an inferred schema, and every revision reads alike.
+ */
+export function surveyColumnsOf(survey: {
+  variablesList?: string[];
+  data?: SurveyRow[];
+  schema?: SurveySchema;
+}): { variablesList: string[]; data: SurveyRow[]; schema: SurveySchema } {
+  const variablesList = survey.variablesList ?? [];
+  const data = Array.isArray(survey.data) ? survey.data : [];
+  if (survey.schema) return { variablesList, data, schema: survey.schema };
+  const schema = inferSurveySchema(variablesList, data);
+  const sheet = normalizeSurveyRows(variablesList, data, schema);
+  return { variablesList: sheet.variablesList, data: sheet.data, schema };
+}
@@ -0,0 +1,66 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as XLSX from "xlsx";
+import { parseSurveyFile, SurveyParseError } from "./surveyParser";
+
+function workbookFile(rows: unknown[][]): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), "Wave 1");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" });
+}
+
+describe("parseSurveyFile", () => {
+  test("takes the columns from the header row, in order", () => {
+    const [sheet] = parseSurveyFile(
+      workbookFile([
+        ["Zone", "Notes", "2019", "Zone"],
+        ["North", null, 0.41, "A"],
+        [],
+        ["South", null, 0.39],
+      ]),
+      "survey.xlsx"
+    ).sheets;
+    assert.equal(sheet.name, "Wave 1");
+    // A column empty in every row is still a column, and a numeric header
+    // keeps its place
+    assert.deepEqual(sheet.variablesList, ["Zone", "Notes", "2019", "Zone_1"]);
+    assert.equal(sheet.numInstances, 2);
+    assert.deepEqual(sheet.data, [
+      { Zone: "North", "2019": 0.41, Zone_1: "A" },
+      { Zone: "South", "2019": 0.39 },
+    ]);
+  });
+
+  test("names data under a missing header like sheet_to_json", () => {
+    const [sheet] = parseSurveyFile(
+      workbookFile([
+        ["Zone", null, "TDP"],
+        ["North", 12, 0.4],
+      ]),
+      "survey.xlsx"
+    ).sheets;
+    assert.deepEqual(sheet.variablesList, ["Zone", "__EMPTY", "TDP"]);
+    assert.equal(sheet.data[0].__EMPTY, 12);
+  });
+
+  test("types numeric CSV text and keeps date text", () => {
+    const csv = "Month,Sample,TDP,Code\n24-03-26,\"1,210\",43.65%,0012\n";
+    const [sheet] = parseSurveyFile(Buffer.from(csv), "survey.csv").sheets;
+    assert.deepEqual(sheet.data, [
+      { Month: "24-03-26", Sample: 1210, TDP: 0.4365, Code: "0012" },
+    ]);
+  });
+
+  test("skips a __proto__ header", () => {
+    const [sheet] = parseSurveyFile(
+      Buffer.from("__proto__,Zone\n1,North\n"),
+      "survey.csv"
+    ).sheets;
+    assert.deepEqual(sheet.variablesList, ["Zone"]);
+    assert.equal(Object.getPrototypeOf(sheet.data[0]), Object.prototype);
+  });
+
+  test("rejects other file types", () => {
+    assert.throws(() => parseSurveyFile(Buffer.from("x"), "survey.txt"), SurveyParseError);
+  });
+});
@@ -0,0 +1,162 @@
+import * as XLSX from "xlsx";
+
+export type SurveyRow = Record<string, unknown>;
+
+export type ParsedSheet = {
+  name: string;
+  variablesList: string[];
+  numVariables: number;
+  numInstances: number;
+  data: SurveyRow[];
+};
+
+export type ParsedWorkbook = {
+  fileName: string;
+  sheets: ParsedSheet[];
+};
+
+export class SurveyParseError extends Error {}
+
+const SUPPORTED_EXTENSIONS = /\.(xlsx|xls|csv)$/i;
+
+/**
+ * Largest file accepted for parsing. The xlsx package on npm is no longer
+ * maintained and has known issues with crafted files, so its input is
+ * kept small and it is asked to read values only.
+ */
+export const MAX_SURVEY_FILE_BYTES = 10 * 1024 * 1024;
+
+const NUMBER_TEXT = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?$/;
+// Leading zeros are kept as text so codes like "0012" are not turned into numbers
+const LEADING_ZERO_TEXT = /^[-+]?0\d/;
+const PERCENT_TEXT = /^([-+]?\d*\.?\d+)\s*%$/;
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function isSupportedSurveyFile(fileName: string): boolean {
+  return SUPPORTED_EXTENSIONS.test(fileName);
+}
+
+export function dateToExcelSerial(date: Date): number {
+  return (date.getTime() - EXCEL_EPOCH) / MS_PER_DAY;
+}
+
+// Convert a text cell into a number when it is clearly numeric ("1,210",
+// "43.65%"). Percentages are stored as fractions, matching how Excel stores
+// percent-formatted cells.
+function coerceText(value: string): unknown {
+  const s = value.trim();
+  if (s === "") return value;
+  const pct = s.match(PERCENT_TEXT);
+  if (pct) {
+    const n = parseFloat(pct[1]);
+    // Round away float noise such as 4.19 / 100 = 0.04190000000000001
+    return Number.isFinite(n) ? Number((n / 100).toPrecision(12)) : value;
+  }
+  if (/\d/.test(s) && NUMBER_TEXT.test(s) && !LEADING_ZERO_TEXT.test(s)) {
+    const n = parseFloat(s.replace(/,/g, ""));
+    return Number.isFinite(n) ? n : value;
+  }
+  return value;
+}
+
+function normalizeCell(value: unknown): unknown {
+  if (value instanceof Date) {
+    // Keep dates as Excel serials so they match workbooks read without cellDates
+    return Number.isFinite(value.getTime()) ? dateToExcelSerial(value) : null;
+  }
+  if (typeof value === "string") return coerceText(value);
+  return value;
+}
+
+// Column names from the header row, named as sheet_to_json names them so
+// revisions of earlier uploads keep their columns: "__EMPTY" for a missing
+// header and "Name_1" for a repeated one
+function headerNames(header: unknown[], width: number): string[] {
+  const counts = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const cell = header[i];
+    const base = cell == null ? "__EMPTY" : String(cell);
+    const count = counts.get(base) ?? 0;
+    counts.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count}`;
+  });
+}
+
+function parseSheet(name: string, sheet: XLSX.WorkSheet): ParsedSheet {
+  // Rows as arrays, so columns that are empty in every row are kept and
+  // keep their place
+  const [header = [], ...rawRows] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: true,
+    blankrows: false,
+  });
+  const width = rawRows.reduce((max, r) => Math.max(max, r.length), header.length);
+  const columns = headerNames(header, width);
+  // A "__proto__" header would replace the row's prototype
+  const variables = columns.filter(
+    (column, i) =>
+      column !== "__proto__" &&
+      (header[i] != null || rawRows.some((r) => r[i] != null))
+  );
+  const data = rawRows.map((raw) => {
+    const row: SurveyRow = {};
+    columns.forEach((column, i) => {
+      if (column === "__proto__" || raw[i] == null) return;
+      row[column] = normalizeCell(raw[i]);
+    });
+    return row;
+  });
+  return {
+    name,
+    variablesList: variables,
+    numVariables: variables.length,
+    numInstances: data.length,
+    data,
+  };
+}
+
+/**
+ * Parse an uploaded .xlsx, .xls or .csv file into one entry per sheet.
+ * CSV text is read without SheetJS value guessing so that date-like text
+ * (e.g. "24-03-26") is kept as-is; numeric and percent text is still typed.
+ */
+export function parseSurveyFile(
+  buffer: ArrayBuffer | Buffer,
+  fileName: string
+): ParsedWorkbook {
+  if (!isSupportedSurveyFile(fileName)) {
+    throw new SurveyParseError(
+      "Unsupported file type. Upload an .xlsx, .xls or .csv file"
+    );
+  }
+  if (buffer.byteLength > MAX_SURVEY_FILE_BYTES) {
+    throw new SurveyParseError(
+      `${fileName} is larger than ${MAX_SURVEY_FILE_BYTES / (1024 * 1024)} MB`
+    );
+  }
+  const isCsv = /\.csv$/i.test(fileName);
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(buffer, {
+      type: buffer instanceof ArrayBuffer ? "array" : "buffer",
+      raw: isCsv,
+      cellDates: false,
+      // Only cell values are used; skip formulas, formatting and macros
+      cellFormula: false,
+      cellHTML: false,
+      cellStyles: false,
+      bookVBA: false,
+    });
+  } catch (err) {
+    throw new SurveyParseError(
+      `Could not read ${fileName}: ${err instanceof Error ? err.message : "invalid file"}`
+    );
+  }
+
+  const sheets = workbook.SheetNames.map((sheetName) =>
+    parseSheet(sheetName, workbook.Sheets[sheetName])
+  );
+  return { fileName, sheets };
+}
@@ -0,0 +1,91 @@
+import type { SurveySchema } from "./surveyColumns";
+import type { SurveyRow } from "./surveyParser";
+
+export type SurveyIndexEntry = {
+  id: string;
+  title: string;
+  state: string;
+  notes?: string;
+  sheetName?: string;
+  revision?: number;
+  uploadedAt: string;
+  numInstances: number;
+  numVariables: number;
+};
+
+export type SurveyRevisionInfo = {
+  revision: number;
+  fileName?: string;
+  sheetName?: string;
+  uploadedAt: string;
+  numInstances: number;
+};
+
+export type SurveyRecord = {
+  id: string;
+  title: string;
+  state: string;
+  notes?: string;
+  fileName?: string;
+  sheetName?: string;
+  uploadedAt: string;
+  numVariables: number;
+  variablesList: string[];
+  schema?: SurveySchema;
+  numInstances: number;
+  data: SurveyRow[];
+  /** Missing on surveys uploaded before revisions existed, which are revision 1. */
+  revision?: number;
+  previousRevisions?: SurveyRevisionInfo[];
+};
+
+export function sanitizeId(id: string): string {
+  // Allow only alphanumeric, hyphen; prevent path traversal
+  return id.replace(/[^a-zA-Z0-9-]/g, "");
+}
+
+export function generateId(): string {
+  return `survey-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function surveyRevision(record: SurveyRecord): number {
+  return record.revision ?? 1;
+}
+
+function toRevisionInfo(record: SurveyRecord): SurveyRevisionInfo {
+  return {
+    revision: surveyRevision(record),
+    ...(record.fileName ? { fileName: record.fileName } : {}),
+    ...(record.sheetName ? { sheetName: record.sheetName } : {}),
+    uploadedAt: record.uploadedAt,
+    numInstances: record.numInstances,
+  };
+}
+
+/** All revisions of a survey, newest first. */
+export function listRevisions(record: SurveyRecord): SurveyRevisionInfo[] {
+  return [toRevisionInfo(record), ...(record.previousRevisions ?? [])].sort(
+    (a, b) => b.revision - a.revision
+  );
+}
+
+/** A revision as archived; only the latest one lists the earlier revisions. */
+export function toArchivedRevision(record: SurveyRecord): SurveyRecord {
+  const archived: SurveyRecord = { ...record };
+  delete archived.previousRevisions;
+  return archived;
+}
+
+export function toIndexEntry(record: SurveyRecord): SurveyIndexEntry {
+  return {
+    id: record.id,
+    title: record.title,
+    state: record.state,
+    ...(record.notes ? { notes: record.notes } : {}),
+    ...(record.sheetName ? { sheetName: record.sheetName } : {}),
+    revision: surveyRevision(record),
+    uploadedAt: record.uploadedAt,
+    numInstances: record.numInstances,
+    numVariables: record.numVariables,
+  };
+}
@@ -0,0 +1,211 @@
+import { fsSurveyBackend } from "./surveyStoreFs";
+import { postgresSurveyBackend } from "./surveyStorePostgres";
+import {
+  listRevisions,
+  sanitizeId,
+  surveyRevision,
+  type SurveyIndexEntry,
+  type SurveyRecord,
+} from "./surveyRecord";
+
+export {
+  generateId,
+  listRevisions,
+  sanitizeId,
+  surveyRevision,
+  toIndexEntry,
+  type SurveyIndexEntry,
+  type SurveyRecord,
+  type SurveyRevisionInfo,
+} from "./surveyRecord";
+
+/** Editable survey metadata accepted by PATCH /api/survey/[id]. */
+export type SurveyMetaUpdate = Partial<Pick<SurveyRecord, "title" | "state" | "notes">>;
+
+/** Content of a re-uploaded file that becomes the next revision of a survey. */
+export type SurveyRevisionUpload = Pick<
+  SurveyRecord,
+  | "fileName"
+  | "sheetName"
+  | "uploadedAt"
+  | "numVariables"
+  | "variablesList"
+  | "schema"
+  | "numInstances"
+  | "data"
+>;
+
+/**
+ * Where survey records are kept. Each call must leave the stored surveys
+ * and their listing consistent with each other.
+ */
+export interface SurveyBackend {
+  /** Index entries, newest first. */
+  listSurveys(): Promise<SurveyIndexEntry[]>;
+  readSurvey(id: string): Promise<SurveyRecord | null>;
+  readRevision(id: string, revision: number): Promise<SurveyRecord | null>;
+  /**
+   * Insert or replace the latest revision of each survey. With `bump` the
+   * surveys move to the top of the listing in the given order; otherwise
+   * existing surveys keep their place and new ones are placed by upload
+   * date.
+   */
+  saveSurveys(records: SurveyRecord[], options: { bump: boolean }): Promise<void>;
+  /**
+   * Replace the latest revision of a survey with what `change` makes of it,
+   * with no other write to the survey in between. With `archive` the
+   * replaced revision is kept as an earlier one. Nothing is written when
+   * `change` throws; returns null when there was no such survey.
+   */
+  updateSurvey(
+    id: string,
+    change: (previous: SurveyRecord) => SurveyRecord | Promise<SurveyRecord>,
+    options: { bump: boolean; archive: boolean }
+  ): Promise<SurveyRecord | null>;
+  /** Returns false when there was no such survey. */
+  deleteSurvey(id: string): Promise<boolean>;
+}
+
+export type SurveyStorageKind = "fs" | "postgres";
+
+export class SurveyNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Survey not found: ${id}`);
+  }
+}
+
+/** Storage chosen by SURVEY_STORAGE ("fs" by default, or "postgres"). */
+export function surveyStorageKind(): SurveyStorageKind {
+  const kind = (process.env.SURVEY_STORAGE ?? "").trim().toLowerCase();
+  if (kind === "postgres" || kind === "pg") return "postgres";
+  if (kind !== "fs" && kind !== "") {
+    throw new Error(`Unknown SURVEY_STORAGE "${process.env.SURVEY_STORAGE}"`);
+  }
+  return "fs";
+}
+
+function backend(): SurveyBackend {
+  return surveyStorageKind() === "postgres"
+    ? postgresSurveyBackend
+    : fsSurveyBackend;
+}
+
+export function listSurveys(): Promise<SurveyIndexEntry[]> {
+  return backend().listSurveys();
+}
+
+export async function listSurveysByState(
+  state: string
+): Promise<SurveyIndexEntry[]> {
+  const wanted = state.trim();
+  return (await listSurveys()).filter(
+    (e) => String(e.state).trim() === wanted
+  );
+}
+
+export async function listSurveyStates(): Promise<string[]> {
+  const states = new Set<string>();
+  for (const entry of await listSurveys()) {
+    if (entry.state && String(entry.state).trim()) {
+      states.add(String(entry.state).trim());
+    }
+  }
+  return Array.from(states).sort();
+}
+
+export async function readSurvey(id: string): Promise<SurveyRecord> {
+  const survey = await backend().readSurvey(sanitizeId(id));
+  if (!survey) throw new SurveyNotFoundError(id);
+  return survey;
+}
+
+/** Read a specific revision given the latest one. */
+export async function readSurveyRevision(
+  latest: SurveyRecord,
+  revision: number
+): Promise<SurveyRecord> {
+  if (surveyRevision(latest) === revision) return latest;
+  const archived = await backend().readRevision(latest.id, revision);
+  if (!archived) {
+    throw new SurveyNotFoundError(`${latest.id} revision ${revision}`);
+  }
+  // Titles, state and notes always follow the latest revision
+  return {
+    ...archived,
+    title: latest.title,
+    state: latest.state,
+    notes: latest.notes,
+  };
+}
+
+/** Store newly uploaded surveys at the top of the listing. */
+export async function createSurveys(records: SurveyRecord[]) {
+  await backend().saveSurveys(records, { bump: true });
+}
+
+/** Store surveys brought over from elsewhere, listed by their upload date. */
+export async function importSurveys(records: SurveyRecord[]) {
+  await backend().saveSurveys(records, { bump: false });
+}
+
+export async function updateSurveyMeta(
+  id: string,
+  update: SurveyMetaUpdate,
+  /** Runs on the stored survey before it is changed; may throw to refuse */
+  check?: (previous: SurveyRecord) => void
+): Promise<SurveyRecord> {
+  const updated = await backend().updateSurvey(
+    sanitizeId(id),
+    (previous) => {
+      check?.(previous);
+      const next: SurveyRecord = { ...previous, ...update };
+      if (next.notes === "") delete next.notes;
+      return next;
+    },
+    { bump: false, archive: false }
+  );
+  if (!updated) throw new SurveyNotFoundError(id);
+  return updated;
+}
+
+/**
+ * Store a re-uploaded file as the next revision of a survey, archiving the
+ * current one first. `upload` may be built from the current revision, as
+ * when appending rows; it then runs while no other write can change it.
+ */
+export async function addSurveyRevision(
+  id: string,
+  upload:
+    | SurveyRevisionUpload
+    | ((previous: SurveyRecord) => SurveyRevisionUpload),
+  update: SurveyMetaUpdate = {}
+): Promise<SurveyRecord> {
+  const next = await backend().updateSurvey(
+    sanitizeId(id),
+    (previous) => {
+      const content = typeof upload === "function" ? upload(previous) : upload;
+      const record: SurveyRecord = {
+        id: previous.id,
+        title: previous.title,
+        state: previous.state,
+        ...(previous.notes ? { notes: previous.notes } : {}),
+        ...content,
+        ...update,
+        revision: surveyRevision(previous) + 1,
+        previousRevisions: listRevisions(previous),
+      };
+      if (record.notes === "") delete record.notes;
+      return record;
+    },
+    // A new revision counts as a fresh upload, so move it to the top
+    { bump: true, archive: true }
+  );
+  if (!next) throw new SurveyNotFoundError(id);
+  return next;
+}
+
+/** Remove a survey with all of its revisions. */
+export async function deleteSurvey(id: string) {
+  const deleted = await backend().deleteSurvey(sanitizeId(id));
+  if (!deleted) throw new SurveyNotFoundError(id);
+}
@@ -0,0 +1,115 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { SurveyRecord } from "./surveyRecord";
+
+type StoreModule = typeof import("./surveyStore");
+type FsModule = typeof import("./surveyStoreFs");
+
+function survey(id: string, uploadedAt: string): SurveyRecord {
+  return {
+    id,
+    title: id,
+    state: "Bihar",
+    uploadedAt,
+    numVariables: 1,
+    variablesList: ["Zone"],
+    numInstances: 1,
+    data: [{ Zone: "North" }],
+  };
+}
+
+// The store lives under data/ in the working directory, so the modules are
+// loaded from inside a scratch directory
+describe("file survey store", () => {
+  const previousCwd = process.cwd();
+  const previousStorage = process.env.SURVEY_STORAGE;
+  let dir: string;
+  let surveysDir: string;
+  let lockFile: string;
+  let store: StoreModule;
+  let fsStore: FsModule;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "survey-store-"));
+    surveysDir = path.join(dir, "data", "surveys");
+    lockFile = path.join(surveysDir, "index.lock");
+    process.chdir(dir);
+    delete process.env.SURVEY_STORAGE;
+    store = await import("./surveyStore");
+    fsStore = await import("./surveyStoreFs");
+  });
+
+  after(async () => {
+    process.chdir(previousCwd);
+    if (previousStorage !== undefined) process.env.SURVEY_STORAGE = previousStorage;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("concurrent uploads and appends keep every index entry", async () => {
+    await store.createSurveys([survey("survey-a", "2024-01-01T00:00:00.000Z")]);
+    await Promise.all([
+      store.createSurveys([survey("survey-b", "2024-01-02T00:00:00.000Z")]),
+      store.createSurveys([survey("survey-c", "2024-01-03T00:00:00.000Z")]),
+      ...[1, 2, 3].map((n) =>
+        store.addSurveyRevision("survey-a", (previous) => ({
+          ...previous,
+          data: [...previous.data, { Zone: `row ${n}` }],
+          numInstances: previous.data.length + 1,
+        }))
+      ),
+    ]);
+    const ids = (await store.listSurveys()).map((e) => e.id);
+    assert.deepEqual([...ids].sort(), ["survey-a", "survey-b", "survey-c"]);
+    const latest = await store.readSurvey("survey-a");
+    assert.equal(latest.revision, 4);
+    assert.equal(latest.data.length, 4);
+    await assert.rejects(fs.stat(lockFile), { code: "ENOENT" });
+  });
+
+  test("waits for a lock held by another process", async () => {
+    await fs.writeFile(lockFile, "12345\n");
+    let done = false;
+    const upload = store
+      .createSurveys([survey("survey-d", "2024-01-04T00:00:00.000Z")])
+      .then(() => {
+        done = true;
+      });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(done, false);
+    await fs.unlink(lockFile);
+    await upload;
+    assert.ok((await store.listSurveys()).some((e) => e.id === "survey-d"));
+  });
+
+  test("breaks a lock left behind by a crashed process", async () => {
+    await fs.writeFile(lockFile, "12345\n");
+    const stale = new Date(Date.now() - 60_000);
+    await fs.utimes(lockFile, stale, stale);
+    await store.createSurveys([survey("survey-e", "2024-01-05T00:00:00.000Z")]);
+    assert.ok((await store.listSurveys()).some((e) => e.id === "survey-e"));
+  });
+
+  test("refuses to update from a corrupt index, and rebuilds it", async () => {
+    const indexFile = path.join(surveysDir, "index.json");
+    await fs.writeFile(indexFile, "{not json");
+    await assert.rejects(
+      store.createSurveys([survey("survey-f", "2024-01-06T00:00:00.000Z")]),
+      /rebuild-index/
+    );
+    assert.equal(await fs.readFile(indexFile, "utf-8"), "{not json");
+
+    await fs.writeFile(path.join(surveysDir, "survey-broken.json"), "{");
+    const { entries, skipped } = await fsStore.rebuildSurveyIndex();
+    assert.deepEqual(skipped, ["survey-broken.json"]);
+    // Newest upload first
+    assert.deepEqual(
+      entries.map((e) => e.id),
+      ["survey-e", "survey-d", "survey-c", "survey-b", "survey-a"]
+    );
+    assert.equal(entries.find((e) => e.id === "survey-a")?.numInstances, 4);
+    assert.deepEqual(await store.listSurveys(), entries);
+  });
+});
@@ -0,0 +1,246 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  sanitizeId,
+  surveyRevision,
+  toArchivedRevision,
+  toIndexEntry,
+  type SurveyIndexEntry,
+  type SurveyRecord,
+} from "./surveyRecord";
+import type { SurveyBackend } from "./surveyStore";
+import { readJsonFile, writeJsonFileAtomic } from "./jsonFile";
+
+const SURVEYS_DIR = path.join(process.cwd(), "data", "surveys");
+const INDEX_FILE = path.join(SURVEYS_DIR, "index.json");
+// Held while index.json is read, changed and written back, so concurrent
+// uploads (also from other processes) cannot drop each other's entries
+const LOCK_FILE = path.join(SURVEYS_DIR, "index.lock");
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 10_000;
+const SURVEY_FILE = /^survey-[a-zA-Z0-9-]+\.json$/;
+// Earlier revisions live in revisions/<id>/<n>.json; <id>.json is the latest
+const REVISIONS_DIR = path.join(SURVEYS_DIR, "revisions");
+
+function surveyPath(id: string): string {
+  return path.join(SURVEYS_DIR, `${sanitizeId(id)}.json`);
+}
+
+function revisionPath(id: string, revision: number): string {
+  return path.join(REVISIONS_DIR, sanitizeId(id), `${revision}.json`);
+}
+
+async function readIndex(): Promise<SurveyIndexEntry[]> {
+  return (await readJsonFile<SurveyIndexEntry[]>(INDEX_FILE)) ?? [];
+}
+
+// Unlike readIndex, refuse to continue from a corrupt index: writing it back
+// would drop every entry it held
+async function readIndexForUpdate(): Promise<SurveyIndexEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(INDEX_FILE, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+    throw err;
+  }
+  try {
+    const entries = JSON.parse(content);
+    if (Array.isArray(entries)) return entries;
+  } catch {
+    // fall through
+  }
+  throw new Error(
+    "data/surveys/index.json is corrupt; run `npm run rebuild-index` to rebuild it"
+  );
+}
+
+async function writeIndex(entries: SurveyIndexEntry[]) {
+  await writeJsonFileAtomic(INDEX_FILE, entries);
+}
+
+async function unlinkIfExists(file: string) {
+  try {
+    await fs.unlink(file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+  }
+}
+
+async function acquireFileLock() {
+  await fs.mkdir(SURVEYS_DIR, { recursive: true });
+  const started = Date.now();
+  for (;;) {
+    try {
+      const handle = await fs.open(LOCK_FILE, "wx");
+      await handle.writeFile(`${process.pid}\n`);
+      await handle.close();
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code !== "EEXIST") throw err;
+    }
+    // Break a lock left behind by a process that crashed while holding it
+    try {
+      const stat = await fs.stat(LOCK_FILE);
+      if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await unlinkIfExists(LOCK_FILE);
+        continue;
+      }
+    } catch {
+      continue;
+    }
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new Error("Timed out waiting for the survey index lock");
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run an index update after earlier ones in this process have finished,
+ * holding the lock file against other processes.
+ */
+function withIndexLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = indexQueue.then(async () => {
+    await acquireFileLock();
+    try {
+      return await fn();
+    } finally {
+      await unlinkIfExists(LOCK_FILE);
+    }
+  });
+  indexQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Rebuild index.json from the survey-*.json files, newest upload first.
+ * Files that cannot be parsed are left out and reported.
+ */
+export async function rebuildSurveyIndex(): Promise<{
+  entries: SurveyIndexEntry[];
+  skipped: string[];
+}> {
+  return withIndexLock(async () => {
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(SURVEYS_DIR)).filter((f) => SURVEY_FILE.test(f));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException)?.code !== "ENOENT") throw err;
+    }
+    const entries: SurveyIndexEntry[] = [];
+    const skipped: string[] = [];
+    for (const file of files.sort()) {
+      const record = await readJsonFile<SurveyRecord>(path.join(SURVEYS_DIR, file));
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        skipped.push(file);
+        continue;
+      }
+      entries.push(
+        toIndexEntry({
+          ...record,
+          id: record.id || file.replace(/\.json$/, ""),
+          numInstances:
+            record.numInstances ?? (Array.isArray(record.data) ? record.data.length : 0),
+          numVariables:
+            record.numVariables ?? (record.variablesList ?? []).length,
+        })
+      );
+    }
+    entries.sort((a, b) => String(b.uploadedAt).localeCompare(String(a.uploadedAt)));
+    await writeIndex(entries);
+    return { entries, skipped };
+  });
+}
+
+// Survey files are written before the index; if the index write fails
+// they are put back so the two never disagree
+async function saveSurveysLocked(records: SurveyRecord[], bump: boolean) {
+  const index = await readIndexForUpdate();
+  const previous = await Promise.all(
+    records.map((r) => readJsonFile<SurveyRecord>(surveyPath(r.id)))
+  );
+  for (const record of records) {
+    await writeJsonFileAtomic(surveyPath(record.id), record);
+  }
+  try {
+    const ids = new Set(records.map((r) => r.id));
+    const entries = records.map(toIndexEntry);
+    if (bump) {
+      await writeIndex([...entries, ...index.filter((e) => !ids.has(e.id))]);
+    } else {
+      const listed = new Set(index.map((e) => e.id));
+      const next = index.map((e) => entries.find((n) => n.id === e.id) ?? e);
+      for (const entry of entries.filter((e) => !listed.has(e.id))) {
+        // The index is newest first, so go before the first older upload
+        const at = next.findIndex((e) => e.uploadedAt < entry.uploadedAt);
+        next.splice(at === -1 ? next.length : at, 0, entry);
+      }
+      await writeIndex(next);
+    }
+  } catch (err) {
+    for (let i = 0; i < records.length; i++) {
+      const prev = previous[i];
+      if (prev) await writeJsonFileAtomic(surveyPath(prev.id), prev);
+      else await unlinkIfExists(surveyPath(records[i].id));
+    }
+    throw err;
+  }
+}
+
+/**
+ * Stores each survey as data/surveys/<id>.json with data/surveys/index.json
+ * listing them newest first.
+ */
+export const fsSurveyBackend: SurveyBackend = {
+  listSurveys: readIndex,
+
+  readSurvey(id) {
+    return readJsonFile<SurveyRecord>(surveyPath(id));
+  },
+
+  readRevision(id, revision) {
+    return readJsonFile<SurveyRecord>(revisionPath(id, revision));
+  },
+
+  saveSurveys(records, { bump }) {
+    return withIndexLock(() => saveSurveysLocked(records, bump));
+  },
+
+  // The index lock also covers the survey files, so the read below cannot
+  // miss a write made by another update
+  updateSurvey(id, change, { bump, archive }) {
+    return withIndexLock(async () => {
+      const previous = await readJsonFile<SurveyRecord>(surveyPath(id));
+      if (!previous) return null;
+      const next = await change(previous);
+      if (archive) {
+        await writeJsonFileAtomic(
+          revisionPath(id, surveyRevision(previous)),
+          toArchivedRevision(previous)
+        );
+      }
+      await saveSurveysLocked([next], bump);
+      return next;
+    });
+  },
+
+  deleteSurvey(id) {
+    return withIndexLock(async () => {
+      const index = await readIndexForUpdate();
+      const listed = index.some((e) => e.id === id);
+      // Surveys missing from the index can still be cleaned up from disk
+      if (!listed && !(await readJsonFile(surveyPath(id)))) return false;
+      if (listed) await writeIndex(index.filter((e) => e.id !== id));
+      await unlinkIfExists(surveyPath(id));
+      await fs.rm(path.join(REVISIONS_DIR, sanitizeId(id)), {
+        recursive: true,
+        force: true,
+      });
+      return true;
+    });
+  },
+};
@@ -0,0 +1,97 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addSurveyRevision,
+  createSurveys,
+  deleteSurvey,
+  generateId,
+  listRevisions,
+  readSurvey,
+  readSurveyRevision,
+  updateSurveyMeta,
+  type SurveyRecord,
+} from "./surveyStore";
+import { closeSurveyDatabase } from "./surveyStorePostgres";
+
+// Runs against a real, disposable database; skipped unless one is named
+// for tests, so a configured survey or geo database is never written to
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+function survey(id: string): SurveyRecord {
+  return {
+    id,
+    title: "Integration test survey",
+    state: "Bihar",
+    uploadedAt: new Date().toISOString(),
+    numVariables: 1,
+    variablesList: ["Zone"],
+    numInstances: 1,
+    data: [{ Zone: "row 1" }],
+  };
+}
+
+describe("postgres survey backend", { skip: !databaseUrl && "TEST_DATABASE_URL is not set" }, () => {
+  const id = generateId();
+  const previousEnv = {
+    SURVEY_STORAGE: process.env.SURVEY_STORAGE,
+    SURVEY_DATABASE_URL: process.env.SURVEY_DATABASE_URL,
+  };
+
+  before(async () => {
+    process.env.SURVEY_STORAGE = "postgres";
+    process.env.SURVEY_DATABASE_URL = databaseUrl;
+    await createSurveys([survey(id)]);
+  });
+
+  after(async () => {
+    await deleteSurvey(id).catch(() => undefined);
+    await closeSurveyDatabase();
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  test("concurrent appends each build on the revision before them", async () => {
+    await Promise.all(
+      [2, 3, 4].map((n) =>
+        addSurveyRevision(id, (previous) => {
+          const data = [...previous.data, { Zone: `row ${n}` }];
+          return { ...previous, data, numInstances: data.length };
+        })
+      )
+    );
+
+    const latest = await readSurvey(id);
+    assert.equal(latest.revision, 4);
+    assert.equal(latest.data.length, 4);
+    assert.deepEqual(
+      listRevisions(latest).map((r) => r.revision),
+      [4, 3, 2, 1]
+    );
+    for (const revision of [1, 2, 3]) {
+      const archived = await readSurveyRevision(latest, revision);
+      assert.equal(archived.data.length, revision);
+      assert.equal(archived.previousRevisions, undefined);
+    }
+  });
+
+  test("a failing change writes neither the revision nor the survey", async () => {
+    await assert.rejects(
+      addSurveyRevision(id, () => {
+        throw new Error("refused");
+      }),
+      /refused/
+    );
+    const latest = await readSurvey(id);
+    assert.equal(latest.revision, 4);
+    await assert.rejects(readSurveyRevision(latest, 5));
+  });
+
+  test("metadata edits keep the revision", async () => {
+    const updated = await updateSurveyMeta(id, { title: "Renamed" });
+    assert.equal(updated.title, "Renamed");
+    assert.equal(updated.revision, 4);
+    assert.equal((await readSurvey(id)).title, "Renamed");
+  });
+});
@@ -0,0 +1,173 @@
+import { Pool, type PoolClient } from "pg";
+import {
+  surveyRevision,
+  toArchivedRevision,
+  toIndexEntry,
+  type SurveyIndexEntry,
+  type SurveyRecord,
+} from "./surveyRecord";
+import type { SurveyBackend } from "./surveyStore";
+
+// Surveys are listed newest upload first; the sequence breaks ties so that
+// bumped surveys sort first
+const SCHEMA_SQL = `
+  CREATE SEQUENCE IF NOT EXISTS survey_listing_seq;
+  CREATE TABLE IF NOT EXISTS surveys (
+    id text PRIMARY KEY,
+    state text NOT NULL,
+    listing bigint NOT NULL DEFAULT nextval('survey_listing_seq'),
+    entry jsonb NOT NULL,
+    record jsonb NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS surveys_listing_idx ON surveys (listing DESC);
+  CREATE TABLE IF NOT EXISTS survey_revisions (
+    survey_id text NOT NULL REFERENCES surveys (id) ON DELETE CASCADE,
+    revision integer NOT NULL,
+    record jsonb NOT NULL,
+    PRIMARY KEY (survey_id, revision)
+  );
+`;
+
+let pool: Pool | null = null;
+let schemaReady: Promise<void> | null = null;
+
+function getPool(): Pool {
+  if (!pool) {
+    // Never DATABASE_URL: that is the geo database, not a place for surveys
+    const connectionString = process.env.SURVEY_DATABASE_URL;
+    if (!connectionString) {
+      throw new Error("SURVEY_STORAGE=postgres needs SURVEY_DATABASE_URL");
+    }
+    // SSL is configured through the connection string (?sslmode=require)
+    pool = new Pool({ connectionString });
+  }
+  return pool;
+}
+
+/** Close the connection pool so that scripts and tests can exit. */
+export async function closeSurveyDatabase() {
+  const p = pool;
+  pool = null;
+  schemaReady = null;
+  await p?.end();
+}
+
+// Create the tables on first use so a fresh database works out of the box
+async function db(): Promise<Pool> {
+  const p = getPool();
+  if (!schemaReady) {
+    schemaReady = p
+      .query(SCHEMA_SQL)
+      .then(() => undefined)
+      .catch((err) => {
+        schemaReady = null;
+        throw err;
+      });
+  }
+  await schemaReady;
+  return p;
+}
+
+async function inTransaction<T>(fn: (client: PoolClient) => Promise<T>) {
+  const client = await (await db()).connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function upsertSurvey(client: PoolClient, record: SurveyRecord, bump: boolean) {
+  await client.query(
+    `INSERT INTO surveys (id, state, entry, record)
+     VALUES ($1, $2, $3::jsonb, $4::jsonb)
+     ON CONFLICT (id) DO UPDATE SET
+       state = EXCLUDED.state,
+       entry = EXCLUDED.entry,
+       record = EXCLUDED.record,
+       listing = CASE WHEN $5 THEN nextval('survey_listing_seq')
+                      ELSE surveys.listing END`,
+    [
+      record.id,
+      record.state,
+      JSON.stringify(toIndexEntry(record)),
+      JSON.stringify(record),
+      bump,
+    ]
+  );
+}
+
+/** Stores surveys in the surveys and survey_revisions tables. */
+export const postgresSurveyBackend: SurveyBackend = {
+  async listSurveys() {
+    const result = await (await db()).query<{ entry: SurveyIndexEntry }>(
+      `SELECT entry FROM surveys
+       ORDER BY entry->>'uploadedAt' DESC, listing DESC`
+    );
+    return result.rows.map((r) => r.entry);
+  },
+
+  async readSurvey(id) {
+    const result = await (await db()).query<{ record: SurveyRecord }>(
+      "SELECT record FROM surveys WHERE id = $1",
+      [id]
+    );
+    return result.rows[0]?.record ?? null;
+  },
+
+  async readRevision(id, revision) {
+    const result = await (await db()).query<{ record: SurveyRecord }>(
+      "SELECT record FROM survey_revisions WHERE survey_id = $1 AND revision = $2",
+      [id, revision]
+    );
+    return result.rows[0]?.record ?? null;
+  },
+
+  async saveSurveys(records, { bump }) {
+    await inTransaction(async (client) => {
+      // Insert in reverse so the first record ends up at the top
+      for (const record of [...records].reverse()) {
+        await upsertSurvey(client, record, bump);
+      }
+    });
+  },
+
+  updateSurvey(id, change, { bump, archive }) {
+    // The archived revision and the new latest one are written together;
+    // FOR UPDATE holds other updates of the survey until COMMIT
+    return inTransaction(async (client) => {
+      const result = await client.query<{ record: SurveyRecord }>(
+        "SELECT record FROM surveys WHERE id = $1 FOR UPDATE",
+        [id]
+      );
+      const previous = result.rows[0]?.record;
+      if (!previous) return null;
+      const next = await change(previous);
+      if (archive) {
+        await client.query(
+          `INSERT INTO survey_revisions (survey_id, revision, record)
+           VALUES ($1, $2, $3::jsonb)
+           ON CONFLICT (survey_id, revision) DO UPDATE SET record = EXCLUDED.record`,
+          [id, surveyRevision(previous), JSON.stringify(toArchivedRevision(previous))]
+        );
+      }
+      await upsertSurvey(client, next, bump);
+      return next;
+    });
+  },
+
+  async deleteSurvey(id) {
+    // Revisions go with the survey through ON DELETE CASCADE
+    const result = await (await db()).query(
+      "DELETE FROM surveys WHERE id = $1",
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  },
+};
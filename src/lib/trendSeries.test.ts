@@ -0,0 +1,88 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  marginOfError,
+  meanOfField,
+  parseNumeric,
+  rollingMean,
+  sampleSizeOf,
+  statisticalTie,
+} from "./trendSeries";
+
+describe("meanOfField", () => {
+  const rows = [
+    { TDP: 0.4, Sample: 100 },
+    { TDP: "46%", Sample: "300" },
+    { TDP: 0.9, Sample: 0 },
+    { TDP: 0.2 },
+    { TDP: "", Sample: 500 },
+  ];
+
+  test("averages the rows with a value", () => {
+    assert.equal(meanOfField(rows, "TDP", null), (0.4 + 0.46 + 0.9 + 0.2) / 4);
+    assert.equal(meanOfField([], "TDP", null), null);
+  });
+
+  test("weights each row, skipping rows without a positive weight", () => {
+    assert.equal(meanOfField(rows, "TDP", "Sample"), (0.4 * 100 + 0.46 * 300) / 400);
+    assert.equal(meanOfField([{ TDP: 0.4, Sample: -1 }], "TDP", "Sample"), null);
+  });
+
+  test("reads numeric text", () => {
+    assert.equal(parseNumeric(" 1,210 "), 1210);
+    assert.equal(parseNumeric("43.5%"), 0.435);
+    assert.equal(parseNumeric("n/a"), null);
+    assert.equal(parseNumeric(Number.NaN), null);
+  });
+});
+
+describe("confidence bands", () => {
+  test("count respondents by row or by sample size", () => {
+    const rows = [{ TDP: 0.4, n: 600 }, { TDP: 0.5, n: "400" }, { n: 1000 }, { TDP: 0.3, n: 0 }];
+    assert.equal(sampleSizeOf(rows, "TDP", null), 3);
+    assert.equal(sampleSizeOf(rows, "TDP", "n"), 1000);
+  });
+
+  test("give the 95% margin of a proportion", () => {
+    assert.equal(marginOfError(0.5, 1000)!.toFixed(4), "0.0310");
+    assert.equal(marginOfError(0.5, 0), null);
+    assert.equal(marginOfError(43, 1000), null);
+  });
+
+  test("mark a lead within the margin of error as a tie", () => {
+    const a = { label: "TDP", value: 44, moe: 3 };
+    const b = { label: "YSRCP", value: 39, moe: 3 };
+    const c = { label: "JSP", value: 10, moe: 2 };
+    assert.deepEqual(statisticalTie([c, b, a]), [a, b]);
+    assert.equal(statisticalTie([{ ...a, value: 46 }, b, c]), null);
+    assert.equal(statisticalTie([a]), null);
+  });
+});
+
+describe("rollingMean", () => {
+  test("spans calendar periods, counting months without a poll", () => {
+    const months = ["2024-01-01", "2024-02-01", "2024-05-01", "2024-06-01"];
+    assert.deepEqual(rollingMean([10, 20, 30, 40], months, 3, "month"), [10, 15, 30, 35]);
+  });
+
+  test("crosses year ends by week and quarter", () => {
+    assert.deepEqual(
+      rollingMean([1, 3, 5], ["2023-12-18", "2024-01-01", "2024-01-08"], 2, "week"),
+      [1, 3, 4]
+    );
+    assert.deepEqual(
+      rollingMean([1, 3, 5], ["2023-07-01", "2023-10-01", "2024-01-01"], 2, "quarter"),
+      [1, 2, 4]
+    );
+  });
+
+  test("ignores periods without data", () => {
+    const days = ["2024-03-01", "2024-03-02", "2024-03-03"];
+    assert.deepEqual(rollingMean([null, 2, null], days, 2, "day"), [null, 2, 2]);
+  });
+
+  test("counts x values on the raw grain", () => {
+    const labels = ["Wave 1", "Wave 2", "Wave 3"];
+    assert.deepEqual(rollingMean([1, 2, 6], labels, 2, "raw"), [1, 1.5, 4]);
+  });
+});
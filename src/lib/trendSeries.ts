@@ -0,0 +1,129 @@
+import type { TimeGrain } from "./reportView";
+
+/** A cell as a number, reading text such as "1,210" and "43.65%". */
+export function parseNumeric(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const s = value.trim();
+    if (s === "") return null;
+    // percentage like "43.65%"
+    if (s.endsWith("%")) {
+      const num = parseFloat(s.slice(0, -1));
+      if (!Number.isNaN(num)) return num / 100;
+      return null;
+    }
+    // plain numeric string
+    const n = parseFloat(s.replace(/,/g, ""));
+    if (!Number.isNaN(n)) return n;
+  }
+  return null;
+}
+
+/**
+ * Mean of a field over rows. With a weight field, each row counts by its
+ * weight (e.g. its sample size); rows without a positive weight are skipped.
+ */
+export function meanOfField(
+  rows: Record<string, unknown>[],
+  field: string,
+  weightField: string | null
+): number | null {
+  let sum = 0;
+  let total = 0;
+  for (const row of rows) {
+    const parsed = parseNumeric(row[field]);
+    if (parsed === null) continue;
+    const weight = weightField ? parseNumeric(row[weightField]) : 1;
+    if (weight === null || weight <= 0) continue;
+    sum += parsed * weight;
+    total += weight;
+  }
+  return total > 0 ? sum / total : null;
+}
+
+/**
+ * Respondents behind a field's mean: the rows with a value, or the sum of
+ * their sample sizes when a sample-size column is given.
+ */
+export function sampleSizeOf(
+  rows: Record<string, unknown>[],
+  field: string,
+  sampleSizeField: string | null
+): number {
+  let n = 0;
+  for (const row of rows) {
+    if (parseNumeric(row[field]) === null) continue;
+    if (!sampleSizeField) {
+      n += 1;
+      continue;
+    }
+    const size = parseNumeric(row[sampleSizeField]);
+    if (size !== null && size > 0) n += size;
+  }
+  return n;
+}
+
+/**
+ * Half-width of the 95% confidence interval of a proportion (normal
+ * approximation); null without respondents or for values outside 0..1.
+ */
+export function marginOfError(p: number, n: number): number | null {
+  if (n <= 0 || p < 0 || p > 1) return null;
+  return 1.96 * Math.sqrt((p * (1 - p)) / n);
+}
+
+/**
+ * The leader and the runner-up of one point when the leader's band reaches
+ * the runner-up's, so the lead is within the margin of error; otherwise null.
+ */
+export function statisticalTie<T extends { value: number; moe: number }>(
+  points: T[]
+): [T, T] | null {
+  const [first, second] = [...points].sort((a, b) => b.value - a.value);
+  if (!second || first.value - first.moe > second.value + second.moe) return null;
+  return [first, second];
+}
+
+type CalendarGrain = Exclude<TimeGrain, "raw">;
+
+// Start of the period `count` periods before the one starting at `start`,
+// both as "YYYY-MM-DD"
+function periodsBefore(start: string, count: number, grain: CalendarGrain): string {
+  const [year, month, day] = start.split("-").map(Number);
+  const shifted =
+    grain === "day"
+      ? Date.UTC(year, month - 1, day - count)
+      : grain === "week"
+        ? Date.UTC(year, month - 1, day - 7 * count)
+        : Date.UTC(year, month - 1 - (grain === "quarter" ? 3 : 1) * count, 1);
+  return new Date(shifted).toISOString().slice(0, 10);
+}
+
+/**
+ * Trailing mean of each point over the last `window` periods, ignoring
+ * points without data. With a calendar grain `xLabels` are the periods'
+ * first days and the window spans calendar periods, so a month without a
+ * poll still uses up one of a 3-month window's months. On the raw grain
+ * each x value is one period.
+ */
+export function rollingMean(
+  values: (number | null)[],
+  xLabels: string[],
+  window: number,
+  grain: TimeGrain
+): (number | null)[] {
+  return values.map((_, i) => {
+    let from = Math.max(0, i - window + 1);
+    if (grain !== "raw") {
+      const earliest = periodsBefore(xLabels[i], window - 1, grain);
+      from = xLabels.findIndex((x, j) => j <= i && x >= earliest);
+    }
+    const present = values
+      .slice(from, i + 1)
+      .filter((v): v is number => v !== null);
+    return present.length > 0
+      ? present.reduce((a, b) => a + b, 0) / present.length
+      : null;
+  });
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CalculatedField } from "./calculatedFields";
+
+export type ListedCalculatedField = CalculatedField & { canDelete: boolean };
+
+type Loaded = {
+  key: string;
+  fields: ListedCalculatedField[];
+  canCreate: boolean;
+};
+
+/**
+ * The calculated fields of a state, and of one survey when surveyId is set,
+ * with whether the user may add more. Call reload after a change.
+ */
+export function useCalculatedFields(state: string, surveyId: string | null) {
+  // Tagged with the state and survey they were loaded for, so another
+  // survey's fields are never shown while this one's are loading
+  const [loaded, setLoaded] = useState<Loaded | null>(null);
+  const [version, setVersion] = useState(0);
+  const key = JSON.stringify([state, surveyId ?? ""]);
+
+  useEffect(() => {
+    if (!state) return;
+    let cancelled = false;
+    (async () => {
+      let next: Loaded = { key, fields: [], canCreate: false };
+      try {
+        const params = new URLSearchParams({ state });
+        if (surveyId) params.set("survey", surveyId);
+        const res = await fetch(`/api/reports/calculated-fields?${params}`);
+        if (res.ok) {
+          const data = await res.json();
+          next = {
+            key,
+            fields: Array.isArray(data?.fields) ? data.fields : [],
+            canCreate: data?.canCreate === true,
+          };
+        }
+      } catch {
+        // shown without calculated fields
+      }
+      if (!cancelled) setLoaded(next);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [key, state, surveyId, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  const current = state && loaded?.key === key ? loaded : null;
+  return {
+    fields: current?.fields ?? [],
+    canCreate: current?.canCreate ?? false,
+    reload,
+  };
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  EMPTY_PARTY_REGISTRY,
+  resolveParty,
+  type PartyContext,
+  type PartyRegistry,
+  type ResolvedParty,
+} from "./partyRegistry";
+
+/**
+ * The party registry for charts, and a resolver bound to it. Until it has
+ * loaded, labels resolve to nothing and charts use their own colours.
+ */
+export function usePartyRegistry() {
+  const [registry, setRegistry] = useState<PartyRegistry>(EMPTY_PARTY_REGISTRY);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch("/api/parties");
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled && data?.registry) setRegistry(data.registry);
+      } catch {
+        // charts fall back to their own colours
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const resolve = useCallback(
+    (label: string, context?: PartyContext): ResolvedParty | null =>
+      resolveParty(registry, label, context),
+    [registry]
+  );
+
+  return { registry, resolve };
+}
@@ -0,0 +1,108 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+type UsersModule = typeof import("./users");
+
+// users.json lives under data/ in the working directory, so the module is
+// loaded from inside a scratch directory
+describe("user accounts", () => {
+  const previousCwd = process.cwd();
+  const previousEnv = {
+    AUTH_USERNAME: process.env.AUTH_USERNAME,
+    AUTH_PASSWORD: process.env.AUTH_PASSWORD,
+  };
+  let dir: string;
+  let usersFile: string;
+  let users: UsersModule;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "users-"));
+    usersFile = path.join(dir, "data", "users.json");
+    process.chdir(dir);
+    process.env.AUTH_USERNAME = "Owner";
+    process.env.AUTH_PASSWORD = "first-password";
+    users = await import("./users");
+  });
+
+  after(async () => {
+    process.chdir(previousCwd);
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("the environment pair creates the first admin", async () => {
+    assert.deepEqual(await users.authenticate("owner", "wrong-password"), {
+      user: null,
+      knownUsername: false,
+    });
+    const { user: admin } = await users.authenticate("owner", "first-password");
+    assert.equal(admin?.username, "owner");
+    assert.equal(admin?.role, "admin");
+    // Once an account exists the pair is an ordinary login
+    assert.ok((await users.authenticate("OWNER", "first-password")).user);
+  });
+
+  test("tells known and unknown usernames apart only in the result", async () => {
+    assert.deepEqual(await users.authenticate("owner", "wrong-password"), {
+      user: null,
+      knownUsername: true,
+    });
+    assert.deepEqual(await users.authenticate("nobody", "first-password"), {
+      user: null,
+      knownUsername: false,
+    });
+  });
+
+  test("public users carry no password hash", async () => {
+    const [admin] = await users.listUsers();
+    const shown = users.toPublicUser(admin);
+    assert.equal("passwordHash" in shown, false);
+    assert.deepEqual({ ...shown, passwordHash: admin.passwordHash }, admin);
+  });
+
+  test("an allow-list must name a state", async () => {
+    await assert.rejects(
+      users.createUser({ username: "field", password: "password1", allowedStates: [] }),
+      users.UserError
+    );
+    await assert.rejects(
+      users.createUser({ username: "field", password: "password1", allowedStates: [" "] }),
+      /at least one state/
+    );
+    const scoped = await users.createUser({
+      username: "field",
+      password: "password1",
+      allowedStates: ["Bihar"],
+    });
+    assert.deepEqual(scoped.allowedStates, ["Bihar"]);
+    const widened = await users.updateUser(scoped.id, { allowedStates: null });
+    assert.equal(widened.allowedStates, undefined);
+  });
+
+  test("the last active admin cannot be disabled", async () => {
+    const admin = (await users.listUsers()).find((u) => u.role === "admin")!;
+    await assert.rejects(
+      users.updateUser(admin.id, { disabled: true }),
+      /At least one active admin/
+    );
+  });
+
+  test("a corrupt users.json fails closed", async () => {
+    for (const content of ["{not json", '{"users": []}']) {
+      await fs.writeFile(usersFile, content);
+      await assert.rejects(users.listUsers());
+      // Never treated as "no accounts yet", which would accept the env pair
+      await assert.rejects(users.authenticate("owner", "first-password"));
+      await assert.rejects(
+        users.createUser({ username: "someone", password: "password1" })
+      );
+      assert.equal(await fs.readFile(usersFile, "utf-8"), content);
+    }
+  });
+});
@@ -0,0 +1,297 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import path from "path";
+import { readJsonFileStrict, updateJsonFile } from "./jsonFile";
+import { isRole, type Role } from "./roles";
+import { cleanStateList } from "./stateAccess";
+
+const USERS_FILE = path.join(process.cwd(), "data", "users.json");
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+
+export type StoredUser = {
+  id: string;
+  username: string;
+  /** "scrypt$N$r$p$salt$hash" with base64 salt and hash */
+  passwordHash: string;
+  role: Role;
+  /** States the user may see; every state when absent */
+  allowedStates?: string[];
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A user as returned by the API, without the password hash. */
+export type PublicUser = Omit<StoredUser, "passwordHash">;
+
+export class UserError extends Error {}
+
+export class UserNotFoundError extends UserError {
+  constructor(id: string) {
+    super(`User not found: ${id}`);
+  }
+}
+
+function scryptAsync(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  });
+  return [
+    "scrypt",
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString("base64"),
+    hash.toString("base64"),
+  ].join("$");
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, n, r, p, saltText, hashText] = stored.split("$");
+  if (scheme !== "scrypt" || !saltText || !hashText) return false;
+  const expected = Buffer.from(hashText, "base64");
+  try {
+    const actual = await scryptAsync(
+      password,
+      Buffer.from(saltText, "base64"),
+      expected.length,
+      { N: Number(n), r: Number(r), p: Number(p) }
+    );
+    return timingSafeEqual(actual, expected);
+  } catch {
+    // Malformed scrypt parameters in the stored hash
+    return false;
+  }
+}
+
+// Listed field by field so that nothing added to StoredUser later leaks
+export function toPublicUser(user: StoredUser): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    ...(user.allowedStates ? { allowedStates: user.allowedStates } : {}),
+    disabled: user.disabled,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// null clears the allow-list; undefined leaves it unchanged
+function parseAllowedStates(value: unknown): string[] | null | undefined {
+  if (value === undefined || value === null) return value;
+  if (!Array.isArray(value) || !value.every((s) => typeof s === "string")) {
+    throw new UserError("allowedStates must be a list of state names or null");
+  }
+  const states = cleanStateList(value);
+  // Only null grants every state, so a cleared list never widens access
+  if (states.length === 0) {
+    throw new UserError("allowedStates needs at least one state; send null for all states");
+  }
+  return states;
+}
+
+function validatePassword(password: unknown): string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+  }
+  return password;
+}
+
+// Accounts created before roles existed have an isAdmin flag instead; other
+// users could do everything except manage accounts, so they become analysts
+type LegacyUser = Omit<StoredUser, "role"> & { role?: unknown; isAdmin?: boolean };
+
+function normalizeUser(user: LegacyUser): StoredUser {
+  const { isAdmin, role, ...rest } = user;
+  return {
+    ...rest,
+    role: isRole(role) ? role : isAdmin ? "admin" : "analyst",
+  };
+}
+
+// A users.json that cannot be read must not look like "no accounts yet":
+// sign-in would fall back to AUTH_USERNAME and the next update would write
+// the file back without everyone else
+function usersFrom(value: unknown): StoredUser[] {
+  if (!Array.isArray(value)) {
+    throw new Error("data/users.json is not a list of users");
+  }
+  return (value as LegacyUser[]).map(normalizeUser);
+}
+
+export async function listUsers(): Promise<StoredUser[]> {
+  return usersFrom((await readJsonFileStrict<unknown>(USERS_FILE)) ?? []);
+}
+
+function updateUsers<R>(
+  update: (users: StoredUser[]) => { value: StoredUser[]; result: R }
+): Promise<R> {
+  return updateJsonFile<unknown, R>(USERS_FILE, [], (users) =>
+    update(usersFrom(users))
+  );
+}
+
+export async function getUser(id: string): Promise<StoredUser | null> {
+  return (await listUsers()).find((u) => u.id === id) ?? null;
+}
+
+export async function createUser(input: {
+  username: unknown;
+  password: unknown;
+  role?: unknown;
+  allowedStates?: unknown;
+}): Promise<StoredUser> {
+  const username =
+    typeof input.username === "string" ? normalizeUsername(input.username) : "";
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new UserError(
+      "Username must be 3-32 letters, digits, dots, dashes or underscores"
+    );
+  }
+  const role = input.role ?? "viewer";
+  if (!isRole(role)) {
+    throw new UserError("Role must be viewer, analyst or admin");
+  }
+  const allowedStates = parseAllowedStates(input.allowedStates);
+  const passwordHash = await hashPassword(validatePassword(input.password));
+  return updateUsers((users) => {
+    if (users.some((u) => u.username === username)) {
+      throw new UserError(`User "${username}" already exists`);
+    }
+    const now = new Date().toISOString();
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      passwordHash,
+      role,
+      ...(allowedStates ? { allowedStates } : {}),
+      disabled: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { value: [...users, user], result: user };
+  });
+}
+
+export type UserUpdate = {
+  password?: unknown;
+  role?: unknown;
+  allowedStates?: unknown;
+  disabled?: unknown;
+};
+
+export async function updateUser(
+  id: string,
+  update: UserUpdate
+): Promise<StoredUser> {
+  const passwordHash =
+    update.password !== undefined
+      ? await hashPassword(validatePassword(update.password))
+      : undefined;
+  if (update.role !== undefined && !isRole(update.role)) {
+    throw new UserError("Role must be viewer, analyst or admin");
+  }
+  const allowedStates = parseAllowedStates(update.allowedStates);
+  return updateUsers((users) => {
+    const current = users.find((u) => u.id === id);
+    if (!current) throw new UserNotFoundError(id);
+    const next: StoredUser = {
+      ...current,
+      ...(passwordHash ? { passwordHash } : {}),
+      ...(isRole(update.role) ? { role: update.role } : {}),
+      ...(typeof update.disabled === "boolean" ? { disabled: update.disabled } : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    if (allowedStates) next.allowedStates = allowedStates;
+    if (allowedStates === null) delete next.allowedStates;
+    // Keep at least one active admin so the admin screen stays reachable
+    const activeAdmins = users
+      .map((u) => (u.id === id ? next : u))
+      .filter((u) => u.role === "admin" && !u.disabled);
+    if (activeAdmins.length === 0) {
+      throw new UserError("At least one active admin is required");
+    }
+    return {
+      value: users.map((u) => (u.id === id ? next : u)),
+      result: next,
+    };
+  });
+}
+
+/**
+ * The outcome of a sign-in. `knownUsername` says whether an account with
+ * that username exists, disabled or not, so failures can be counted
+ * against it.
+ */
+export type AuthResult = { user: StoredUser | null; knownUsername: boolean };
+
+// Checked when there is no such user, so that a wrong username takes as
+// long as a wrong password and cannot be told apart by timing
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Check a username and password. Before any account exists, the
+ * AUTH_USERNAME / AUTH_PASSWORD pair from the environment creates the first
+ * admin account.
+ */
+export async function authenticate(
+  username: string,
+  password: string
+): Promise<AuthResult> {
+  const users = await listUsers();
+  if (users.length === 0) {
+    const envUsername = process.env.AUTH_USERNAME;
+    const envPassword = process.env.AUTH_PASSWORD;
+    if (
+      envUsername &&
+      envPassword &&
+      normalizeUsername(username) === normalizeUsername(envUsername) &&
+      password === envPassword
+    ) {
+      const user = await createUser({ username: envUsername, password, role: "admin" });
+      return { user, knownUsername: true };
+    }
+    return { user: null, knownUsername: false };
+  }
+  const user = users.find((u) => u.username === normalizeUsername(username));
+  if (!user) {
+    dummyHash ??= hashPassword(randomBytes(SALT_BYTES).toString("base64"));
+    await verifyPassword(password, await dummyHash);
+    return { user: null, knownUsername: false };
+  }
+  const valid = await verifyPassword(password, user.passwordHash);
+  return { user: valid ? user : null, knownUsername: true };
+}
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
+import { recordApiTokenUsage } from "@/lib/apiTokens";
+import { hasRole, requiredRole } from "@/lib/roles";
+import { getRequestAuth, withinTokenScope } from "@/lib/sessions";
 
-const AUTH_COOKIE = "auth_session";
 const LOGIN_PATH = "/login";
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Allow login page and auth API
@@ -20,18 +22,45 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  const authSecret = process.env.AUTH_SECRET;
-  const cookieValue = request.cookies.get(AUTH_COOKIE)?.value;
+  const auth = await getRequestAuth(request);
 
-  if (!authSecret || cookieValue !== authSecret) {
+  if (!auth) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
     const loginUrl = new URL(LOGIN_PATH, request.url);
     loginUrl.searchParams.set("redirect", pathname);
     return NextResponse.redirect(loginUrl);
   }
 
+  const { user, apiToken } = auth;
+  if (apiToken) {
+    const inScope = withinTokenScope(auth, request);
+    await recordApiTokenUsage(apiToken, user, request, inScope);
+    if (!inScope) {
+      return NextResponse.json(
+        { error: "This API token cannot be used for this request" },
+        { status: 403 }
+      );
+    }
+  }
+
+  const role = requiredRole(pathname, request.method);
+  if (role && !hasRole(user.role, role)) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json(
+        { error: `This requires the ${role} role` },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
+  // Sessions, users and API tokens are read from data/, which needs Node APIs
+  runtime: "nodejs",
   matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
 };